@@ -2,27 +2,76 @@ import { AgentInput, ILanguageModelProvider } from "@/agents";
 import { AgentOutput } from "../interfaces/agent.interface";
 import { ModelProviderFactory } from "../interfaces";
 import { PromptTemplate } from "@langchain/core/prompts";
+import { Logger, logger } from "@/ui/classes/logger.class";
+import { Redactor, redactor } from "@/trace/classes/redactor.class";
+import {
+  UNTRUSTED_CONTENT_NOTICE,
+  fenceUntrustedContent,
+  findInstructionLikeContent,
+} from "@/trace";
 
 export abstract class BaseAgent<T extends AgentOutput> {
   protected modelProvider: ILanguageModelProvider;
   protected systemPrompt: string;
+  protected logger: Logger = logger.child("agent");
+  protected redactor: Redactor = redactor;
 
   constructor(
     systemPrompt: string,
     modelProvider?: ILanguageModelProvider,
     apiKey?: string
   ) {
-    this.systemPrompt = systemPrompt;
-    // Use provided model provider or create default one
+    // Every agent gets trace content fenced, and is told how to read it
+    this.systemPrompt = `${systemPrompt.trimEnd()}\n${UNTRUSTED_CONTENT_NOTICE}\n`;
+    // Use provided model provider or create the configured default one
     this.modelProvider =
-      modelProvider || ModelProviderFactory.createProvider("anthropic", apiKey);
+      modelProvider || ModelProviderFactory.createProvider(undefined, apiKey);
+  }
+
+  /**
+   * Sets the logger the agent reports its progress and problems to
+   */
+  setLogger(logger: Logger): this {
+    this.logger = logger;
+    return this;
+  }
+
+  /**
+   * Sets the redactor that masks secrets in the trace and the prompt before
+   * they are sent to the model
+   */
+  setRedactor(redactor: Redactor): this {
+    this.redactor = redactor;
+    return this;
+  }
+
+  /**
+   * Fences a section of the prompt that was recorded from the application
+   * under test, such as console messages or error text, so the model reads
+   * it as data rather than as instructions
+   */
+  protected untrusted(source: string, content: string): string {
+    const flagged = findInstructionLikeContent(content);
+    if (flagged.length > 0) {
+      this.logger.warn(
+        `Instruction-like text in ${source} (${flagged.join(
+          ", "
+        )}), passing it to the model as data`
+      );
+    }
+    return fenceUntrustedContent(source, content);
   }
 
   abstract formatInput(input: AgentInput): Promise<string>;
   abstract parseOutput(output: string): Promise<T>;
 
   async process(input: AgentInput): Promise<T> {
-    let formattedInput = await this.formatInput(input);
+    let formattedInput = await this.formatInput({
+      ...input,
+      trace: this.redactor.redactTrace(input.trace),
+    });
+    // Also masks secrets in what didn't come from the trace, like chat messages
+    formattedInput = this.redactor.redactText(formattedInput, "prompt");
 
     // Escape any curly braces in the input to avoid template parsing errors
     formattedInput = formattedInput.replace(/\{/g, "{{").replace(/\}/g, "}}");
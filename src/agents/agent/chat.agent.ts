@@ -1,7 +1,15 @@
 import { BaseAgent } from "./base.agent";
 import { AgentInput, ILanguageModelProvider } from "@/agents";
-import { ParsedTrace } from "@/trace";
+import { TracePromptBudget } from "@/trace";
+import { TracePromptRenderer } from "@/trace/classes/trace.prompt.renderer.class";
 import { ChatMessage, ChatResponse } from "../interfaces/chat.agent.interface";
+
+// Questions are answered from the failure, the trace is only a short reminder of it
+const PROMPT_BUDGET: TracePromptBudget = {
+  errors: 1000,
+  pageEvents: 300,
+};
+
 export class ChatAgent extends BaseAgent<ChatResponse> {
   private conversationHistory: ChatMessage[] = [];
   private verbose: boolean;
@@ -61,15 +69,20 @@ their Playwright test issues.
     // Format trace data for agent input
     let traceContext = "";
     if (trace) {
-      const traceSummary = this.formatTraceSummary(trace);
-      const errorsSummary = this.formatErrorsSummary(trace);
+      const renderer = new TracePromptRenderer(trace, PROMPT_BUDGET);
+      const traceSummary = renderer.renderSummary();
+      const errorsSummary = renderer.renderErrors();
+      const pageEventsSummary = renderer.renderPageEvents();
 
       traceContext = `
 Test Information:
-${traceSummary}
+${this.untrusted("test information", traceSummary)}
 
 Errors:
-${errorsSummary}
+${this.untrusted("errors", errorsSummary)}
+
+Page Events:
+${this.untrusted("page events", pageEventsSummary)}
       `;
     }
 
@@ -78,21 +91,30 @@ ${errorsSummary}
     if (context?.analysisResult) {
       additionalContext += `
 Analysis Results:
-${JSON.stringify(context.analysisResult, null, 2)}
+${this.untrusted(
+  "analysis results",
+  JSON.stringify(context.analysisResult, null, 2)
+)}
       `;
     }
 
     if (context?.diagnosisResult) {
       additionalContext += `
 Diagnosis Results:
-${JSON.stringify(context.diagnosisResult, null, 2)}
+${this.untrusted(
+  "diagnosis results",
+  JSON.stringify(context.diagnosisResult, null, 2)
+)}
       `;
     }
 
     if (context?.recommendationResult) {
       additionalContext += `
 Recommendation Results:
-${JSON.stringify(context.recommendationResult, null, 2)}
+${this.untrusted(
+  "recommendation results",
+  JSON.stringify(context.recommendationResult, null, 2)
+)}
       `;
     }
 
@@ -161,7 +183,7 @@ FOLLOW-UP QUESTIONS:
       };
     } catch (error) {
       if (this.verbose) {
-        console.error("Error parsing chat output:", error);
+        this.logger.error("Error parsing chat output:", error);
       }
 
       // Add generic response to conversation history
@@ -195,35 +217,4 @@ FOLLOW-UP QUESTIONS:
     );
     this.conversationHistory = systemMessage ? [systemMessage] : [];
   }
-
-  private formatTraceSummary(trace: ParsedTrace): string {
-    return `
-Title: ${trace.testTitle || "Unknown Test"}
-File: ${trace.testFile || "Unknown File"}
-Browser: ${trace.browser.name}${
-      trace.browser.version ? ` v${trace.browser.version}` : ""
-    }
-Duration: ${Math.round(trace.duration.total / 1000)}s
-Status: ${trace.testResult.status.toUpperCase()}
-${trace.testResult.error ? `Error: ${trace.testResult.error.message}` : ""}
-    `.trim();
-  }
-
-  private formatErrorsSummary(trace: ParsedTrace): string {
-    if (trace.errors.length === 0) {
-      return "No errors recorded.";
-    }
-
-    return trace.errors
-      .map((error) => {
-        const time = new Date(error.timestamp)
-          .toISOString()
-          .split("T")[1]
-          .split("Z")[0];
-        return `[${time}] ${error.message}${
-          error.stack ? `\nStack: ${error.stack}` : ""
-        }`;
-      })
-      .join("\n\n");
-  }
 }
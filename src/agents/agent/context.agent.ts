@@ -1,11 +1,18 @@
 import { BaseAgent } from "./base.agent";
 import { AgentInput, ContextOutput, ILanguageModelProvider } from "@/agents";
-import { ParsedTrace } from "@/trace";
+import { TracePromptBudget } from "@/trace";
+import { TracePromptRenderer } from "@/trace/classes/trace.prompt.renderer.class";
 import { z } from "zod";
 import { StructuredOutputParser } from "langchain/output_parsers";
 import { PlaywrightDocs } from "@/trace/classes/playwright.docs.class";
 import { DocumentationChunk } from "@/trace/interfaces";
 
+// Documentation is looked up for the errors, the rest of the trace is left out
+const PROMPT_BUDGET: TracePromptBudget = {
+  errors: 1000,
+  pageEvents: 300,
+};
+
 export class ContextAgent extends BaseAgent<ContextOutput> {
   private outputParser: StructuredOutputParser<any>;
   private verbose: boolean;
@@ -49,17 +56,17 @@ Your analysis should be helpful, concise, and directly relevant to the test fail
 
   async formatInput(input: AgentInput): Promise<string> {
     const { trace, context } = input;
+    const renderer = new TracePromptRenderer(trace, PROMPT_BUDGET);
 
     // Format trace data for agent input
-    const traceSummary = this.formatTraceSummary(trace);
-    const errorsSummary = this.formatErrorsSummary(trace);
+    const traceSummary = renderer.renderSummary();
+    const errorsSummary = renderer.renderErrors();
+    const pageEventsSummary = renderer.renderPageEvents();
 
     // Retrieve relevant documentation if provider exists
     let relevantDocumentation = "";
     if (this.docsProvider) {
-      console.log(
-        `[ContextAgent] RAG enabled, retrieving relevant documentation...`
-      );
+      this.logger.debug(`RAG enabled, retrieving relevant documentation...`);
       try {
         // Get analysis from context if available
         const analysis = context?.analysis?.result;
@@ -72,21 +79,19 @@ Your analysis should be helpful, concise, and directly relevant to the test fail
 
         if (docs.length > 0) {
           relevantDocumentation = this.formatDocumentationForPrompt(docs);
-          console.log(
-            `[ContextAgent] Retrieved ${docs.length} relevant documentation items via RAG`
+          this.logger.debug(
+            `Retrieved ${docs.length} relevant documentation items via RAG`
           );
         } else {
-          console.log(`[ContextAgent] No relevant documentation found`);
+          this.logger.debug(`No relevant documentation found`);
         }
       } catch (error) {
         if (this.verbose) {
-          console.error("Error retrieving documentation:", error);
+          this.logger.error("Error retrieving documentation:", error);
         }
       }
     } else {
-      console.log(
-        `[ContextAgent] RAG disabled, skipping documentation retrieval`
-      );
+      this.logger.debug(`RAG disabled, skipping documentation retrieval`);
     }
 
     const format_instructions = this.outputParser.getFormatInstructions();
@@ -95,10 +100,13 @@ Your analysis should be helpful, concise, and directly relevant to the test fail
 ${this.systemPrompt}
 
 Test Information:
-${traceSummary}
+${this.untrusted("test information", traceSummary)}
 
 Errors:
-${errorsSummary}
+${this.untrusted("errors", errorsSummary)}
+
+Page Events:
+${this.untrusted("page events", pageEventsSummary)}
 
 ${
   relevantDocumentation
@@ -108,7 +116,10 @@ ${
 
 ${
   context && Object.keys(context).length > 0
-    ? `Additional Context:\n${JSON.stringify(context, null, 2)}\n`
+    ? `Additional Context:\n${this.untrusted(
+        "additional context",
+        JSON.stringify(context, null, 2)
+      )}\n`
     : ""
 }
 
@@ -148,7 +159,7 @@ ${doc.content}
       };
     } catch (error) {
       if (this.verbose) {
-        console.error("Error parsing output:", error);
+        this.logger.error("Error parsing output:", error);
       }
 
       // Fallback: Try to extract JSON from markdown code blocks
@@ -170,7 +181,7 @@ ${doc.content}
         }
       } catch (jsonError) {
         if (this.verbose) {
-          console.error("Error extracting JSON from output:", jsonError);
+          this.logger.error("Error extracting JSON from output:", jsonError);
         }
       }
 
@@ -184,35 +195,4 @@ ${doc.content}
       };
     }
   }
-
-  private formatTraceSummary(trace: ParsedTrace): string {
-    return `
-Title: ${trace.testTitle || "Unknown Test"}
-File: ${trace.testFile || "Unknown File"}
-Browser: ${trace.browser.name}${
-      trace.browser.version ? ` v${trace.browser.version}` : ""
-    }
-Duration: ${Math.round(trace.duration.total / 1000)}s
-Status: ${trace.testResult.status.toUpperCase()}
-${trace.testResult.error ? `Error: ${trace.testResult.error.message}` : ""}
-    `.trim();
-  }
-
-  private formatErrorsSummary(trace: ParsedTrace): string {
-    if (trace.errors.length === 0) {
-      return "No errors recorded.";
-    }
-
-    return trace.errors
-      .map((error) => {
-        const time = new Date(error.timestamp)
-          .toISOString()
-          .split("T")[1]
-          .split("Z")[0];
-        return `[${time}] ${error.message}${
-          error.stack ? `\nStack: ${error.stack}` : ""
-        }`;
-      })
-      .join("\n\n");
-  }
 }
@@ -1,9 +1,27 @@
 import { BaseAgent } from "./base.agent";
 import { AgentInput, DiagnosisOutput, ILanguageModelProvider } from "@/agents";
-import { ParsedTrace } from "@/trace";
+import {
+  TracePromptBudget,
+  formatSourceExcerpt,
+  formatSourceLocation,
+} from "@/trace";
+import { TracePromptRenderer } from "@/trace/classes/trace.prompt.renderer.class";
 import { z } from "zod";
 import { StructuredOutputParser } from "langchain/output_parsers";
 
+// The root cause can be anywhere, every section gets a share
+const PROMPT_BUDGET: TracePromptBudget = {
+  actions: 2500,
+  errors: 1500,
+  pageEvents: 500,
+  testOutput: 600,
+  attachments: 600,
+  network: 1500,
+  console: 1000,
+  failureDom: 1500,
+  locatorEvidence: 300,
+};
+
 export class DiagnosisAgent extends BaseAgent<DiagnosisOutput> {
   private outputParser: StructuredOutputParser<any>;
 
@@ -38,20 +56,46 @@ exactly what went wrong and why.
 
   async formatInput(input: AgentInput): Promise<string> {
     const { trace, context } = input;
+    const renderer = new TracePromptRenderer(trace, PROMPT_BUDGET);
 
     // Format trace data for agent input
-    const traceSummary = this.formatTraceSummary(trace);
-    const actionsSummary = this.formatActionsSummary(trace);
-    const errorsSummary = this.formatErrorsSummary(trace);
-    const networkSummary = this.formatNetworkSummary(trace);
-    const consoleSummary = this.formatConsoleSummary(trace);
+    const traceSummary = renderer.renderSummary();
+    const actionsSummary = renderer.renderActions();
+    const errorsSummary = renderer.renderErrors();
+    const pageEventsSummary = renderer.renderPageEvents();
+    const testOutputSummary = renderer.renderTestOutput();
+    const attachmentsSummary = renderer.renderAttachments();
+    const failingSource = trace.failingSource
+      ? `Failing Test Code:\n${formatSourceExcerpt(trace.failingSource)}`
+      : trace.failingLine
+      ? `Failing Test Code: ${formatSourceLocation(
+          trace.failingLine
+        )} (source not available)`
+      : "";
+    const failureDom = trace.failureDom
+      ? `Page DOM at Failure (trimmed):\n${this.untrusted(
+          "page DOM",
+          renderer.renderFailureDom()
+        )}`
+      : "";
+    const locatorEvidence = trace.locatorEvidence
+      ? `Locator Check (selector re-run against the recorded DOM snapshots):\n${this.untrusted(
+          "locator check",
+          renderer.renderLocatorEvidence()
+        )}`
+      : "";
+    const networkSummary = renderer.renderNetwork();
+    const consoleSummary = renderer.renderConsole();
 
     // Include any previous analysis from other agents if available
     let previousAnalysis = "";
     if (context?.analysisResult) {
       previousAnalysis = `
 Previous Analysis:
-${JSON.stringify(context.analysisResult, null, 2)}
+${this.untrusted(
+  "previous analysis",
+  JSON.stringify(context.analysisResult, null, 2)
+)}
       `;
     }
 
@@ -75,19 +119,34 @@ ${context.context.result.relevantDocumentation
 ${this.systemPrompt}
 
 Test Information:
-${traceSummary}
+${this.untrusted("test information", traceSummary)}
 
 Actions Timeline:
-${actionsSummary}
+${this.untrusted("actions", actionsSummary)}
 
 Errors:
-${errorsSummary}
+${this.untrusted("errors", errorsSummary)}
+
+Page Events:
+${this.untrusted("page events", pageEventsSummary)}
+
+${failingSource}
+
+${locatorEvidence}
+
+${failureDom}
 
 Network Requests:
-${networkSummary}
+${this.untrusted("network requests", networkSummary)}
 
 Console Messages:
-${consoleSummary}
+${this.untrusted("console messages", consoleSummary)}
+
+Test Output (stdout/stderr):
+${this.untrusted("test output", testOutputSummary)}
+
+Attachments:
+${this.untrusted("attachments", attachmentsSummary)}
 
 ${previousAnalysis}
 
@@ -114,7 +173,7 @@ Based on the provided trace information and any relevant documentation, provide
         reasoning: parsedOutput.reasoning || "",
       };
     } catch (error) {
-      console.error("Error parsing output:", error);
+      this.logger.error("Error parsing output:", error);
 
       // Fallback: Try to extract JSON from markdown code blocks
       try {
@@ -134,7 +193,7 @@ Based on the provided trace information and any relevant documentation, provide
           };
         }
       } catch (jsonError) {
-        console.error("Error extracting JSON from output:", jsonError);
+        this.logger.error("Error extracting JSON from output:", jsonError);
       }
 
       // Return basic object if all parsing attempts fail
@@ -149,99 +208,4 @@ Based on the provided trace information and any relevant documentation, provide
       };
     }
   }
-
-  private formatTraceSummary(trace: ParsedTrace): string {
-    return `
-Title: ${trace.testTitle || "Unknown Test"}
-File: ${trace.testFile || "Unknown File"}
-Browser: ${trace.browser.name}${
-      trace.browser.version ? ` v${trace.browser.version}` : ""
-    }
-Duration: ${Math.round(trace.duration.total / 1000)}s
-Status: ${trace.testResult.status.toUpperCase()}
-${trace.testResult.error ? `Error: ${trace.testResult.error.message}` : ""}
-    `.trim();
-  }
-
-  private formatActionsSummary(trace: ParsedTrace): string {
-    if (trace.actions.length === 0) {
-      return "No actions recorded.";
-    }
-
-    return trace.actions
-      .map((action) => {
-        const time = new Date(action.timestamp)
-          .toISOString()
-          .split("T")[1]
-          .split("Z")[0];
-        const status = action.error ? "FAILED" : "PASSED";
-        return `[${time}] ${status} - ${action.type}${
-          action.selector ? ` "${action.selector}"` : ""
-        }${action.value ? ` with value "${action.value}"` : ""}${
-          action.error ? ` - Error: ${action.error}` : ""
-        }`;
-      })
-      .join("\n");
-  }
-
-  private formatErrorsSummary(trace: ParsedTrace): string {
-    if (trace.errors.length === 0) {
-      return "No errors recorded.";
-    }
-
-    return trace.errors
-      .map((error) => {
-        const time = new Date(error.timestamp)
-          .toISOString()
-          .split("T")[1]
-          .split("Z")[0];
-        return `[${time}] ${error.message}${
-          error.stack ? `\nStack: ${error.stack}` : ""
-        }`;
-      })
-      .join("\n\n");
-  }
-
-  private formatNetworkSummary(trace: ParsedTrace): string {
-    if (trace.networkRequests.length === 0) {
-      return "No network requests recorded.";
-    }
-
-    return trace.networkRequests
-      .map((req) => {
-        const time = req.timing
-          ? new Date(req.timing.startTime)
-              .toISOString()
-              .split("T")[1]
-              .split("Z")[0]
-          : "N/A";
-        const status = req.status
-          ? `${req.status} ${req.statusText || ""}`
-          : "No response";
-        const duration =
-          req.timing && req.timing.duration
-            ? `${Math.round(req.timing.duration)}ms`
-            : "N/A";
-        return `[${time}] ${req.method} ${req.url} - ${status} (${duration})${
-          req.error ? ` - Error: ${req.error}` : ""
-        }`;
-      })
-      .join("\n");
-  }
-
-  private formatConsoleSummary(trace: ParsedTrace): string {
-    if (trace.consoleMessages.length === 0) {
-      return "No console messages recorded.";
-    }
-
-    return trace.consoleMessages
-      .map((msg) => {
-        const time = new Date(msg.timestamp)
-          .toISOString()
-          .split("T")[1]
-          .split("Z")[0];
-        return `[${time}] ${msg.type.toUpperCase()}: ${msg.text}`;
-      })
-      .join("\n");
-  }
 }
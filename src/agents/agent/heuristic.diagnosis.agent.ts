@@ -0,0 +1,357 @@
+import {
+  Agent,
+  AgentInput,
+  DiagnosisOutput,
+  DiagnosisRule,
+  DiagnosisRuleMatch,
+} from "@/agents";
+import {
+  ActionEvent,
+  FailureCategory,
+  NetworkRequest,
+  ParsedTrace,
+  findAssertionFailure,
+  findFailingAction,
+  isApiRequest,
+} from "@/trace";
+import { Logger, logger } from "@/ui/classes/logger.class";
+
+// Requests issued this long before the failing action started count as its
+// lead-up
+const LEAD_UP_WINDOW_MS = 10000;
+
+// Pages showing less text than this are considered blank
+const BLANK_PAGE_TEXT_LENGTH = 20;
+
+/**
+ * Rules evaluated by the heuristic diagnosis, from the most to the least
+ * specific. Each looks for one known failure pattern in the parsed trace.
+ */
+export const DIAGNOSIS_RULES: DiagnosisRule[] = [
+  {
+    name: "unauthorized-api-call",
+    evaluate(trace) {
+      const failingAction = findFailingAction(
+        trace.actions,
+        trace.failureLocation
+      );
+      if (!failingAction) return undefined;
+
+      const request = findLeadUpRequests(trace, failingAction).find(
+        (r) => isApiRequest(r) && (r.status === 401 || r.status === 403)
+      );
+      if (!request) return undefined;
+
+      return {
+        rootCause: `The API call ${request.method} ${request.url} was rejected with ${request.status}, so the data the test checks never loaded`,
+        explanation: `The request was made shortly before "${describeAction(
+          failingAction
+        )}" failed. A ${
+          request.status
+        } response usually means the session or token the test uses is missing, expired or lacks permissions.`,
+        confidence: 0.8,
+        evidence: [
+          describeRequest(request),
+          `Failing action: ${describeAction(failingAction)}`,
+        ],
+      };
+    },
+  },
+  {
+    name: "locator-never-attached",
+    evaluate(trace) {
+      const evidence = trace.locatorEvidence;
+      if (!evidence || evidence.unsupported) return undefined;
+
+      const snapshots = [evidence.before, evidence.after].filter(
+        (match) => match !== undefined
+      );
+      if (
+        snapshots.length === 0 ||
+        snapshots.some((match) => match!.count > 0)
+      ) {
+        return undefined;
+      }
+
+      return {
+        rootCause: `The locator ${evidence.selector} never matched an element on the page`,
+        explanation:
+          "Re-running the selector against the DOM snapshots recorded around the failing action found no element, so the element was never attached or the selector no longer describes it.",
+        confidence: 0.85,
+        evidence: snapshots.map(
+          (match) => `${match!.snapshotName}: ${match!.count} matches`
+        ),
+      };
+    },
+  },
+  {
+    name: "console-error-then-blank-page",
+    evaluate(trace) {
+      if (trace.failureDom === undefined) return undefined;
+
+      const text = trace.failureDom
+        .replace(/<[^>]*>/g, " ")
+        .replace(/\s+/g, " ")
+        .trim();
+      if (text.length >= BLANK_PAGE_TEXT_LENGTH) return undefined;
+
+      const consoleError = trace.consoleMessages.find(
+        (message) => message.type === "error"
+      );
+      if (!consoleError) return undefined;
+
+      return {
+        rootCause: "The page rendered blank after a console error",
+        explanation:
+          "The browser logged an error and the page showed almost no content when the test failed, which points to the application crashing while rendering.",
+        confidence: 0.7,
+        evidence: [
+          `Console error: ${consoleError.text.split("\n")[0]}`,
+          `Page text at failure: "${text}"`,
+        ],
+      };
+    },
+  },
+  {
+    name: "failed-request-before-failure",
+    evaluate(trace) {
+      const failingAction = findFailingAction(
+        trace.actions,
+        trace.failureLocation
+      );
+      if (!failingAction) return undefined;
+
+      const requests = findLeadUpRequests(trace, failingAction).filter(
+        (r) =>
+          // Aborted requests are mostly beacons cancelled by navigation
+          (r.status !== undefined && r.status >= 400 && !r.error) ||
+          (r.error !== undefined && !r.error.includes("ERR_ABORTED"))
+      );
+      if (requests.length === 0) return undefined;
+
+      const apiRequests = requests.filter(isApiRequest);
+      const request = apiRequests[0] || requests[0];
+
+      return {
+        rootCause: `The request ${request.method} ${request.url} failed with ${
+          request.error || request.status
+        } just before the test failed`,
+        explanation: `"${describeAction(
+          failingAction
+        )}" failed after the page couldn't load a resource it likely depends on.`,
+        confidence: apiRequests.length > 0 ? 0.7 : 0.5,
+        evidence: [
+          ...requests.slice(0, 5).map(describeRequest),
+          `Failing action: ${describeAction(failingAction)}`,
+        ],
+      };
+    },
+  },
+  {
+    name: "classified-failure",
+    evaluate(trace) {
+      const classification = trace.failureCategory;
+      if (!classification) return undefined;
+
+      const diagnosis = CATEGORY_DIAGNOSES[classification.category];
+      if (!diagnosis) return undefined;
+
+      return {
+        ...diagnosis,
+        evidence: classification.evidence ? [classification.evidence] : [],
+      };
+    },
+  },
+  {
+    name: "assertion-value-mismatch",
+    evaluate(trace) {
+      const assertion = findAssertionFailure(trace);
+      if (!assertion || assertion.received === undefined) return undefined;
+      // Missing elements are the locator rule's business
+      if (/not found/i.test(assertion.received)) return undefined;
+
+      return {
+        rootCause: `${
+          assertion.locator ? "The element" : "The value"
+        } checked by ${assertion.matcher} was ${
+          assertion.received
+        } instead of ${assertion.negated ? "not " : ""}${assertion.expected}`,
+        explanation: assertion.locator
+          ? `The element ${
+              assertion.locator
+            } was found but never showed the expected value${
+              assertion.timeout ? ` within ${assertion.timeout}ms` : ""
+            }. Either the application shows different data or it hadn't finished loading it.`
+          : "The asserted value differed from what the test expects.",
+        confidence: 0.6,
+        evidence: [
+          `Expected: ${assertion.expected}`,
+          `Received: ${assertion.received}`,
+        ],
+      };
+    },
+  },
+];
+
+// Root causes of failure kinds the classifier recognizes on its own
+const CATEGORY_DIAGNOSES: Partial<
+  Record<FailureCategory, Omit<DiagnosisRuleMatch, "evidence">>
+> = {
+  strictModeViolation: {
+    rootCause: "The locator matched more than one element",
+    explanation:
+      "Playwright refuses to act on ambiguous locators. The selector needs to be narrowed down to a single element.",
+    confidence: 0.9,
+  },
+  pointerIntercepted: {
+    rootCause: "Another element covered the target and intercepted the click",
+    explanation:
+      "The element was found and visible, but an overlay, dialog or sticky element received the pointer events instead.",
+    confidence: 0.85,
+  },
+  elementDetached: {
+    rootCause: "The element was detached from the DOM while the test used it",
+    explanation:
+      "The page re-rendered the element between locating it and acting on it.",
+    confidence: 0.8,
+  },
+  elementNotVisible: {
+    rootCause: "The target element never became visible",
+    explanation:
+      "The element exists in the DOM but stayed hidden, so Playwright waited for it until the timeout.",
+    confidence: 0.75,
+  },
+  navigationError: {
+    rootCause: "A navigation failed with a network error",
+    explanation:
+      "The browser could not load the page, for example because the host was unreachable or the connection was refused.",
+    confidence: 0.8,
+  },
+  navigationInterrupted: {
+    rootCause: "The navigation was interrupted by another navigation",
+    explanation:
+      "The page redirected or navigated again before the awaited navigation finished.",
+    confidence: 0.75,
+  },
+  targetClosed: {
+    rootCause: "The page, context or browser was closed while the test used it",
+    explanation:
+      "Something closed the target early, such as a crash, a missing await or the test ending.",
+    confidence: 0.7,
+  },
+  testTimeout: {
+    rootCause: "The test ran longer than its timeout",
+    explanation:
+      "No single step failed on its own, the test as a whole exceeded the time it was given.",
+    confidence: 0.5,
+  },
+  actionTimeout: {
+    rootCause: "An action timed out waiting for its element",
+    explanation:
+      "The element the action targets never became actionable within the action timeout.",
+    confidence: 0.5,
+  },
+};
+
+/**
+ * Diagnoses failures offline by evaluating a library of rules over the parsed
+ * trace. The most confident match becomes the root cause, the other matches
+ * are reported as related issues. The rules run locally, so unlike the model
+ * agents this one has no prompt and sends nothing anywhere.
+ */
+export class HeuristicDiagnosisAgent implements Agent {
+  readonly name = "Rule-based diagnosis of Playwright test failures";
+  private logger: Logger = logger.child("agent");
+
+  constructor(private readonly rules: DiagnosisRule[] = DIAGNOSIS_RULES) {}
+
+  /**
+   * Sets the logger the agent reports rules that failed to evaluate to
+   */
+  setLogger(logger: Logger): this {
+    this.logger = logger;
+    return this;
+  }
+
+  async process(input: AgentInput): Promise<DiagnosisOutput> {
+    const matches = this.evaluateRules(input.trace);
+
+    if (matches.length === 0) {
+      return {
+        result: {
+          rootCause: "No known failure pattern matched this trace",
+          explanation:
+            "None of the diagnosis rules recognized the failure. Run the analysis with a model for a deeper look.",
+          confidence: 0.1,
+          relatedIssues: [],
+          evidence: [],
+        },
+        reasoning: "No rule matched.",
+      };
+    }
+
+    const [best, ...others] = matches;
+    return {
+      result: {
+        rootCause: best.rootCause,
+        explanation: best.explanation,
+        confidence: best.confidence,
+        relatedIssues: others.map((match) => match.rootCause),
+        evidence: best.evidence,
+      },
+      reasoning: `Matched rules: ${matches
+        .map((match) => `${match.rule} (${match.confidence})`)
+        .join(", ")}`,
+    };
+  }
+
+  /**
+   * Evaluates the rules, ordered by the confidence of their matches
+   */
+  private evaluateRules(
+    trace: ParsedTrace
+  ): (DiagnosisRuleMatch & { rule: string })[] {
+    const matches: (DiagnosisRuleMatch & { rule: string })[] = [];
+
+    for (const rule of this.rules) {
+      try {
+        const match = rule.evaluate(trace);
+        if (match) matches.push({ ...match, rule: rule.name });
+      } catch (error) {
+        this.logger.error(
+          `Error evaluating diagnosis rule ${rule.name}:`,
+          error
+        );
+      }
+    }
+
+    // Stable sort keeps the rule order among equally confident matches
+    return matches.sort((a, b) => b.confidence - a.confidence);
+  }
+}
+
+// Helper function to list the requests issued in the lead-up to an action
+function findLeadUpRequests(
+  trace: ParsedTrace,
+  action: ActionEvent
+): NetworkRequest[] {
+  const start = action.startTime ?? action.timestamp;
+  const end = action.endTime ?? start;
+
+  return trace.networkRequests.filter(
+    (request) =>
+      request.timestamp !== undefined &&
+      request.timestamp >= start - LEAD_UP_WINDOW_MS &&
+      request.timestamp <= end
+  );
+}
+
+function describeRequest(request: NetworkRequest): string {
+  return `${request.method} ${request.url} -> ${
+    request.error || request.status || "no response"
+  }`;
+}
+
+function describeAction(action: ActionEvent): string {
+  return `${action.type}${action.selector ? ` "${action.selector}"` : ""}`;
+}
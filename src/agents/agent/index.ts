@@ -2,6 +2,7 @@ export * from "./base.agent";
 export * from "./chat.agent";
 export * from "./context.agent";
 export * from "./diagnosis.agent";
+export * from "./heuristic.diagnosis.agent";
 export * from "./recommendation.agent";
 export * from "./trace.analysis.agent";
 export * from "./orchestrator.agent";
@@ -2,10 +2,18 @@ import { BaseAgent } from "./base.agent";
 import { AgentInput, OrchestratorAgentInterface } from "@/agents";
 import { z } from "zod";
 import { StructuredOutputParser } from "langchain/output_parsers";
-import { ParsedTrace } from "@/trace";
+import { ParsedTrace, TracePromptBudget, describeEnvironment } from "@/trace";
+import { TracePromptRenderer } from "@/trace/classes/trace.prompt.renderer.class";
 import { ILanguageModelProvider } from "@/agents";
 import { OrchestratorOutput } from "../interfaces";
 
+// Planning needs an overview, the workers get the details
+const PROMPT_BUDGET: TracePromptBudget = {
+  errors: 1000,
+  pageEvents: 300,
+  network: 600,
+};
+
 /**
  * The OrchestratorAgent is responsible for planning and coordinating the execution of tasks
  * by multiple specialized agents. It acts as the "brain" of the system.
@@ -50,11 +58,14 @@ export class OrchestratorAgent
 
   async formatInput(input: AgentInput): Promise<string> {
     const { trace } = input;
+    const renderer = new TracePromptRenderer(trace, PROMPT_BUDGET);
 
     // Format trace data for orchestrator input
-    const traceSummary = this.formatTraceSummary(trace);
-    const errorsSummary = this.formatErrorsSummary(trace);
-    const networkSummary = this.formatNetworkSummary(trace);
+    const traceSummary = renderer.renderSummary();
+    const environmentSummary = this.formatEnvironmentSummary(trace);
+    const errorsSummary = renderer.renderErrors();
+    const pageEventsSummary = renderer.renderPageEvents();
+    const networkSummary = renderer.renderNetwork();
 
     const format_instructions = this.outputParser.getFormatInstructions();
 
@@ -62,13 +73,19 @@ export class OrchestratorAgent
 ${this.systemPrompt}
 
 Test Information:
-${traceSummary}
+${this.untrusted("test information", traceSummary)}
+
+Environment:
+${this.untrusted("environment", environmentSummary)}
 
 Errors:
-${errorsSummary}
+${this.untrusted("errors", errorsSummary)}
+
+Page Events:
+${this.untrusted("page events", pageEventsSummary)}
 
 Network Requests:
-${networkSummary}
+${this.untrusted("network requests", networkSummary)}
 
 Available Agent Types:
 1. "analysis" - Identifies failure points, error patterns, and severity
@@ -97,7 +114,7 @@ Explain your approach and reasoning, then provide a structured plan for analyzin
         },
       };
     } catch (error) {
-      console.error("Error parsing orchestrator output:", error);
+      this.logger.error("Error parsing orchestrator output:", error);
 
       // Fallback: Try to extract JSON from markdown code blocks
       try {
@@ -114,7 +131,7 @@ Explain your approach and reasoning, then provide a structured plan for analyzin
           };
         }
       } catch (jsonError) {
-        console.error("Error extracting JSON from output:", jsonError);
+        this.logger.error("Error extracting JSON from output:", jsonError);
       }
 
       // Return basic object if all parsing attempts fail
@@ -153,65 +170,32 @@ Explain your approach and reasoning, then provide a structured plan for analyzin
     }
   }
 
-  private formatTraceSummary(trace: ParsedTrace): string {
-    return `
-Title: ${trace.testTitle || "Unknown Test"}
-File: ${trace.testFile || "Unknown File"}
-Browser: ${trace.browser.name}${
-      trace.browser.version ? ` v${trace.browser.version}` : ""
+  private formatEnvironmentSummary(trace: ParsedTrace): string {
+    const { environment } = trace;
+    const setup = describeEnvironment(environment);
+    const lines = [
+      `Browser: ${environment.browserName || trace.browser.name}${
+        environment.browserVersion ? ` v${environment.browserVersion}` : ""
+      }${environment.channel ? ` (${environment.channel})` : ""}`,
+      setup ? `Setup: ${setup}` : "",
+    ];
+
+    // Engine specific failures need a different investigation than app bugs
+    if (environment.browserName === "webkit") {
+      lines.push(
+        "Note: the test ran on WebKit. Consider whether the failure is WebKit-only (Safari rendering, date inputs, cookies, timing) and plan a custom agent to check engine-specific behavior if so."
+      );
+    } else if (environment.browserName === "firefox") {
+      lines.push(
+        "Note: the test ran on Firefox. Consider whether the failure is Firefox-only and plan a custom agent to check engine-specific behavior if so."
+      );
     }
-Duration: ${Math.round(trace.duration.total / 1000)}s
-Status: ${trace.testResult.status.toUpperCase()}
-${trace.testResult.error ? `Error: ${trace.testResult.error.message}` : ""}
-Actions Count: ${trace.actions.length}
-Network Requests Count: ${trace.networkRequests.length}
-Console Messages Count: ${trace.consoleMessages.length}
-    `.trim();
-  }
-
-  private formatErrorsSummary(trace: ParsedTrace): string {
-    if (trace.errors.length === 0) {
-      return "No errors recorded.";
+    if (environment.isMobile || environment.hasTouch) {
+      lines.push(
+        "Note: the context emulates a mobile device, layout and touch handling differ from desktop runs."
+      );
     }
 
-    return trace.errors
-      .map((error) => {
-        const time = new Date(error.timestamp)
-          .toISOString()
-          .split("T")[1]
-          .split("Z")[0];
-        return `[${time}] ${error.message}${
-          error.stack ? `\nStack: ${error.stack}` : ""
-        }`;
-      })
-      .join("\n\n");
-  }
-
-  private formatNetworkSummary(trace: ParsedTrace): string {
-    if (trace.networkRequests.length === 0) {
-      return "No network requests recorded.";
-    }
-
-    // Get statistics rather than listing all requests
-    let failedRequests = 0;
-    const statusCodes: Record<number, number> = {};
-
-    trace.networkRequests.forEach((req) => {
-      if (req.status) {
-        statusCodes[req.status] = (statusCodes[req.status] || 0) + 1;
-        if (req.status >= 400) {
-          failedRequests++;
-        }
-      }
-    });
-
-    return `
-Total Requests: ${trace.networkRequests.length}
-Failed Requests: ${failedRequests}
-Status Code Distribution: ${Object.entries(statusCodes)
-      .map(([code, count]) => `${code}: ${count}`)
-      .join(", ")}
-
-`;
+    return lines.filter(Boolean).join("\n");
   }
 }
@@ -1,10 +1,25 @@
 import { BaseAgent } from "./base.agent";
 import { AgentInput, RecommendationOutput } from "@/agents";
-import { ParsedTrace } from "@/trace";
+import {
+  TracePromptBudget,
+  formatSourceExcerpt,
+  formatSourceLocation,
+} from "@/trace";
+import { TracePromptRenderer } from "@/trace/classes/trace.prompt.renderer.class";
 import { z } from "zod";
 import { StructuredOutputParser } from "langchain/output_parsers";
 import { ILanguageModelProvider } from "@/agents";
 
+// Fixes build on the diagnosis, so the trace itself matters less
+const PROMPT_BUDGET: TracePromptBudget = {
+  actions: 1500,
+  errors: 1000,
+  pageEvents: 300,
+  testOutput: 500,
+  attachments: 500,
+  failureDom: 1000,
+};
+
 export class RecommendationAgent extends BaseAgent<RecommendationOutput> {
   private outputParser: StructuredOutputParser<any>;
 
@@ -48,11 +63,28 @@ Your recommendations should be practical, technically sound, and easy to impleme
 
   async formatInput(input: AgentInput): Promise<string> {
     const { trace, context } = input;
+    const renderer = new TracePromptRenderer(trace, PROMPT_BUDGET);
 
     // Format trace data for agent input
-    const traceSummary = this.formatTraceSummary(trace);
-    const actionsSummary = this.formatActionsSummary(trace);
-    const errorsSummary = this.formatErrorsSummary(trace);
+    const traceSummary = renderer.renderSummary();
+    const actionsSummary = renderer.renderActions();
+    const errorsSummary = renderer.renderErrors();
+    const pageEventsSummary = renderer.renderPageEvents();
+    const testOutputSummary = renderer.renderTestOutput();
+    const attachmentsSummary = renderer.renderAttachments();
+    const failingSource = trace.failingSource
+      ? `Failing Test Code:\n${formatSourceExcerpt(trace.failingSource)}`
+      : trace.failingLine
+      ? `Failing Test Code: ${formatSourceLocation(
+          trace.failingLine
+        )} (source not available)`
+      : "";
+    const failureDom = trace.failureDom
+      ? `Page DOM at Failure (trimmed):\n${this.untrusted(
+          "page DOM",
+          renderer.renderFailureDom()
+        )}`
+      : "";
 
     // Include context data if available
     let previousAnalysis = "";
@@ -63,14 +95,20 @@ Your recommendations should be practical, technically sound, and easy to impleme
     if (context?.analysisResult) {
       previousAnalysis = `
 Analysis Results:
-${JSON.stringify(context.analysisResult, null, 2)}
+${this.untrusted(
+  "analysis results",
+  JSON.stringify(context.analysisResult, null, 2)
+)}
       `;
     }
 
     if (context?.diagnosisResult) {
       diagnosisData = `
 Diagnosis Results:
-${JSON.stringify(context.diagnosisResult, null, 2)}
+${this.untrusted(
+  "diagnosis results",
+  JSON.stringify(context.diagnosisResult, null, 2)
+)}
       `;
     }
 
@@ -118,13 +156,27 @@ ${contextResult.suggestions
 ${this.systemPrompt}
 
 Test Information:
-${traceSummary}
+${this.untrusted("test information", traceSummary)}
 
 Actions Timeline:
-${actionsSummary}
+${this.untrusted("actions", actionsSummary)}
 
 Errors:
-${errorsSummary}
+${this.untrusted("errors", errorsSummary)}
+
+Page Events:
+${this.untrusted("page events", pageEventsSummary)}
+
+Test Output (stdout/stderr):
+${this.untrusted("test output", testOutputSummary)}
+
+Attachments:
+${this.untrusted("attachments", attachmentsSummary)}
+
+${failingSource}
+
+
+${failureDom}
 
 ${previousAnalysis}
 ${diagnosisData}
@@ -159,7 +211,7 @@ Based on the provided trace information, previous analysis, and documentation, p
         reasoning: parsedOutput.reasoning || "",
       };
     } catch (error) {
-      console.error("Error parsing output:", error);
+      this.logger.error("Error parsing output:", error);
 
       // Fallback: Try to extract JSON from markdown code blocks
       try {
@@ -186,7 +238,7 @@ Based on the provided trace information, previous analysis, and documentation, p
           };
         }
       } catch (jsonError) {
-        console.error("Error extracting JSON from output:", jsonError);
+        this.logger.error("Error extracting JSON from output:", jsonError);
       }
 
       // Return basic object if all parsing attempts fail
@@ -207,56 +259,4 @@ Based on the provided trace information, previous analysis, and documentation, p
       };
     }
   }
-
-  private formatTraceSummary(trace: ParsedTrace): string {
-    return `
-Title: ${trace.testTitle || "Unknown Test"}
-File: ${trace.testFile || "Unknown File"}
-Browser: ${trace.browser.name}${
-      trace.browser.version ? ` v${trace.browser.version}` : ""
-    }
-Duration: ${Math.round(trace.duration.total / 1000)}s
-Status: ${trace.testResult.status.toUpperCase()}
-${trace.testResult.error ? `Error: ${trace.testResult.error.message}` : ""}
-    `.trim();
-  }
-
-  private formatActionsSummary(trace: ParsedTrace): string {
-    if (trace.actions.length === 0) {
-      return "No actions recorded.";
-    }
-
-    return trace.actions
-      .map((action) => {
-        const time = new Date(action.timestamp)
-          .toISOString()
-          .split("T")[1]
-          .split("Z")[0];
-        const status = action.error ? "FAILED" : "PASSED";
-        return `[${time}] ${status} - ${action.type}${
-          action.selector ? ` "${action.selector}"` : ""
-        }${action.value ? ` with value "${action.value}"` : ""}${
-          action.error ? ` - Error: ${action.error}` : ""
-        }`;
-      })
-      .join("\n");
-  }
-
-  private formatErrorsSummary(trace: ParsedTrace): string {
-    if (trace.errors.length === 0) {
-      return "No errors recorded.";
-    }
-
-    return trace.errors
-      .map((error) => {
-        const time = new Date(error.timestamp)
-          .toISOString()
-          .split("T")[1]
-          .split("Z")[0];
-        return `[${time}] ${error.message}${
-          error.stack ? `\nStack: ${error.stack}` : ""
-        }`;
-      })
-      .join("\n\n");
-  }
 }
@@ -1,10 +1,28 @@
 import { BaseAgent } from "./base.agent";
 import { AgentInput, TraceAnalysisOutput } from "@/agents";
-import { ParsedTrace } from "@/trace";
+import {
+  TracePromptBudget,
+  describeAssertionFailure,
+  findAssertionFailure,
+  formatSourceExcerpt,
+  formatSourceLocation,
+} from "@/trace";
+import { TracePromptRenderer } from "@/trace/classes/trace.prompt.renderer.class";
 import { z } from "zod";
 import { StructuredOutputParser } from "langchain/output_parsers";
 import { ILanguageModelProvider } from "@/agents";
 
+// Finding the failure point needs the timeline, requests and console
+const PROMPT_BUDGET: TracePromptBudget = {
+  actions: 3000,
+  errors: 1500,
+  pageEvents: 500,
+  testOutput: 800,
+  attachments: 800,
+  network: 2000,
+  console: 1500,
+};
+
 export class TraceAnalysisAgent extends BaseAgent<TraceAnalysisOutput> {
   private outputParser: StructuredOutputParser<any>;
 
@@ -40,13 +58,31 @@ You will receive parsed trace information, including actions, network requests,
 
   async formatInput(input: AgentInput): Promise<string> {
     const { trace } = input;
+    const renderer = new TracePromptRenderer(trace, PROMPT_BUDGET);
 
     // Format trace data for agent input
-    const traceSummary = this.formatTraceSummary(trace);
-    const actionsSummary = this.formatActionsSummary(trace);
-    const errorsSummary = this.formatErrorsSummary(trace);
-    const networkSummary = this.formatNetworkSummary(trace);
-    const consoleSummary = this.formatConsoleSummary(trace);
+    const traceSummary = renderer.renderSummary();
+    const actionsSummary = renderer.renderActions();
+    const errorsSummary = renderer.renderErrors();
+    const pageEventsSummary = renderer.renderPageEvents();
+    const testOutputSummary = renderer.renderTestOutput();
+    const attachmentsSummary = renderer.renderAttachments();
+    const assertionFailure = findAssertionFailure(trace);
+    const assertionSummary = assertionFailure
+      ? `Failed Assertion:\n${this.untrusted(
+          "failed assertion",
+          describeAssertionFailure(assertionFailure)
+        )}`
+      : "";
+    const failingSource = trace.failingSource
+      ? `Failing Test Code:\n${formatSourceExcerpt(trace.failingSource)}`
+      : trace.failingLine
+      ? `Failing Test Code: ${formatSourceLocation(
+          trace.failingLine
+        )} (source not available)`
+      : "";
+    const networkSummary = renderer.renderNetwork();
+    const consoleSummary = renderer.renderConsole();
 
     const format_instructions = this.outputParser.getFormatInstructions();
 
@@ -54,19 +90,32 @@ You will receive parsed trace information, including actions, network requests,
 ${this.systemPrompt}
 
 Test Information:
-${traceSummary}
+${this.untrusted("test information", traceSummary)}
 
 Actions Timeline:
-${actionsSummary}
+${this.untrusted("actions", actionsSummary)}
 
 Errors:
-${errorsSummary}
+${this.untrusted("errors", errorsSummary)}
+
+Page Events:
+${this.untrusted("page events", pageEventsSummary)}
+
+${assertionSummary}
+
+${failingSource}
 
 Network Requests:
-${networkSummary}
+${this.untrusted("network requests", networkSummary)}
 
 Console Messages:
-${consoleSummary}
+${this.untrusted("console messages", consoleSummary)}
+
+Test Output (stdout/stderr):
+${this.untrusted("test output", testOutputSummary)}
+
+Attachments:
+${this.untrusted("attachments", attachmentsSummary)}
 
 ${format_instructions}
 
@@ -74,6 +123,15 @@ Based on the provided trace information, identify what failed in this test.
     `;
   }
 
+  async process(input: AgentInput): Promise<TraceAnalysisOutput> {
+    const output = await super.process(input);
+    // From the redacted trace, the assertion can show a typed password
+    output.result.assertionFailure = findAssertionFailure(
+      this.redactor.redactTrace(input.trace)
+    );
+    return output;
+  }
+
   async parseOutput(output: string): Promise<TraceAnalysisOutput> {
     try {
       // First try direct parsing with the StructuredOutputParser
@@ -90,7 +148,7 @@ Based on the provided trace information, identify what failed in this test.
         reasoning: parsedOutput.reasoning || "",
       };
     } catch (error) {
-      console.error("Error parsing output:", error);
+      this.logger.error("Error parsing output:", error);
 
       // Fallback: Try to extract JSON from markdown code blocks
       try {
@@ -110,7 +168,7 @@ Based on the provided trace information, identify what failed in this test.
           };
         }
       } catch (jsonError) {
-        console.error("Error extracting JSON from output:", jsonError);
+        this.logger.error("Error extracting JSON from output:", jsonError);
       }
 
       // Return basic object if all parsing attempts fail
@@ -125,99 +183,4 @@ Based on the provided trace information, identify what failed in this test.
       };
     }
   }
-
-  private formatTraceSummary(trace: ParsedTrace): string {
-    return `
-Title: ${trace.testTitle || "Unknown Test"}
-File: ${trace.testFile || "Unknown File"}
-Browser: ${trace.browser.name}${
-      trace.browser.version ? ` v${trace.browser.version}` : ""
-    }
-Duration: ${Math.round(trace.duration.total / 1000)}s
-Status: ${trace.testResult.status.toUpperCase()}
-${trace.testResult.error ? `Error: ${trace.testResult.error.message}` : ""}
-    `.trim();
-  }
-
-  private formatActionsSummary(trace: ParsedTrace): string {
-    if (trace.actions.length === 0) {
-      return "No actions recorded.";
-    }
-
-    return trace.actions
-      .map((action) => {
-        const time = new Date(action.timestamp)
-          .toISOString()
-          .split("T")[1]
-          .split("Z")[0];
-        const status = action.error ? "FAILED" : "PASSED";
-        return `[${time}] ${status} - ${action.type}${
-          action.selector ? ` "${action.selector}"` : ""
-        }${action.value ? ` with value "${action.value}"` : ""}${
-          action.error ? ` - Error: ${action.error}` : ""
-        }`;
-      })
-      .join("\n");
-  }
-
-  private formatErrorsSummary(trace: ParsedTrace): string {
-    if (trace.errors.length === 0) {
-      return "No errors recorded.";
-    }
-
-    return trace.errors
-      .map((error) => {
-        const time = new Date(error.timestamp)
-          .toISOString()
-          .split("T")[1]
-          .split("Z")[0];
-        return `[${time}] ${error.message}${
-          error.stack ? `\nStack: ${error.stack}` : ""
-        }`;
-      })
-      .join("\n\n");
-  }
-
-  private formatNetworkSummary(trace: ParsedTrace): string {
-    if (trace.networkRequests.length === 0) {
-      return "No network requests recorded.";
-    }
-
-    return trace.networkRequests
-      .map((req) => {
-        const time = req.timing
-          ? new Date(req.timing.startTime)
-              .toISOString()
-              .split("T")[1]
-              .split("Z")[0]
-          : "N/A";
-        const status = req.status
-          ? `${req.status} ${req.statusText || ""}`
-          : "No response";
-        const duration =
-          req.timing && req.timing.duration
-            ? `${Math.round(req.timing.duration)}ms`
-            : "N/A";
-        return `[${time}] ${req.method} ${req.url} - ${status} (${duration})${
-          req.error ? ` - Error: ${req.error}` : ""
-        }`;
-      })
-      .join("\n");
-  }
-
-  private formatConsoleSummary(trace: ParsedTrace): string {
-    if (trace.consoleMessages.length === 0) {
-      return "No console messages recorded.";
-    }
-
-    return trace.consoleMessages
-      .map((msg) => {
-        const time = new Date(msg.timestamp)
-          .toISOString()
-          .split("T")[1]
-          .split("Z")[0];
-        return `[${time}] ${msg.type.toUpperCase()}: ${msg.text}`;
-      })
-      .join("\n");
-  }
 }
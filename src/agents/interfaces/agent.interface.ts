@@ -1,5 +1,5 @@
 import { ILanguageModelProvider } from "@/agents";
-import { ParsedTrace } from "@/trace";
+import { AssertionFailure, ParsedTrace } from "@/trace";
 import type { BaseAgent } from "../agent/base.agent";
 
 export interface AgentInput {
@@ -25,6 +25,8 @@ export interface TraceAnalysisOutput extends AgentOutput {
     errorMessages?: string[];
     networkErrors?: string[];
     severityLevel?: "low" | "medium" | "high" | "critical";
+    // Parsed from the trace rather than generated by the model
+    assertionFailure?: AssertionFailure;
   };
 }
 
@@ -43,9 +45,24 @@ export interface DiagnosisOutput extends AgentOutput {
     explanation?: string;
     confidence?: number;
     relatedIssues?: string[];
+    // Trace facts the diagnosis is based on
+    evidence?: string[];
   };
 }
 
+// Finding of a rule the offline diagnosis evaluates over a trace
+export interface DiagnosisRuleMatch {
+  rootCause: string;
+  explanation: string;
+  confidence: number;
+  evidence: string[];
+}
+
+export interface DiagnosisRule {
+  name: string;
+  evaluate(trace: ParsedTrace): DiagnosisRuleMatch | undefined;
+}
+
 export interface RecommendationOutput extends AgentOutput {
   result: {
     recommendations: string[];
@@ -2,3 +2,4 @@ export * from "./chat.agent.interface";
 export * from "./orchestrator.agent.interface";
 export * from "./agent.interface";
 export * from "./model.interface";
+export * from "./recorded.model.interface";
@@ -1,7 +1,13 @@
 import { ChatAnthropic } from "@langchain/anthropic";
+import { ChatOpenAI } from "@langchain/openai";
 import { StringOutputParser } from "@langchain/core/output_parsers";
 import { RunnableSequence } from "@langchain/core/runnables";
 import { PromptTemplate } from "@langchain/core/prompts";
+import {
+  ModelFixtureOptions,
+  RecordingModelProvider,
+  ReplayModelProvider,
+} from "./recorded.model.interface";
 
 /**
  * Interface for a language model provider
@@ -20,6 +26,29 @@ export interface ILanguageModelProvider {
   getModel(): any;
 }
 
+export const MODEL_PROVIDER_TYPES = [
+  "anthropic",
+  "openai",
+  "openai-compatible",
+] as const;
+
+export type ModelProviderType = (typeof MODEL_PROVIDER_TYPES)[number];
+
+/**
+ * Options of a model provider
+ */
+export interface ModelProviderOptions {
+  modelName?: string;
+  temperature?: number;
+  // Endpoint of the provider's API, such as a proxy or a local server
+  baseUrl?: string;
+  // Passed to the provider's chat model as they are, like { topP: 0.9 }
+  providerOptions?: Record<string, unknown>;
+}
+
+// Local OpenAI-compatible servers ignore the key, but the client needs one
+const LOCAL_SERVER_API_KEY = "not-needed";
+
 /**
  * Implementation of ILanguageModelProvider for Anthropic Claude models
  */
@@ -30,13 +59,16 @@ export class AnthropicModelProvider implements ILanguageModelProvider {
     apiKey?: string,
     // modelName: string = "claude-3-5-sonnet-20240620",
     modelName: string = "claude-3-7-sonnet-latest",
-    temperature: number = 0
+    temperature: number = 0,
+    options: Pick<ModelProviderOptions, "baseUrl" | "providerOptions"> = {}
   ) {
     this.model = new ChatAnthropic({
       apiKey: apiKey || process.env.ANTHROPIC_API_KEY,
       temperature,
       maxTokens: 4000,
       model: modelName,
+      anthropicApiUrl: options.baseUrl,
+      ...options.providerOptions,
     });
   }
 
@@ -53,33 +85,156 @@ export class AnthropicModelProvider implements ILanguageModelProvider {
   }
 }
 
+/**
+ * Implementation of ILanguageModelProvider for OpenAI models, and for any
+ * server with an OpenAI-compatible API when given its base URL
+ */
+export class OpenAIModelProvider implements ILanguageModelProvider {
+  private model: ChatOpenAI;
+
+  constructor(
+    apiKey?: string,
+    modelName: string = "gpt-4o",
+    temperature: number = 0,
+    options: Pick<ModelProviderOptions, "baseUrl" | "providerOptions"> = {}
+  ) {
+    this.model = new ChatOpenAI({
+      apiKey: apiKey || process.env.OPENAI_API_KEY,
+      temperature,
+      maxTokens: 4000,
+      model: modelName,
+      configuration: options.baseUrl ? { baseURL: options.baseUrl } : undefined,
+      ...options.providerOptions,
+    });
+  }
+
+  createChain(prompt: PromptTemplate): RunnableSequence {
+    return RunnableSequence.from([
+      prompt,
+      this.model,
+      new StringOutputParser(),
+    ]);
+  }
+
+  getModel(): ChatOpenAI {
+    return this.model;
+  }
+}
+
 /**
  * Factory for creating model providers
  */
 export class ModelProviderFactory {
+  private static defaultType: ModelProviderType = "anthropic";
+  private static defaultOptions: ModelProviderOptions = {};
+  private static fixtures?: ModelFixtureOptions;
+
+  /**
+   * Sets the provider type and options used when no type is given, such as
+   * the ones chosen on the command line
+   * @param providerType The type of provider to create by default
+   * @param options Options of the default provider
+   * @param fixtures Where every provider records its responses to, or
+   * replays them from instead of calling a model
+   */
+  static configure(
+    providerType: ModelProviderType,
+    options: ModelProviderOptions = {},
+    fixtures?: ModelFixtureOptions
+  ): void {
+    this.defaultType = providerType;
+    this.defaultOptions = options;
+    this.fixtures = fixtures;
+  }
+
+  /**
+   * Whether responses are replayed from fixtures instead of coming from a
+   * model
+   */
+  static isReplaying(): boolean {
+    return this.fixtures?.mode === "replay";
+  }
+
   /**
    * Creates a model provider of the specified type
-   * @param providerType The type of provider to create
+   * @param providerType The type of provider to create, the configured
+   * default if not given
    * @param apiKey Optional API key
-   * @param options Additional provider options
+   * @param options Additional provider options, added to the configured
+   * default options when creating the default type
    * @returns A language model provider
    */
   static createProvider(
-    providerType: "anthropic" | string = "anthropic",
+    providerType?: ModelProviderType | string,
+    apiKey?: string,
+    options: ModelProviderOptions = {}
+  ): ILanguageModelProvider {
+    // Replayed runs never reach a model, so they need no API key
+    if (this.fixtures?.mode === "replay") {
+      return new ReplayModelProvider(this.fixtures.dir);
+    }
+
+    const provider = this.createModelProvider(providerType, apiKey, options);
+    return this.fixtures?.mode === "record"
+      ? new RecordingModelProvider(provider, this.fixtures.dir)
+      : provider;
+  }
+
+  private static createModelProvider(
+    providerType?: ModelProviderType | string,
     apiKey?: string,
-    options: {
-      modelName?: string;
-      temperature?: number;
-    } = {}
+    options: ModelProviderOptions = {}
   ): ILanguageModelProvider {
-    switch (providerType) {
+    const type = providerType || this.defaultType;
+    const { modelName, temperature, baseUrl, providerOptions } =
+      type === this.defaultType
+        ? { ...this.defaultOptions, ...withoutUndefined(options) }
+        : options;
+
+    switch (type) {
       case "anthropic":
+        return new AnthropicModelProvider(apiKey, modelName, temperature, {
+          baseUrl,
+          providerOptions,
+        });
+      case "openai":
+        return new OpenAIModelProvider(apiKey, modelName, temperature, {
+          baseUrl,
+          providerOptions,
+        });
+      case "openai-compatible":
+        if (!baseUrl) {
+          throw new Error(
+            'The "openai-compatible" provider needs a base URL, such as http://localhost:11434/v1'
+          );
+        }
+        if (!modelName) {
+          throw new Error(
+            'The "openai-compatible" provider needs the name of a model the server runs'
+          );
+        }
+        // The OpenAI key is never sent to another server, only a key given
+        // for this one
+        return new OpenAIModelProvider(
+          apiKey || process.env.TRACE_STATION_API_KEY || LOCAL_SERVER_API_KEY,
+          modelName,
+          temperature,
+          { baseUrl, providerOptions }
+        );
       default:
-        return new AnthropicModelProvider(
-          apiKey,
-          options.modelName,
-          options.temperature
+        throw new Error(
+          `Unknown model provider "${type}", expected one of: ${MODEL_PROVIDER_TYPES.join(
+            ", "
+          )}`
         );
     }
   }
 }
+
+// Helper function to drop options that weren't given, so they don't
+// override the configured defaults
+function withoutUndefined<T extends object>(options: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(options).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+}
@@ -0,0 +1,129 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { PromptTemplate } from "@langchain/core/prompts";
+import { RunnableLambda, RunnableSequence } from "@langchain/core/runnables";
+import { logger } from "@/ui/classes/logger.class";
+import { ILanguageModelProvider } from "./model.interface";
+
+const log = logger.child("fixtures");
+
+/**
+ * Whether model responses are recorded to, or replayed from, a fixtures
+ * directory
+ */
+export interface ModelFixtureOptions {
+  mode: "record" | "replay";
+  dir: string;
+}
+
+// A recorded response, stored as <hash>.json in the fixtures directory
+interface ModelFixture {
+  hash: string;
+  prompt: string;
+  response: string;
+}
+
+/**
+ * Thrown when a replayed prompt has no recorded response, usually because
+ * the prompt or the trace changed since the fixtures were recorded
+ */
+export class ReplayMissError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReplayMissError";
+  }
+}
+
+/**
+ * Wraps a model provider and writes every response to the fixtures directory,
+ * under the hash of the prompt it answered
+ */
+export class RecordingModelProvider implements ILanguageModelProvider {
+  constructor(
+    private readonly provider: ILanguageModelProvider,
+    private readonly fixturesDir: string
+  ) {}
+
+  createChain(prompt: PromptTemplate): RunnableSequence {
+    const chain = this.provider.createChain(prompt);
+
+    return RunnableSequence.from([
+      RunnableLambda.from(async (input: Record<string, any>) => ({
+        input,
+        text: await prompt.format(input),
+      })),
+      RunnableLambda.from(
+        async ({
+          input,
+          text,
+        }: {
+          input: Record<string, any>;
+          text: string;
+        }) => {
+          const response: string = await chain.invoke(input);
+          this.save({ hash: hashPrompt(text), prompt: text, response });
+          return response;
+        }
+      ),
+    ]);
+  }
+
+  getModel(): any {
+    return this.provider.getModel();
+  }
+
+  private save(fixture: ModelFixture): void {
+    fs.mkdirSync(this.fixturesDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(this.fixturesDir, `${fixture.hash}.json`),
+      JSON.stringify(fixture, null, 2)
+    );
+    log.debug(`Recorded response ${fixture.hash} in ${this.fixturesDir}`);
+  }
+}
+
+/**
+ * Answers prompts with the responses recorded by RecordingModelProvider,
+ * without calling a model. A prompt without a recorded response fails with a
+ * ReplayMissError rather than falling back to a model.
+ */
+export class ReplayModelProvider implements ILanguageModelProvider {
+  constructor(private readonly fixturesDir: string) {}
+
+  createChain(prompt: PromptTemplate): RunnableSequence {
+    return RunnableSequence.from([
+      RunnableLambda.from((input: Record<string, any>) => prompt.format(input)),
+      RunnableLambda.from((text: string) => this.load(text)),
+    ]);
+  }
+
+  getModel(): undefined {
+    return undefined;
+  }
+
+  private load(text: string): string {
+    const hash = hashPrompt(text);
+    const fixturePath = path.join(this.fixturesDir, `${hash}.json`);
+    if (!fs.existsSync(fixturePath)) {
+      throw new ReplayMissError(
+        `No recorded response for prompt ${hash} in ${
+          this.fixturesDir
+        }. The prompt or the trace may have changed since the fixtures were recorded, record them again with --record ${
+          this.fixturesDir
+        }. The prompt starts with: ${text.trim().substring(0, 200)}`
+      );
+    }
+
+    const fixture: ModelFixture = JSON.parse(
+      fs.readFileSync(fixturePath, "utf-8")
+    );
+    log.debug(`Replayed response ${hash} from ${this.fixturesDir}`);
+    return fixture.response;
+  }
+}
+
+// Helper function to name a fixture after the prompt it answers
+function hashPrompt(text: string): string {
+  return crypto.createHash("sha256").update(text).digest("hex");
+}
@@ -3,14 +3,26 @@ import {
   displayContext,
   displayDiagnosis,
   displayFullAnalysisResults,
+  displayParseDiagnostics,
   displayRecommendations,
+  displayRedactionReport,
+  formatParseProgress,
 } from "@/cli";
-import { formatResultsAsJson } from "@/cli";
+import { formatRedactedResultsAsJson } from "@/cli";
 import { WorkflowResult } from "@/workflow";
-import { loadTraceFile, parseTraceFile } from "@/trace";
+import {
+  getIncompatibilities,
+  groupTraceFiles,
+  loadTraceFileStreams,
+  parseTraceStreams,
+  readTraceFileStream,
+} from "@/trace";
 import { SimpleSpinner } from "@/ui/classes/simple.spinner.class";
 import { StageReporter } from "@/ui/classes/stage.reporter.class";
-import { createWorkflow } from "@/workflow/services/graph.workflow";
+import {
+  createOfflineWorkflow,
+  createWorkflow,
+} from "@/workflow/services/graph.workflow";
 import { createInitialState } from "@/workflow/services/state.service";
 import { Command } from "commander";
 import { startChatSession } from "./chat.service";
@@ -19,13 +31,17 @@ import { runFullWorkflow } from "@/workflow/services";
 const chalk = require("chalk");
 import * as fs from "fs";
 import { fetchPlaywrightDocs } from "@/trace/services/fetch.docs.service";
+import { logger } from "@/ui/classes/logger.class";
+import { redactor } from "@/trace/classes/redactor.class";
+
+const log = logger.child("cli");
 
 export async function setupAnalyzeCLI(program: Command) {
   program
     .command("analyze")
     .description("Analyze a Playwright trace file")
     .argument("<file>", "Path to trace file or zip archive")
-    .option("-k, --api-key <key>", "API key for Anthropic Claude")
+    .option("-k, --api-key <key>", "API key for the model provider")
     .option("-v, --verbose", "Show detailed documentation processing logs")
     .option("-o, --output <file>", "Save results to JSON file")
     .option(
@@ -41,6 +57,14 @@ export async function setupAnalyzeCLI(program: Command) {
       "--no-rag",
       "Disable Retrieval Augmented Generation (don't use documentation)"
     )
+    .option(
+      "--offline",
+      "Diagnose with built-in rules only, without calling a model"
+    )
+    .option(
+      "--strict",
+      "Show parse diagnostics and fail when the trace format isn't fully supported"
+    )
     .action(
       async (
         file: string,
@@ -51,6 +75,8 @@ export async function setupAnalyzeCLI(program: Command) {
           updateDocs?: boolean;
           rag?: boolean;
           noRag?: boolean;
+          offline?: boolean;
+          strict?: boolean;
         }
       ) => {
         const useJsonOutput = program.opts().json || false;
@@ -86,7 +112,9 @@ export async function setupAnalyzeCLI(program: Command) {
             );
           else spinner!.text = "Loading trace file...";
 
-          const traceFiles = await loadTraceFile(file);
+          const { files: traceFiles, resources } = await loadTraceFileStreams(
+            file
+          );
 
           if (!useJsonOutput)
             reporter.reportStage(
@@ -101,64 +129,61 @@ export async function setupAnalyzeCLI(program: Command) {
             else
               reporter.reportStage("error", "No trace files found", chalk.red);
 
-            console.log(
-              chalk.yellow(`Could not find trace files at path: ${file}`)
-            );
-            console.log(
-              chalk.yellow(
-                "Make sure the file exists and has the correct extension (.trace, .json, or .zip)"
-              )
+            log.warn(`Could not find trace files at path: ${file}`);
+            log.warn(
+              "Make sure the file exists and has the correct extension (.trace, .json, or .zip)"
             );
             return;
           }
 
-          console.log(
-            "Found trace files:",
-            traceFiles.map((f) => f.filename)
+          log.debug(
+            "Found trace files: %s",
+            traceFiles.map((f) => f.filename).join(", ")
           );
 
-          // Look for test.trace, network, and stacks files
-          const traceFile = traceFiles.find((f) => f.filename === "test.trace");
-          const networkFile = traceFiles.find(
-            (f) => f.filename === "0-trace.network"
-          );
-          const stacksFile = traceFiles.find(
-            (f) => f.filename === "0-trace.stacks"
-          );
+          // Look for the runner trace, network and stacks files and browser context traces
+          const {
+            traceFile,
+            networkFiles,
+            stacksFiles,
+            contextFiles,
+            sourceFiles,
+          } = groupTraceFiles(traceFiles);
 
           if (!traceFile) {
             if (spinner) spinner.fail("trace file not found");
             else
               reporter.reportStage("error", "Trace file not found", chalk.red);
 
-            console.log(
-              chalk.yellow(
-                "Could not find test.trace or 0-trace.trace file in the provided path"
-              )
+            log.warn(
+              "Could not find test.trace or a browser context trace file in the provided path"
             );
             return;
           }
 
-          console.log(`Using trace file: ${traceFile.filename}`);
-          if (networkFile)
-            console.log(`Using network file: ${networkFile.filename}`);
-          if (stacksFile)
-            console.log(`Using stacks file: ${stacksFile.filename}`);
+          log.debug(`Using trace file: ${traceFile.filename}`);
+          for (const file of [...networkFiles, ...stacksFiles])
+            log.debug(`Using companion file: ${file.filename}`);
 
           let parsedTrace;
           try {
             // Parse the trace file along with network and stacks files if available
-            parsedTrace = await parseTraceFile(
-              { filename: traceFile.filename, content: traceFile.content },
-              networkFile
-                ? {
-                    filename: networkFile.filename,
-                    content: networkFile.content,
-                  }
-                : undefined,
-              stacksFile
-                ? { filename: stacksFile.filename, content: stacksFile.content }
-                : undefined
+            parsedTrace = await parseTraceStreams(
+              traceFile,
+              networkFiles,
+              stacksFiles,
+              contextFiles,
+              {
+                sourceFiles: await Promise.all(
+                  sourceFiles.map(readTraceFileStream)
+                ),
+                resources,
+                onProgress: (progress) => {
+                  const message = formatParseProgress(progress);
+                  if (spinner) spinner.text = message;
+                  else reporter.reportProgress("parse", message, chalk.blue);
+                },
+              }
             );
 
             if (!useJsonOutput)
@@ -175,22 +200,16 @@ export async function setupAnalyzeCLI(program: Command) {
               parsedTrace.networkRequests.length === 0 &&
               parsedTrace.errors.length === 0
             ) {
-              console.log(
-                chalk.yellow(
-                  "Note: This appears to be a binary format Playwright trace file."
-                )
+              log.warn(
+                "Note: This appears to be a binary format Playwright trace file."
               );
-              console.log(
-                chalk.yellow(
-                  "Limited information can be extracted from this format."
-                )
+              log.warn(
+                "Limited information can be extracted from this format."
               );
-              console.log(
-                chalk.yellow(
-                  "For full trace analysis, use the Playwright Trace Viewer:"
-                )
+              log.warn(
+                "For full trace analysis, use the Playwright Trace Viewer:",
+                `npx playwright show-trace ${file}`
               );
-              console.log(chalk.blue("npx playwright show-trace " + file));
             }
           } catch (error) {
             if (spinner) spinner.fail("Failed to parse trace file");
@@ -201,19 +220,46 @@ export async function setupAnalyzeCLI(program: Command) {
                 chalk.red
               );
 
-            console.error(
-              chalk.red("Error parsing trace file:"),
+            log.error(
+              "Error parsing trace file:",
               error instanceof Error ? error.message : String(error)
             );
-            console.log(
-              chalk.yellow(
-                "This may be a binary format trace file which requires the Playwright Trace Viewer:"
-              )
+            log.warn(
+              "This may be a binary format trace file which requires the Playwright Trace Viewer:",
+              `npx playwright show-trace ${file}`
             );
-            console.log(chalk.blue("npx playwright show-trace " + file));
             return;
           }
 
+          // Fail before the analysis when the trace isn't fully understood
+          if (options.strict) {
+            const problems = getIncompatibilities(parsedTrace.diagnostics);
+            if (!useJsonOutput)
+              displayParseDiagnostics(parsedTrace.diagnostics);
+
+            if (problems.length > 0) {
+              if (spinner) spinner.fail("Incompatible trace file");
+              else
+                reporter.reportStage(
+                  "error",
+                  "Incompatible trace file (--strict)",
+                  chalk.red
+                );
+
+              if (useJsonOutput) {
+                console.log(
+                  JSON.stringify({
+                    error: "Incompatible trace file",
+                    problems,
+                    diagnostics: parsedTrace.diagnostics,
+                  })
+                );
+              }
+              process.exitCode = 1;
+              return;
+            }
+          }
+
           // Create workflow with verbosity option
           if (!useJsonOutput)
             reporter.reportStage(
@@ -226,38 +272,66 @@ export async function setupAnalyzeCLI(program: Command) {
           // Handle both --rag and --no-rag options
           const disableRag = options.noRag === true || options.rag === false;
 
-          const workflow = createWorkflow(options.apiKey, options.verbose, {
-            disableRag: disableRag,
-          });
+          const workflow = options.offline
+            ? createOfflineWorkflow()
+            : createWorkflow(options.apiKey, options.verbose, {
+                disableRag: disableRag,
+              });
 
           // Initialize state and run workflow
           const initialState = createInitialState(parsedTrace);
           const result: WorkflowResult = await workflow(initialState);
 
+          if (result.error) {
+            if (spinner) spinner.fail("Analysis failed");
+            else
+              reporter.reportStage(
+                "error",
+                `Analysis failed: ${result.error}`,
+                chalk.red
+              );
+
+            if (useJsonOutput) {
+              console.log(JSON.stringify({ error: result.error }));
+            } else {
+              console.error(chalk.red("Error:"), result.error);
+            }
+            process.exitCode = 1;
+            return;
+          }
+
           if (spinner) spinner.succeed("Analysis complete");
           else reporter.complete("Analysis completed");
 
+          // Results printed or saved are redacted like the data sent to the
+          // model
+          const jsonOutput =
+            useJsonOutput || options.output
+              ? formatRedactedResultsAsJson(parsedTrace, result, redactor)
+              : undefined;
+
           if (useJsonOutput) {
             // Output in JSON format
-            const jsonOutput = formatResultsAsJson(parsedTrace, result);
             console.log(JSON.stringify(jsonOutput, null, 2));
           } else {
             // Display results using the improved common display function
             displayFullAnalysisResults(parsedTrace, result);
+            displayRedactionReport(redactor.getReport());
 
-            console.log(
-              chalk.yellow(
-                "\nTip: Try the AI orchestrator-worker approach for more comprehensive analysis:"
-              )
-            );
-            console.log(
-              chalk.cyan(`npm run dev -- analyze-orchestrated ${file}`)
-            );
+            if (!options.offline) {
+              console.log(
+                chalk.yellow(
+                  "\nTip: Try the AI orchestrator-worker approach for more comprehensive analysis:"
+                )
+              );
+              console.log(
+                chalk.cyan(`npm run dev -- analyze-orchestrated ${file}`)
+              );
+            }
           }
 
           // Save results to output file if specified
           if (options.output) {
-            const jsonOutput = formatResultsAsJson(parsedTrace, result);
             fs.writeFileSync(
               options.output,
               JSON.stringify(jsonOutput, null, 2)
@@ -292,7 +366,7 @@ export async function setupAnalyzeCLIChat(program: Command) {
     .command("chat")
     .description("Analyze a trace file and start an interactive chat session")
     .argument("<file>", "Path to trace file or zip archive")
-    .option("-k, --api-key <key>", "API key for Anthropic Claude")
+    .option("-k, --api-key <key>", "API key for the model provider")
     .option("-v, --verbose", "Show detailed documentation processing logs")
     .option("-o, --output <file>", "Save chat transcript to JSON file")
     .option(
@@ -327,7 +401,9 @@ export async function setupAnalyzeCLIChat(program: Command) {
             );
           else spinner!.text = "Loading trace file...";
 
-          const traceFiles = await loadTraceFile(file);
+          const { files: traceFiles, resources } = await loadTraceFileStreams(
+            file
+          );
 
           if (!useJsonOutput)
             reporter.reportStage(
@@ -342,35 +418,29 @@ export async function setupAnalyzeCLIChat(program: Command) {
             else
               reporter.reportStage("error", "No trace files found", chalk.red);
 
-            console.log(
-              chalk.yellow(`Could not find trace files at path: ${file}`)
-            );
-            console.log(
-              chalk.yellow(
-                "Make sure the file exists and has the correct extension (.trace, .json, or .zip)"
-              )
+            log.warn(`Could not find trace files at path: ${file}`);
+            log.warn(
+              "Make sure the file exists and has the correct extension (.trace, .json, or .zip)"
             );
             return;
           }
 
-          // Look for test.trace, network, and stacks files - prioritize test.trace over 0-trace.trace
-          const traceFile = traceFiles.find((f) => f.filename === "test.trace");
-          const networkFile = traceFiles.find(
-            (f) => f.filename === "0-trace.network"
-          );
-          const stacksFile = traceFiles.find(
-            (f) => f.filename === "0-trace.stacks"
-          );
+          // Look for the runner trace, network and stacks files and browser context traces
+          const {
+            traceFile,
+            networkFiles,
+            stacksFiles,
+            contextFiles,
+            sourceFiles,
+          } = groupTraceFiles(traceFiles);
 
           if (!traceFile) {
             if (spinner) spinner.fail("trace file not found");
             else
               reporter.reportStage("error", "Trace file not found", chalk.red);
 
-            console.log(
-              chalk.yellow(
-                "Could not find test.trace or 0-trace.trace file in the provided path"
-              )
+            log.warn(
+              "Could not find test.trace or a browser context trace file in the provided path"
             );
             return;
           }
@@ -385,17 +455,22 @@ export async function setupAnalyzeCLIChat(program: Command) {
                 chalk.blue
               );
 
-            parsedTrace = await parseTraceFile(
-              { filename: traceFile.filename, content: traceFile.content },
-              networkFile
-                ? {
-                    filename: networkFile.filename,
-                    content: networkFile.content,
-                  }
-                : undefined,
-              stacksFile
-                ? { filename: stacksFile.filename, content: stacksFile.content }
-                : undefined
+            parsedTrace = await parseTraceStreams(
+              traceFile,
+              networkFiles,
+              stacksFiles,
+              contextFiles,
+              {
+                sourceFiles: await Promise.all(
+                  sourceFiles.map(readTraceFileStream)
+                ),
+                resources,
+                onProgress: (progress) => {
+                  const message = formatParseProgress(progress);
+                  if (spinner) spinner.text = message;
+                  else reporter.reportProgress("parse", message, chalk.blue);
+                },
+              }
             );
           } catch (error) {
             if (spinner) spinner.fail("Failed to parse trace file");
@@ -406,8 +481,8 @@ export async function setupAnalyzeCLIChat(program: Command) {
                 chalk.red
               );
 
-            console.error(
-              chalk.red("Error parsing trace file:"),
+            log.error(
+              "Error parsing trace file:",
               error instanceof Error ? error.message : String(error)
             );
             return;
@@ -436,7 +511,11 @@ export async function setupAnalyzeCLIChat(program: Command) {
 
           // Display the analysis results
           if (useJsonOutput) {
-            const jsonOutput = formatResultsAsJson(parsedTrace, workflowResult);
+            const jsonOutput = formatRedactedResultsAsJson(
+              parsedTrace,
+              workflowResult,
+              redactor
+            );
             console.log(JSON.stringify(jsonOutput, null, 2));
           } else {
             displayFullAnalysisResults(parsedTrace, workflowResult);
@@ -1,6 +1,7 @@
 import { ChatAgent } from "@/agents/agent/chat.agent";
 import { WorkflowResult } from "@/workflow";
 import { ParsedTrace } from "@/trace";
+import { redactor } from "@/trace/classes/redactor.class";
 import { SimpleSpinner } from "@/ui/classes/simple.spinner.class";
 import { StageReporter } from "@/ui/classes/stage.reporter.class";
 import { WorkflowState } from "@/workflow";
@@ -98,7 +99,15 @@ export async function startChatSession(
 
       // Save chat history if output file is specified
       if (outputFile && chatHistory.messages.length > 0) {
-        fs.writeFileSync(outputFile, JSON.stringify(chatHistory, null, 2));
+        // Transcripts quote the trace, mask it as it was masked for the model
+        fs.writeFileSync(
+          outputFile,
+          JSON.stringify(
+            redactor.redactValue(chatHistory, "transcript"),
+            null,
+            2
+          )
+        );
         console.log(chalk.green(`\nChat transcript saved to ${outputFile}`));
       }
 
@@ -1,5 +1,6 @@
 import { WorkflowResult } from "@/workflow";
 import { ParsedTrace } from "@/trace";
+import { Redactor } from "@/trace/classes/redactor.class";
 
 /**
  * Format analysis results as a clean JSON object
@@ -24,6 +25,27 @@ export function formatResultsAsJson(
       name: trace.browser.name,
       version: trace.browser.version,
     },
+    pageErrors: trace.pageErrors.map((error) => ({
+      name: error.name,
+      message: error.message,
+      stack: error.stack,
+      timestamp: error.timestamp,
+    })),
+    dialogs: trace.dialogs.map((dialog) => ({
+      type: dialog.type,
+      message: dialog.message,
+      handledBy: dialog.handledBy || null,
+      timestamp: dialog.timestamp,
+    })),
+    downloads: trace.downloads.map((download) => ({
+      url: download.url,
+      suggestedFilename: download.suggestedFilename,
+      timestamp: download.timestamp,
+    })),
+    fileChoosers: trace.fileChoosers.map((chooser) => ({
+      isMultiple: chooser.isMultiple,
+      timestamp: chooser.timestamp,
+    })),
     timestamp: new Date().toISOString(),
   };
 
@@ -42,6 +64,7 @@ export function formatResultsAsJson(
       explanation: result.diagnosis.result.explanation,
       confidence: result.diagnosis.result.confidence,
       relatedIssues: result.diagnosis.result.relatedIssues,
+      evidence: result.diagnosis.result.evidence,
     };
   }
 
@@ -61,3 +84,20 @@ export function formatResultsAsJson(
 
   return output;
 }
+
+/**
+ * Formats analysis results for printing or saving, with secrets and personal data masked
+ * and a report of what was masked
+ */
+export function formatRedactedResultsAsJson(
+  trace: ParsedTrace,
+  result: WorkflowResult,
+  redactor: Redactor
+): Record<string, any> {
+  const output = formatResultsAsJson(
+    redactor.redactTrace(trace),
+    redactor.redactValue(result, "results")
+  );
+  output.redaction = redactor.getReport();
+  return output;
+}
@@ -5,8 +5,22 @@ import {
   TraceAnalysisOutput,
 } from "@/agents";
 import chalk from "chalk";
+import { InvalidArgumentError } from "commander";
 import { NetworkRequest } from "@/trace";
-import { ParsedTrace } from "@/trace";
+import {
+  ParseDiagnostics,
+  ParseProgress,
+  ParsedTrace,
+  RedactionReport,
+  describeAssertionFailure,
+  describeAttachment,
+  describeEnvironment,
+  describeFailureLocation,
+  describeRedactionReport,
+  formatSourceLocation,
+  formatTestStepTree,
+  getIncompatibilities,
+} from "@/trace";
 import { WorkflowResult } from "@/workflow";
 
 export function displayAnalysis(analysis: TraceAnalysisOutput) {
@@ -32,6 +46,13 @@ export function displayAnalysis(analysis: TraceAnalysisOutput) {
     });
   }
 
+  if (analysis.result.assertionFailure) {
+    console.log("\nFailed Assertion:");
+    describeAssertionFailure(analysis.result.assertionFailure)
+      .split("\n")
+      .forEach((line) => console.log(`  ${chalk.yellow(line)}`));
+  }
+
   if (
     analysis.result.failedActions &&
     analysis.result.failedActions.length > 0
@@ -132,6 +153,13 @@ export function displayDiagnosis(diagnosis: DiagnosisOutput) {
     });
   }
 
+  if (diagnosis.result.evidence && diagnosis.result.evidence.length > 0) {
+    console.log("\nEvidence:");
+    diagnosis.result.evidence.forEach((item: string) => {
+      console.log(`  - ${item}`);
+    });
+  }
+
   if (diagnosis.result.confidence !== undefined) {
     const confidencePercentage = Math.round(diagnosis.result.confidence * 100);
     let confidenceColor;
@@ -250,11 +278,18 @@ export function displayFullAnalysisResults(
   const statusColor =
     trace.testResult.status === "passed" ? chalk.green : chalk.red;
   console.log(`Status:  ${statusColor(trace.testResult.status.toUpperCase())}`);
+  if (trace.failureCategory) {
+    console.log(`Failure: ${chalk.yellow(trace.failureCategory.label)}`);
+  }
   console.log(
     `Browser: ${trace.browser.name}${
       trace.browser.version ? ` v${trace.browser.version}` : ""
     }`
   );
+  const environment = describeEnvironment(trace.environment);
+  if (environment) {
+    console.log(`Setup:   ${chalk.dim(environment)}`);
+  }
 
   // ━━━━━━━━━━━━━━━━━━━━━━━━
   // SECTION 1: Root cause - the most important info
@@ -272,6 +307,12 @@ export function displayFullAnalysisResults(
     ) {
       console.log(`\n${explanation}`);
     }
+
+    const evidence = workflowResult.diagnosis.result.evidence || [];
+    if (evidence.length > 0) {
+      console.log(chalk.dim("\nEvidence:"));
+      evidence.forEach((item) => console.log(chalk.dim(`  - ${item}`)));
+    }
   }
 
   // ━━━━━━━━━━━━━━━━━━━━━━━━
@@ -331,11 +372,30 @@ export function displayFullAnalysisResults(
     console.log(`Error: ${chalk.red(errorFirstLine)}`);
   }
 
+  // Kind of failure and the line it was recognized by
+  if (trace.failureCategory?.evidence) {
+    console.log(
+      `${trace.failureCategory.label}: ${chalk.dim(
+        trace.failureCategory.evidence
+      )}`
+    );
+  }
+
   // Failure point
   if (workflowResult.analysis?.result.failurePoint) {
     console.log(`Where: ${workflowResult.analysis.result.failurePoint}`);
   }
 
+  // Step in which the runner recorded the failure
+  if (trace.failureLocation) {
+    console.log(`Failed in: ${describeFailureLocation(trace.failureLocation)}`);
+  }
+
+  // Test code the failing step was called from
+  if (trace.failingLine) {
+    console.log(`Failed at: ${formatSourceLocation(trace.failingLine)}`);
+  }
+
   // Network failures (if any)
   const failedRequests = trace.networkRequests.filter(
     (req) => (req.status && req.status >= 400) || req.error
@@ -360,6 +420,27 @@ export function displayFullAnalysisResults(
     }
   }
 
+  // Last lines the test printed before it ended
+  if (trace.testOutput.length > 0) {
+    console.log(
+      `Test output: ${trace.testOutput.length} line${
+        trace.testOutput.length > 1 ? "s" : ""
+      }`
+    );
+    trace.testOutput.slice(-5).forEach((line) => {
+      const text = line.stream === "stderr" ? chalk.red(line.text) : line.text;
+      console.log(`  ${chalk.dim(">")} ${text}`);
+    });
+  }
+
+  // Attachments added by the test or the runner
+  if (trace.attachments.length > 0) {
+    console.log("Attachments:");
+    trace.attachments.forEach((attachment) => {
+      console.log(`  → ${describeAttachment(attachment)}`);
+    });
+  }
+
   // ━━━━━━━━━━━━━━━━━━━━━━━━
   // SECTION 5: Resources - documentation & best practices
   // ━━━━━━━━━━━━━━━━━━━━━━━━
@@ -413,6 +494,126 @@ export function displayFullAnalysisResults(
   console.log(divider);
 }
 
+// Helper function to print what the parser couldn't read or understand
+export function displayParseDiagnostics(diagnostics: ParseDiagnostics) {
+  console.log("\n" + chalk.bold.blue("Parse Diagnostics:"));
+  console.log(`  Format: ${diagnostics.format}`);
+  console.log(
+    `  Trace format version: ${
+      diagnostics.traceVersions.join(", ") || "unknown"
+    }`
+  );
+
+  if (diagnostics.newerVersions.length > 0) {
+    console.log(
+      chalk.yellow(
+        `  Newer than the supported versions, read with the newest schemas: ${diagnostics.newerVersions.join(
+          ", "
+        )}`
+      )
+    );
+  }
+  diagnostics.missingFiles.forEach((file) => {
+    console.log(chalk.yellow(`  Missing file: ${file}`));
+  });
+  diagnostics.unknownRecordTypes.forEach(({ file, type, count }) => {
+    console.log(
+      chalk.yellow(`  Unknown record type "${type}" (${count}x in ${file})`)
+    );
+  });
+  diagnostics.malformedLines.forEach(({ file, line, preview }) => {
+    console.log(
+      chalk.yellow(`  Malformed line ${file}:${line}: ${chalk.dim(preview)}`)
+    );
+  });
+  diagnostics.invalidRecords.forEach(({ file, record, type, issues }) => {
+    console.log(
+      chalk.yellow(`  Invalid ${type} record #${record} in ${file}:`)
+    );
+    issues.forEach((issue) => console.log(chalk.dim(`    - ${issue}`)));
+  });
+  const unlisted =
+    diagnostics.invalidRecordCount - diagnostics.invalidRecords.length;
+  if (unlisted > 0) {
+    console.log(chalk.dim(`  ...and ${unlisted} more invalid records`));
+  }
+
+  const problems = getIncompatibilities(diagnostics);
+  if (problems.length === 0) {
+    console.log(chalk.green("  The trace format is fully supported"));
+  } else {
+    problems.forEach((problem) => console.log(chalk.red(`  ✗ ${problem}`)));
+  }
+}
+
+// Helper function to print what was masked before the trace left the machine
+export function displayRedactionReport(report: RedactionReport) {
+  if (report.count === 0) return;
+
+  console.log("\n" + chalk.bold.blue("Redaction:"));
+  console.log(`  ${describeRedactionReport(report)}`);
+  report.findings.forEach(({ rule, location, count }) => {
+    console.log(chalk.dim(`  - ${rule} in ${location} (${count}x)`));
+  });
+}
+
+// Helper function to describe how far a trace file has been streamed
+export function formatParseProgress(progress: ParseProgress): string {
+  const percent = progress.totalBytes
+    ? ` ${Math.min(
+        100,
+        Math.round((progress.bytesRead / progress.totalBytes) * 100)
+      )}%`
+    : "";
+  const megabytes = (progress.bytesRead / (1024 * 1024)).toFixed(1);
+
+  return `Parsing ${progress.file}:${percent} (${megabytes} MB, ${progress.records} records)`;
+}
+
+// Helper function to collect repeated --provider-option key=value pairs.
+// Values are read as JSON when they parse, so numbers and booleans keep
+// their type.
+export function collectProviderOption(
+  option: string,
+  options: Record<string, unknown> = {}
+): Record<string, unknown> {
+  const separator = option.indexOf("=");
+  if (separator <= 0) {
+    throw new InvalidArgumentError(`Expected key=value, got "${option}".`);
+  }
+
+  const key = option.substring(0, separator);
+  const value = option.substring(separator + 1);
+  try {
+    options[key] = JSON.parse(value);
+  } catch {
+    options[key] = value;
+  }
+  return options;
+}
+
+// Helper function to print the runner's step tree as an indented list
+export function displayTestStepTree(trace: ParsedTrace) {
+  console.log("\n" + chalk.bold.blue("Test Steps:"));
+
+  if (trace.steps.length === 0) {
+    console.log(chalk.dim("  No test steps recorded."));
+    return;
+  }
+
+  formatTestStepTree(trace.steps).forEach((line) => {
+    console.log(line.endsWith("✗") ? chalk.red(`  ${line}`) : `  ${line}`);
+  });
+
+  if (trace.failureLocation) {
+    console.log(
+      `\nFailed in: ${chalk.yellow(
+        describeFailureLocation(trace.failureLocation)
+      )}`
+    );
+  }
+}
+
 export function getSeverityColor(
   severity?: "low" | "medium" | "high" | "critical"
 ) {
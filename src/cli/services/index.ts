@@ -2,5 +2,7 @@ export * from "./analyze.cli.service";
 export * from "./orchestrated.analyze.cli.service";
 export * from "./chat.service";
 export * from "./setup.cli.service";
+export * from "./steps.cli.service";
+export * from "./screenshot.cli.service";
 export * from "./cli.helper.service";
 export * from "./cli.format.service";
@@ -1,7 +1,17 @@
-import { displayFullAnalysisResults } from "./cli.helper.service";
-import { formatResultsAsJson } from "./cli.format.service";
-import { loadTraceFile } from "@/trace/services/load.trace.service";
-import { parseTraceFile } from "@/trace/services/parse.trace.service";
+import {
+  displayFullAnalysisResults,
+  displayParseDiagnostics,
+  displayRedactionReport,
+  formatParseProgress,
+} from "./cli.helper.service";
+import { formatRedactedResultsAsJson } from "./cli.format.service";
+import {
+  groupTraceFiles,
+  loadTraceFileStreams,
+} from "@/trace/services/load.trace.service";
+import { parseTraceStreams } from "@/trace/services/parse.trace.service";
+import { readTraceFileStream } from "@/trace/services/stream.trace.service";
+import { getIncompatibilities } from "@/trace/services/schema.trace.service";
 import { SimpleSpinner } from "@/ui/classes/simple.spinner.class";
 import { StageReporter } from "@/ui/classes/stage.reporter.class";
 import { runOrchestratedWorkflow } from "@/workflow/services";
@@ -10,13 +20,17 @@ const chalk = require("chalk");
 import * as fs from "fs";
 import { startChatSession } from "./chat.service";
 import { fetchPlaywrightDocs } from "@/trace/services/fetch.docs.service";
+import { logger } from "@/ui/classes/logger.class";
+import { redactor } from "@/trace/classes/redactor.class";
+
+const log = logger.child("cli");
 
 export async function setupOrchestratedAnalyzeCLI(program: Command) {
   program
     .command("analyze-orchestrated")
     .description("Analyze a test trace using dynamic AI orchestration")
     .argument("<file>", "Path to trace file or zip archive")
-    .option("-k, --api-key <key>", "API key for Anthropic Claude")
+    .option("-k, --api-key <key>", "API key for the model provider")
     .option("-v, --verbose", "Show detailed processing logs")
     .option("-o, --output <file>", "Save results to JSON file")
     .option("--retries", "Enable retry mechanism for failed steps")
@@ -33,6 +47,10 @@ export async function setupOrchestratedAnalyzeCLI(program: Command) {
       "--no-rag",
       "Disable Retrieval Augmented Generation (don't use documentation)"
     )
+    .option(
+      "--strict",
+      "Show parse diagnostics and fail when the trace format isn't fully supported"
+    )
     .action(
       async (
         file: string,
@@ -44,6 +62,7 @@ export async function setupOrchestratedAnalyzeCLI(program: Command) {
           updateDocs?: boolean;
           rag?: boolean;
           noRag?: boolean;
+          strict?: boolean;
         }
       ) => {
         const useJsonOutput = program.opts().json || false;
@@ -79,7 +98,9 @@ export async function setupOrchestratedAnalyzeCLI(program: Command) {
             );
           else spinner!.text = "Loading trace file...";
 
-          const traceFiles = await loadTraceFile(file);
+          const { files: traceFiles, resources } = await loadTraceFileStreams(
+            file
+          );
 
           if (!useJsonOutput)
             reporter.reportStage(
@@ -94,30 +115,26 @@ export async function setupOrchestratedAnalyzeCLI(program: Command) {
             else
               reporter.reportStage("error", "No trace files found", chalk.red);
 
-            console.log(
-              chalk.yellow(`Could not find trace files at path: ${file}`)
-            );
+            log.warn(`Could not find trace files at path: ${file}`);
             return;
           }
 
-          // Look for test.trace, network, and stacks files
-          const traceFile = traceFiles.find((f) => f.filename === "test.trace");
-          const networkFile = traceFiles.find(
-            (f) => f.filename === "0-trace.network"
-          );
-          const stacksFile = traceFiles.find(
-            (f) => f.filename === "0-trace.stacks"
-          );
+          // Look for the runner trace, network and stacks files and browser context traces
+          const {
+            traceFile,
+            networkFiles,
+            stacksFiles,
+            contextFiles,
+            sourceFiles,
+          } = groupTraceFiles(traceFiles);
 
           if (!traceFile) {
             if (spinner) spinner.fail("trace file not found");
             else
               reporter.reportStage("error", "Trace file not found", chalk.red);
 
-            console.log(
-              chalk.yellow(
-                "Could not find test.trace or 0-trace.trace file in the provided path"
-              )
+            log.warn(
+              "Could not find test.trace or a browser context trace file in the provided path"
             );
             return;
           }
@@ -127,16 +144,53 @@ export async function setupOrchestratedAnalyzeCLI(program: Command) {
             reporter.reportStage("parse", "Parsing trace data...", chalk.blue);
           else spinner!.text = "Parsing trace data...";
 
-          const parsedTrace = await parseTraceFile(
-            { filename: traceFile.filename, content: traceFile.content },
-            networkFile
-              ? { filename: networkFile.filename, content: networkFile.content }
-              : undefined,
-            stacksFile
-              ? { filename: stacksFile.filename, content: stacksFile.content }
-              : undefined
+          const parsedTrace = await parseTraceStreams(
+            traceFile,
+            networkFiles,
+            stacksFiles,
+            contextFiles,
+            {
+              sourceFiles: await Promise.all(
+                sourceFiles.map(readTraceFileStream)
+              ),
+              resources,
+              onProgress: (progress) => {
+                const message = formatParseProgress(progress);
+                if (spinner) spinner.text = message;
+                else reporter.reportProgress("parse", message, chalk.blue);
+              },
+            }
           );
 
+          // Fail before the analysis when the trace isn't fully understood
+          if (options.strict) {
+            const problems = getIncompatibilities(parsedTrace.diagnostics);
+            if (!useJsonOutput)
+              displayParseDiagnostics(parsedTrace.diagnostics);
+
+            if (problems.length > 0) {
+              if (spinner) spinner.fail("Incompatible trace file");
+              else
+                reporter.reportStage(
+                  "error",
+                  "Incompatible trace file (--strict)",
+                  chalk.red
+                );
+
+              if (useJsonOutput) {
+                console.log(
+                  JSON.stringify({
+                    error: "Incompatible trace file",
+                    problems,
+                    diagnostics: parsedTrace.diagnostics,
+                  })
+                );
+              }
+              process.exitCode = 1;
+              return;
+            }
+          }
+
           // Handle both --rag and --no-rag options
           const disableRag = options.noRag === true || options.rag === false;
 
@@ -170,6 +224,7 @@ export async function setupOrchestratedAnalyzeCLI(program: Command) {
               );
 
             console.error(chalk.red(`Error: ${workflowResult.error}`));
+            process.exitCode = 1;
             return;
           }
 
@@ -177,16 +232,26 @@ export async function setupOrchestratedAnalyzeCLI(program: Command) {
           else reporter.complete("Orchestrated analysis completed");
 
           // Output results
+          // Results printed or saved are redacted like the data sent to the
+          // model
+          const jsonOutput =
+            useJsonOutput || options.output
+              ? formatRedactedResultsAsJson(
+                  parsedTrace,
+                  workflowResult,
+                  redactor
+                )
+              : undefined;
+
           if (useJsonOutput) {
-            const jsonOutput = formatResultsAsJson(parsedTrace, workflowResult);
             console.log(JSON.stringify(jsonOutput, null, 2));
           } else {
             displayFullAnalysisResults(parsedTrace, workflowResult);
+            displayRedactionReport(redactor.getReport());
           }
 
           // Save results to file if requested
           if (options.output) {
-            const jsonOutput = formatResultsAsJson(parsedTrace, workflowResult);
             fs.writeFileSync(
               options.output,
               JSON.stringify(jsonOutput, null, 2)
@@ -219,7 +284,7 @@ export async function setupOrchestratedAnalyzeCLIChat(program: Command) {
       "Analyze a Playwright trace file using the orchestrated workflow and start an interactive chat session"
     )
     .argument("<file>", "Path to trace file or zip archive")
-    .option("-k, --api-key <key>", "API key for Anthropic Claude")
+    .option("-k, --api-key <key>", "API key for the model provider")
     .option("-v, --verbose", "Show detailed documentation processing logs")
     .option("-o, --output <file>", "Save chat transcript to JSON file")
     .option("-r, --retries", "Enable retries for agent calls")
@@ -282,7 +347,9 @@ export async function setupOrchestratedAnalyzeCLIChat(program: Command) {
             chalk.blue
           );
 
-          const traceFiles = await loadTraceFile(file);
+          const { files: traceFiles, resources } = await loadTraceFileStreams(
+            file
+          );
           reporter.reportStage(
             "load",
             "Trace file loaded, parsing content...",
@@ -291,57 +358,58 @@ export async function setupOrchestratedAnalyzeCLIChat(program: Command) {
 
           if (traceFiles.length === 0) {
             reporter.reportStage("error", "No trace files found", chalk.red);
-            console.log(
-              chalk.yellow(`Could not find trace files at path: ${file}`)
-            );
-            console.log(
-              chalk.yellow(
-                "Make sure the file exists and has the correct extension (.trace, .json, or .zip)"
-              )
+            log.warn(`Could not find trace files at path: ${file}`);
+            log.warn(
+              "Make sure the file exists and has the correct extension (.trace, .json, or .zip)"
             );
             return;
           }
 
-          console.log(
-            "Found trace files:",
-            traceFiles.map((f) => f.filename)
+          log.debug(
+            "Found trace files: %s",
+            traceFiles.map((f) => f.filename).join(", ")
           );
 
-          // Look for test.trace, network, and stacks files
-          const traceFile = traceFiles.find((f) => f.filename === "test.trace");
-          const networkFile = traceFiles.find(
-            (f) => f.filename === "0-trace.network"
-          );
-          const stacksFile = traceFiles.find(
-            (f) => f.filename === "0-trace.stacks"
-          );
+          // Look for the runner trace, network and stacks files and browser context traces
+          const {
+            traceFile,
+            networkFiles,
+            stacksFiles,
+            contextFiles,
+            sourceFiles,
+          } = groupTraceFiles(traceFiles);
 
           if (!traceFile) {
             reporter.reportStage("error", "Trace file not found", chalk.red);
-            console.log(
-              chalk.yellow(
-                "Could not find test.trace or 0-trace.trace file in the provided path"
-              )
+            log.warn(
+              "Could not find test.trace or a browser context trace file in the provided path"
             );
             return;
           }
 
-          console.log(`Using trace file: ${traceFile.filename}`);
-          if (networkFile)
-            console.log(`Using network file: ${networkFile.filename}`);
-          if (stacksFile)
-            console.log(`Using stacks file: ${stacksFile.filename}`);
+          log.debug(`Using trace file: ${traceFile.filename}`);
+          for (const file of [...networkFiles, ...stacksFiles])
+            log.debug(`Using companion file: ${file.filename}`);
 
           // Parse the trace file
           reporter.reportStage("parse", "Parsing trace data...", chalk.blue);
-          const parsedTrace = await parseTraceFile(
-            { filename: traceFile.filename, content: traceFile.content },
-            networkFile
-              ? { filename: networkFile.filename, content: networkFile.content }
-              : undefined,
-            stacksFile
-              ? { filename: stacksFile.filename, content: stacksFile.content }
-              : undefined
+          const parsedTrace = await parseTraceStreams(
+            traceFile,
+            networkFiles,
+            stacksFiles,
+            contextFiles,
+            {
+              sourceFiles: await Promise.all(
+                sourceFiles.map(readTraceFileStream)
+              ),
+              resources,
+              onProgress: (progress) =>
+                reporter.reportProgress(
+                  "parse",
+                  formatParseProgress(progress),
+                  chalk.blue
+                ),
+            }
           );
           reporter.reportStage(
             "parse",
@@ -0,0 +1,116 @@
+import {
+  groupTraceFiles,
+  loadTraceFileStreams,
+} from "@/trace/services/load.trace.service";
+import { parseTraceStreams } from "@/trace/services/parse.trace.service";
+import { readTraceFileStream } from "@/trace/services/stream.trace.service";
+import {
+  findFailureFrame,
+  readScreenshot,
+} from "@/trace/services/screencast.trace.service";
+import { ScreenshotData } from "@/trace";
+import { logger } from "@/ui/classes/logger.class";
+import { Command } from "commander";
+import * as fs from "fs";
+// @ts-ignore
+const chalk = require("chalk");
+
+const log = logger.child("cli");
+
+export async function setupScreenshotCLI(program: Command) {
+  program
+    .command("screenshot")
+    .description(
+      "Save the screencast frame closest to the failure, or to a chosen action"
+    )
+    .argument("<file>", "Path to trace zip archive")
+    .option(
+      "-a, --action <callId>",
+      "Use the frame of the action with this call id instead of the failure"
+    )
+    .option("--before", "Use the frame taken before the action started")
+    .option("-o, --output <file>", "Path to write the frame to")
+    .action(
+      async (
+        file: string,
+        options: { action?: string; before?: boolean; output?: string }
+      ) => {
+        const useJsonOutput = program.opts().json || false;
+
+        try {
+          const { files, resources } = await loadTraceFileStreams(file);
+          if (!resources) {
+            throw new Error("Screencast frames are only saved in zip archives");
+          }
+
+          const {
+            traceFile,
+            networkFiles,
+            stacksFiles,
+            contextFiles,
+            sourceFiles,
+          } = groupTraceFiles(files);
+
+          if (!traceFile) {
+            throw new Error(
+              "Could not find test.trace or a browser context trace file in the provided archive"
+            );
+          }
+
+          const parsedTrace = await parseTraceStreams(
+            traceFile,
+            networkFiles,
+            stacksFiles,
+            contextFiles,
+            {
+              sourceFiles: await Promise.all(
+                sourceFiles.map(readTraceFileStream)
+              ),
+              resources,
+            }
+          );
+
+          let frame: ScreenshotData | undefined;
+          if (options.action) {
+            const action = parsedTrace.actions.find(
+              (a) =>
+                a.callId === options.action ||
+                a.libraryCallId === options.action
+            );
+            if (!action) {
+              throw new Error(`No action with call id ${options.action} found`);
+            }
+            frame = options.before
+              ? action.frameBefore
+              : action.frameAfter || action.frameBefore;
+          } else {
+            frame = findFailureFrame(parsedTrace);
+          }
+
+          const image = frame
+            ? await readScreenshot(frame, resources)
+            : undefined;
+          if (!frame || !image) {
+            throw new Error("No screencast frame found in the trace");
+          }
+
+          const output = options.output || "screenshot.jpeg";
+          fs.writeFileSync(output, image);
+          const timestamp = new Date(frame.timestamp).toISOString();
+          if (useJsonOutput) {
+            console.log(JSON.stringify({ output, timestamp }, null, 2));
+          } else {
+            console.log(
+              chalk.green(`Saved frame from ${timestamp} to ${output}`)
+            );
+          }
+        } catch (error) {
+          const message =
+            error instanceof Error ? error.message : String(error);
+          log.error(`Failed to save the screenshot: ${message}`);
+          if (useJsonOutput) console.log(JSON.stringify({ error: message }));
+          process.exitCode = 1;
+        }
+      }
+    );
+}
@@ -1,10 +1,21 @@
-import { Command } from "commander";
+import { Command, Option } from "commander";
+import { LOG_LEVELS, logger } from "@/ui/classes/logger.class";
+import { redactor } from "@/trace/classes/redactor.class";
+import { loadRedactionRules } from "@/trace/services/redact.trace.service";
+import {
+  MODEL_PROVIDER_TYPES,
+  ModelProviderFactory,
+  ModelProviderType,
+} from "@/agents";
+import { collectProviderOption } from "./cli.helper.service";
 
 import {
   setupAnalyzeCLI,
   setupAnalyzeCLIChat,
   setupOrchestratedAnalyzeCLI,
   setupOrchestratedAnalyzeCLIChat,
+  setupStepsCLI,
+  setupScreenshotCLI,
 } from "./index";
 
 export async function setupCLI() {
@@ -14,12 +25,96 @@ export async function setupCLI() {
     .name("trace-station")
     .description("AI-powered Playwright test debugging agent")
     .version("0.1.0")
-    .option("--json", "Output results in JSON format");
+    .option("--json", "Output results in JSON format")
+    .option("--quiet", "Only log errors")
+    .addOption(
+      new Option("--log-level <level>", "Minimum level of log lines").choices(
+        LOG_LEVELS
+      )
+    )
+    .option("--log-file <file>", "Append log lines to a file instead of stderr")
+    .addOption(
+      new Option("--log-format <format>", "Format of log lines")
+        .choices(["text", "json"])
+        .default("text")
+    )
+    .option(
+      "--redact-rules <file>",
+      "JSON file with extra redaction rules (default: $TRACE_STATION_REDACT_RULES)"
+    )
+    .addOption(
+      new Option(
+        "--provider <provider>",
+        "Model provider (default: $TRACE_STATION_PROVIDER or anthropic)"
+      ).choices(MODEL_PROVIDER_TYPES)
+    )
+    .option(
+      "--model <model>",
+      "Model name of the provider (default: $TRACE_STATION_MODEL)"
+    )
+    .option(
+      "--base-url <url>",
+      "Base URL of the provider's API, such as a local OpenAI-compatible server (default: $TRACE_STATION_BASE_URL)"
+    )
+    .option(
+      "--provider-option <key=value>",
+      "Option passed to the provider's chat model as is, repeatable",
+      collectProviderOption
+    )
+    .option(
+      "--record <dir>",
+      "Record the model's responses to a fixtures directory"
+    )
+    .addOption(
+      new Option(
+        "--replay <dir>",
+        "Answer prompts with responses recorded by --record instead of calling a model"
+      ).conflicts("record")
+    );
+
+  // Logs go to stderr or the log file, so stdout only carries results. An
+  // explicit --log-level wins over --quiet and a command's --verbose.
+  program.hook("preAction", (_program, actionCommand) => {
+    const { quiet, logLevel, logFile, logFormat } = program.opts();
+    logger.configure({
+      level:
+        logLevel ||
+        (quiet ? "error" : actionCommand.opts().verbose ? "debug" : "info"),
+      format: logFormat,
+      file: logFile,
+    });
+
+    // Secrets are masked with the built-in rules and the team's own rules
+    const rulesFile =
+      program.opts().redactRules || process.env.TRACE_STATION_REDACT_RULES;
+    if (rulesFile) redactor.addRules(loadRedactionRules(rulesFile));
+
+    // Agents created without a provider use the one chosen here
+    const { provider, model, baseUrl, providerOption, record, replay } =
+      program.opts();
+    ModelProviderFactory.configure(
+      (provider ||
+        process.env.TRACE_STATION_PROVIDER ||
+        "anthropic") as ModelProviderType,
+      {
+        modelName: model || process.env.TRACE_STATION_MODEL,
+        baseUrl: baseUrl || process.env.TRACE_STATION_BASE_URL,
+        providerOptions: providerOption,
+      },
+      replay
+        ? { mode: "replay", dir: replay }
+        : record
+        ? { mode: "record", dir: record }
+        : undefined
+    );
+  });
 
   await setupAnalyzeCLI(program);
   await setupAnalyzeCLIChat(program);
   await setupOrchestratedAnalyzeCLI(program);
   await setupOrchestratedAnalyzeCLIChat(program);
+  await setupStepsCLI(program);
+  await setupScreenshotCLI(program);
 
   return program;
 }
@@ -0,0 +1,78 @@
+import { displayTestStepTree } from "./cli.helper.service";
+import {
+  groupTraceFiles,
+  loadTraceFileStreams,
+} from "@/trace/services/load.trace.service";
+import { parseTraceStreams } from "@/trace/services/parse.trace.service";
+import { readTraceFileStream } from "@/trace/services/stream.trace.service";
+import { describeFailureLocation } from "@/trace/services/build.steps.service";
+import { redactor } from "@/trace/classes/redactor.class";
+import { logger } from "@/ui/classes/logger.class";
+import { Command } from "commander";
+
+const log = logger.child("cli");
+
+export async function setupStepsCLI(program: Command) {
+  program
+    .command("steps")
+    .description("Print the test step tree recorded in a Playwright trace")
+    .argument("<file>", "Path to trace file or zip archive")
+    .action(async (file: string) => {
+      const useJsonOutput = program.opts().json || false;
+
+      try {
+        const { files, resources } = await loadTraceFileStreams(file);
+        const {
+          traceFile,
+          networkFiles,
+          stacksFiles,
+          contextFiles,
+          sourceFiles,
+        } = groupTraceFiles(files);
+
+        if (!traceFile) {
+          throw new Error(
+            "Could not find test.trace or a browser context trace file in the provided path"
+          );
+        }
+
+        const parsedTrace = await parseTraceStreams(
+          traceFile,
+          networkFiles,
+          stacksFiles,
+          contextFiles,
+          {
+            sourceFiles: await Promise.all(
+              sourceFiles.map(readTraceFileStream)
+            ),
+            resources,
+          }
+        );
+
+        if (useJsonOutput) {
+          // Step titles and errors can show typed secrets too
+          const { steps, failureLocation } = redactor.redactTrace(parsedTrace);
+          console.log(
+            JSON.stringify(
+              {
+                steps,
+                failureLocation,
+                failedIn: failureLocation
+                  ? describeFailureLocation(failureLocation)
+                  : undefined,
+              },
+              null,
+              2
+            )
+          );
+        } else {
+          displayTestStepTree(parsedTrace);
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        log.error(`Failed to print the test steps: ${message}`);
+        if (useJsonOutput) console.log(JSON.stringify({ error: message }));
+        process.exitCode = 1;
+      }
+    });
+}
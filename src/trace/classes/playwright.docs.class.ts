@@ -6,6 +6,9 @@ import * as fs from "fs";
 import * as path from "path";
 import { MemoryVectorStore } from "langchain/vectorstores/memory";
 import { DocumentationChunk } from "../interfaces";
+import { logger } from "@/ui/classes/logger.class";
+
+const log = logger.child("docs");
 
 export class PlaywrightDocs {
   private vectorStore: MemoryVectorStore;
@@ -27,7 +30,7 @@ export class PlaywrightDocs {
 
   private log(message: string): void {
     if (this.verbose) {
-      console.log(`[PlaywrightDocs] ${message}`);
+      log.info(message);
     }
   }
 
@@ -49,7 +52,7 @@ export class PlaywrightDocs {
 
     // Check if directory exists
     if (!fs.existsSync(docsDir)) {
-      console.warn(`Documentation directory not found: ${docsDir}`);
+      log.warn(`Documentation directory not found: ${docsDir}`);
       // Create placeholder documentation
       await this.createPlaceholderDocs();
       return;
@@ -97,7 +100,7 @@ export class PlaywrightDocs {
       await this.vectorStore.addDocuments(documents);
       this.log("Documents added to vector store successfully.");
     } else {
-      console.warn("No documentation files found, creating placeholder docs");
+      log.warn("No documentation files found, creating placeholder docs");
       await this.createPlaceholderDocs();
     }
   }
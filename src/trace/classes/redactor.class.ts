@@ -0,0 +1,202 @@
+import {
+  ActionEvent,
+  ParsedTrace,
+  RedactionFinding,
+  RedactionReport,
+  RedactionRule,
+} from "@/trace";
+import {
+  BUILTIN_REDACTION_RULES,
+  SENSITIVE_HEADER_NAMES,
+  TEXT_INPUT_METHOD_PATTERN,
+} from "../services/redact.trace.service";
+
+// Selectors of fields that take credentials
+const SECRET_FIELD_PATTERN = /pass(word)?|passwd|pwd|secret|token|otp|\bpin\b/i;
+
+// Shorter typed values are not masked everywhere, they would match too much
+const MIN_TYPED_SECRET_LENGTH = 4;
+
+/**
+ * Masks secrets and personal data in trace data before it is sent to a model
+ * or saved, and reports what it masked where. Everything that sends or saves
+ * data of one run should share an instance, so the report covers the run.
+ */
+export class Redactor {
+  private rules: RedactionRule[];
+  private typedSecrets = new Set<string>();
+  private findings = new Map<string, RedactionFinding>();
+  private redactedTraces = new WeakMap<ParsedTrace, ParsedTrace>();
+
+  constructor(rules: RedactionRule[] = []) {
+    this.rules = [...BUILTIN_REDACTION_RULES, ...rules];
+  }
+
+  addRules(rules: RedactionRule[]): void {
+    this.rules.push(...rules);
+  }
+
+  /**
+   * Returns a redacted copy of the trace. Values typed into password fields
+   * are masked wherever they show up, in action parameters, logs and the DOM,
+   * and from then on in every text and value this redactor masks.
+   * Copies are kept, so a trace is redacted once however many agents use it.
+   */
+  redactTrace(trace: ParsedTrace): ParsedTrace {
+    const cached = this.redactedTraces.get(trace);
+    if (cached) return cached;
+
+    findTypedSecrets(trace.actions).forEach((secret) =>
+      this.typedSecrets.add(secret)
+    );
+
+    const redacted = this.redactNode(trace, "", this.activeRules());
+    this.redactedTraces.set(trace, redacted);
+    return redacted;
+  }
+
+  redactText(text: string, location: string): string {
+    return this.applyRules(text, location, this.activeRules());
+  }
+
+  /**
+   * Returns a redacted copy of any JSON-like value, such as saved results
+   */
+  redactValue<T>(value: T, location: string): T {
+    return this.redactNode(value, location, this.activeRules());
+  }
+
+  getReport(): RedactionReport {
+    const findings = Array.from(this.findings.values());
+    return {
+      count: findings.reduce((sum, finding) => sum + finding.count, 0),
+      findings,
+    };
+  }
+
+  // The rules, after a rule masking the secrets typed into the traces
+  // redacted so far. Typed secrets go first, before other rules can mask
+  // parts of them.
+  private activeRules(): RedactionRule[] {
+    if (this.typedSecrets.size === 0) return this.rules;
+
+    // Longest first, so a secret containing another one is masked whole
+    const secrets = Array.from(this.typedSecrets).sort(
+      (a, b) => b.length - a.length
+    );
+    return [
+      {
+        name: "password-fill",
+        pattern: new RegExp(secrets.map(escapeRegExp).join("|"), "g"),
+      },
+      ...this.rules,
+    ];
+  }
+
+  private redactNode(
+    value: any,
+    location: string,
+    rules: RedactionRule[]
+  ): any {
+    if (typeof value === "string") {
+      return this.applyRules(value, location, rules);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redactNode(item, `${location}[]`, rules));
+    }
+    if (!value || typeof value !== "object") return value;
+
+    // Headers recorded as { name, value } pairs, and password inputs of
+    // DOM snapshots
+    const headerPair =
+      typeof value.name === "string" &&
+      SENSITIVE_HEADER_NAMES.includes(value.name.toLowerCase());
+    const passwordInput =
+      typeof value.type === "string" && value.type.toLowerCase() === "password";
+
+    const copy: Record<string, any> = {};
+    for (const [key, child] of Object.entries(value)) {
+      const childLocation = location ? `${location}.${key}` : key;
+
+      if (typeof child !== "string") {
+        copy[key] = this.redactNode(child, childLocation, rules);
+      } else if (
+        SENSITIVE_HEADER_NAMES.includes(key.toLowerCase()) ||
+        (headerPair && key === "value")
+      ) {
+        copy[key] = this.mask("header", childLocation);
+      } else if (
+        passwordInput &&
+        (key === "value" || key === "__playwright_value_")
+      ) {
+        copy[key] = this.mask("password-fill", childLocation);
+      } else {
+        copy[key] = this.applyRules(child, childLocation, rules);
+      }
+    }
+    return copy;
+  }
+
+  private applyRules(
+    text: string,
+    location: string,
+    rules: RedactionRule[]
+  ): string {
+    for (const rule of rules) {
+      const matches = text.match(rule.pattern);
+      if (!matches) continue;
+
+      this.record(rule.name, location, matches.length);
+      text = text.replace(
+        rule.pattern,
+        rule.replacement ?? `[REDACTED:${rule.name}]`
+      );
+    }
+    return text;
+  }
+
+  private mask(rule: string, location: string): string {
+    this.record(rule, location, 1);
+    return `[REDACTED:${rule}]`;
+  }
+
+  private record(rule: string, location: string, count: number): void {
+    const key = `${rule}\u0000${location}`;
+    const finding = this.findings.get(key);
+    if (finding) finding.count += count;
+    else this.findings.set(key, { rule, location, count });
+  }
+}
+
+// Redactor shared by the agents and the CLI of a run, the CLI adds the rules
+// of the team's rules file to it
+export const redactor = new Redactor();
+
+// Helper function to collect the values typed into credential fields, known
+// by their selector or by the password input the selector matched
+function findTypedSecrets(actions: ActionEvent[]): string[] {
+  const secrets = new Set<string>();
+
+  for (const action of actions) {
+    const method = action.apiName || action.method || "";
+    const selector = action.selector || action.params?.selector || "";
+    if (
+      !TEXT_INPUT_METHOD_PATTERN.test(method) ||
+      (!SECRET_FIELD_PATTERN.test(selector) &&
+        action.targetInputType !== "password")
+    ) {
+      continue;
+    }
+
+    const value = action.value ?? action.params?.value ?? action.params?.text;
+    if (typeof value === "string" && value.length >= MIN_TYPED_SECRET_LENGTH) {
+      secrets.add(value);
+    }
+  }
+
+  return Array.from(secrets);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
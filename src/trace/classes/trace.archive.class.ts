@@ -0,0 +1,148 @@
+import * as path from "path";
+import { Open, File } from "unzipper";
+import { TraceFileStream, TraceResourceReader } from "@/trace";
+
+// Trace files an archive may contain, next to the resources/ directory
+const TRACE_FILE_PATTERN =
+  /^(test\.trace|(\d+)-trace\.(trace|network|stacks))$/;
+
+// Embedded test sources, named after the sha1 of their path
+const SOURCE_FILE_PATTERN = /^src@[0-9a-f]+\.txt$/;
+
+/**
+ * Read-only view of a Playwright trace zip. Only the zip's central directory
+ * is read up front, entries are decompressed in memory when requested.
+ */
+export class TraceArchive implements TraceResourceReader {
+  private entries = new Map<string, File>();
+  private resources = new Map<string, File>();
+  private traceDirectory = "";
+
+  private constructor(public readonly filePath: string, files: File[]) {
+    for (const file of files) {
+      if (file.type === "File") this.entries.set(file.path, file);
+    }
+
+    // Traces may be zipped inside a folder, use the shallowest one found
+    const traceEntries = this.listEntries().filter((entry) =>
+      TRACE_FILE_PATTERN.test(path.posix.basename(entry))
+    );
+    if (traceEntries.length > 0) {
+      this.traceDirectory = traceEntries
+        .map((entry) => path.posix.dirname(entry))
+        .sort((a, b) => a.split("/").length - b.split("/").length)[0];
+      if (this.traceDirectory === ".") this.traceDirectory = "";
+    }
+
+    // Index resources by name so sha1 lookups don't scan the whole archive
+    const resourcesPrefix = this.resolvePath("resources/");
+    for (const [entryPath, file] of this.entries) {
+      if (entryPath.startsWith(resourcesPrefix)) {
+        this.resources.set(entryPath.substring(resourcesPrefix.length), file);
+      }
+    }
+  }
+
+  /**
+   * Opens a trace zip without extracting it
+   */
+  static async open(filePath: string): Promise<TraceArchive> {
+    const directory = await Open.file(filePath);
+    return new TraceArchive(filePath, directory.files);
+  }
+
+  /**
+   * Lists the paths of all file entries in the archive
+   */
+  listEntries(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  hasEntry(entryPath: string): boolean {
+    return this.entries.has(entryPath);
+  }
+
+  /**
+   * Decompresses a single entry of the archive
+   */
+  async readEntry(entryPath: string): Promise<Buffer | undefined> {
+    const file = this.entries.get(entryPath);
+    return file ? file.buffer() : undefined;
+  }
+
+  /**
+   * Opens a single entry of the archive as a stream, decompressing it while
+   * it is read
+   */
+  openEntry(entryPath: string): NodeJS.ReadableStream | undefined {
+    const file = this.entries.get(entryPath);
+    return file ? file.stream() : undefined;
+  }
+
+  hasResource(sha1: string): boolean {
+    return this.resources.has(sha1);
+  }
+
+  /**
+   * Reads a blob from resources/ by its sha1 name
+   */
+  async readResource(sha1: string): Promise<Buffer | undefined> {
+    const file = this.resources.get(sha1);
+    return file ? file.buffer() : undefined;
+  }
+
+  /**
+   * Opens the runner trace and all browser context trace, network and stacks
+   * files as streams, so traces too large to decompress in memory can still be
+   * read record by record. test.trace comes first, followed by the context
+   * files ordered by their index.
+   */
+  openTraceFiles(): TraceFileStream[] {
+    return this.listTraceFilenames().map((filename) => {
+      const entryPath = this.resolvePath(filename);
+      return {
+        filename,
+        size: this.entries.get(entryPath)!.uncompressedSize,
+        open: () => this.openEntry(entryPath)!,
+      };
+    });
+  }
+
+  /**
+   * Opens the test sources Playwright embeds under resources/ when tracing
+   * with sources enabled
+   */
+  openSourceFiles(): TraceFileStream[] {
+    return Array.from(this.resources)
+      .filter(([name]) => SOURCE_FILE_PATTERN.test(name))
+      .map(([name, file]) => ({
+        filename: name,
+        size: file.uncompressedSize,
+        open: () => file.stream(),
+      }));
+  }
+
+  private listTraceFilenames(): string[] {
+    return this.listEntries()
+      .filter(
+        (entry) =>
+          path.posix.dirname(entry) === (this.traceDirectory || ".") &&
+          TRACE_FILE_PATTERN.test(path.posix.basename(entry))
+      )
+      .map((entry) => path.posix.basename(entry))
+      .sort(
+        (a, b) =>
+          getTraceFileOrder(a) - getTraceFileOrder(b) || a.localeCompare(b)
+      );
+  }
+
+  private resolvePath(name: string): string {
+    return this.traceDirectory ? `${this.traceDirectory}/${name}` : name;
+  }
+}
+
+// Helper function to put test.trace before the numbered context files
+function getTraceFileOrder(filename: string): number {
+  const match = filename.match(TRACE_FILE_PATTERN);
+  return match && match[2] !== undefined ? Number(match[2]) : -1;
+}
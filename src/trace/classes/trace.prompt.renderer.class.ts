@@ -0,0 +1,371 @@
+import {
+  ActionEvent,
+  ParsedTrace,
+  TracePromptBudget,
+  TracePromptSection,
+  describeAttachment,
+  describeFailureLocation,
+  describeLocatorEvidence,
+  describePageEvents,
+  findFailingAction,
+  formatConsoleLocation,
+  formatSourceLocation,
+  groupConsoleMessages,
+  isApiRequest,
+  isFailedRequest,
+} from "@/trace";
+
+// Rough number of characters per token, close enough to budget English text,
+// URLs and code
+const CHARACTERS_PER_TOKEN = 4;
+
+// Items recorded this long before the failing action started, or after it
+// ended, are ranked as part of the failure
+const FAILURE_WINDOW_BEFORE_MS = 10000;
+const FAILURE_WINDOW_AFTER_MS = 2000;
+
+// Characters of a failed request's response shown with the request
+const MAX_RESPONSE_EXCERPT_LENGTH = 300;
+
+export const DEFAULT_TRACE_PROMPT_BUDGET: Required<TracePromptBudget> = {
+  actions: 2500,
+  errors: 1500,
+  pageEvents: 500,
+  testOutput: 800,
+  attachments: 800,
+  network: 2000,
+  console: 1200,
+  failureDom: 2000,
+  locatorEvidence: 400,
+};
+
+// A line of a section, with what decides whether it's kept and how it's
+// counted when it's left out
+interface RankedLine {
+  text: string;
+  score: number;
+  time?: number;
+  category: string;
+}
+
+/**
+ * Estimates how many tokens a text takes in a prompt
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARACTERS_PER_TOKEN);
+}
+
+/**
+ * Renders the sections of a trace for a prompt, each within its token budget.
+ * Lines are ranked by relevance to the failure: the failing action, errors and
+ * failed requests first, then what happened close to the failing action. Kept
+ * lines are listed in the order they were recorded, the rest is summarized
+ * with counts.
+ */
+export class TracePromptRenderer {
+  private budget: Required<TracePromptBudget>;
+  private failingAction?: ActionEvent;
+  private failureWindow: { start: number; end: number };
+
+  constructor(
+    private readonly trace: ParsedTrace,
+    budget: TracePromptBudget = {}
+  ) {
+    this.budget = { ...DEFAULT_TRACE_PROMPT_BUDGET, ...budget };
+    this.failingAction = findFailingAction(
+      trace.actions,
+      trace.failureLocation
+    );
+
+    const failureStart =
+      this.failingAction?.startTime ??
+      this.failingAction?.timestamp ??
+      trace.errors[0]?.timestamp ??
+      trace.duration.end;
+    const failureEnd = this.failingAction?.endTime ?? failureStart;
+    this.failureWindow = {
+      start: failureStart - FAILURE_WINDOW_BEFORE_MS,
+      end: failureEnd + FAILURE_WINDOW_AFTER_MS,
+    };
+  }
+
+  /**
+   * Describes the test and how much the trace recorded. Always rendered whole.
+   */
+  renderSummary(): string {
+    const { trace } = this;
+    return `
+Title: ${trace.testTitle || "Unknown Test"}
+File: ${trace.testFile || "Unknown File"}
+Browser: ${trace.browser.name}${
+      trace.browser.version ? ` v${trace.browser.version}` : ""
+    }
+Duration: ${Math.round(trace.duration.total / 1000)}s
+Status: ${trace.testResult.status.toUpperCase()}
+${trace.testResult.error ? `Error: ${trace.testResult.error.message}` : ""}
+${
+  trace.failureLocation
+    ? `Failure Location: ${describeFailureLocation(trace.failureLocation)}`
+    : ""
+}
+Actions Count: ${trace.actions.length}
+Network Requests Count: ${trace.networkRequests.length}
+Console Messages Count: ${trace.consoleMessages.length}
+    `
+      .trim()
+      .replace(/\n{2,}/g, "\n");
+  }
+
+  renderActions(): string {
+    if (this.trace.actions.length === 0) {
+      return "No actions recorded.";
+    }
+
+    const lines = this.trace.actions.map((action) => {
+      const status = action.error ? "FAILED" : "PASSED";
+      const time = action.startTime ?? action.timestamp;
+      return {
+        text: `[${formatTime(time)}] ${status} - ${action.type}${
+          action.selector ? ` "${action.selector}"` : ""
+        }${action.value ? ` with value "${action.value}"` : ""}${
+          action.location ? ` at ${formatSourceLocation(action.location)}` : ""
+        }${action.error ? ` - Error: ${action.error}` : ""}`,
+        score:
+          (action === this.failingAction ? 100 : 0) +
+          (action.error ? 50 : 0) +
+          (this.isInFailureWindow(time) ? 10 : 0),
+        time,
+        category: status.toLowerCase(),
+      };
+    });
+    return this.fitLines("actions", lines, "actions");
+  }
+
+  renderErrors(): string {
+    if (this.trace.errors.length === 0) {
+      return "No errors recorded.";
+    }
+
+    const lines = this.trace.errors.map((error) => ({
+      text: `[${formatTime(error.timestamp)}] ${error.message}${
+        error.stack ? `\nStack: ${error.stack}` : ""
+      }`,
+      score: this.isInFailureWindow(error.timestamp) ? 10 : 0,
+      time: error.timestamp,
+      category: "errors",
+    }));
+    return this.fitLines("errors", lines, "errors", "\n\n");
+  }
+
+  renderPageEvents(): string {
+    return this.fitText(
+      "pageEvents",
+      describePageEvents(this.trace) ||
+        "No page errors, dialogs, downloads or file choosers recorded."
+    );
+  }
+
+  /**
+   * The DOM of the page at the failure, cut to its budget
+   */
+  renderFailureDom(): string {
+    return this.fitText(
+      "failureDom",
+      this.trace.failureDom || "No DOM snapshot recorded at the failure."
+    );
+  }
+
+  /**
+   * What the failing selector matched in the recorded DOM snapshots
+   */
+  renderLocatorEvidence(): string {
+    return this.fitText(
+      "locatorEvidence",
+      this.trace.locatorEvidence
+        ? describeLocatorEvidence(this.trace.locatorEvidence)
+        : "No locator check recorded."
+    );
+  }
+
+  renderTestOutput(): string {
+    if (this.trace.testOutput.length === 0) {
+      return "No test output recorded.";
+    }
+
+    const lines = this.trace.testOutput.map((line) => ({
+      text: `[${formatTime(line.timestamp)}] ${line.stream.toUpperCase()}: ${
+        line.text
+      }`,
+      score:
+        (line.stream === "stderr" ? 20 : 0) +
+        (this.isInFailureWindow(line.timestamp) ? 10 : 0),
+      time: line.timestamp,
+      category: line.stream,
+    }));
+    return this.fitLines("testOutput", lines, "output lines");
+  }
+
+  renderAttachments(): string {
+    if (this.trace.attachments.length === 0) {
+      return "No attachments recorded.";
+    }
+
+    const lines = this.trace.attachments.map((attachment) => ({
+      text: `- ${describeAttachment(attachment)}${
+        attachment.body ? `\n${attachment.body}` : ""
+      }`,
+      score: 0,
+      category: attachment.contentType,
+    }));
+    return this.fitLines("attachments", lines, "attachments");
+  }
+
+  renderNetwork(): string {
+    if (this.trace.networkRequests.length === 0) {
+      return "No network requests recorded.";
+    }
+
+    const lines = this.trace.networkRequests.map((request) => {
+      const time = request.timing?.startTime ?? request.timestamp;
+      const status = request.status
+        ? `${request.status} ${request.statusText || ""}`
+        : "No response";
+      const duration = request.timing?.duration
+        ? `${Math.round(request.timing.duration)}ms`
+        : "N/A";
+      const failed = isFailedRequest(request);
+      // What the server answered usually says why a request failed
+      const responseBody =
+        failed && request.responseBody
+          ? `\n  Response: ${request.responseBody.substring(
+              0,
+              MAX_RESPONSE_EXCERPT_LENGTH
+            )}`
+          : "";
+
+      return {
+        text: `[${formatTime(time)}] ${request.method} ${
+          request.url
+        } - ${status} (${duration})${
+          request.error ? ` - Error: ${request.error}` : ""
+        }${responseBody}`,
+        score:
+          (failed ? 50 : 0) +
+          (this.isInFailureWindow(time) ? 10 : 0) +
+          (isApiRequest(request) ? 5 : 0),
+        time,
+        category: request.status ? String(request.status) : "no response",
+      };
+    });
+    return this.fitLines("network", lines, "requests");
+  }
+
+  renderConsole(): string {
+    if (this.trace.consoleMessages.length === 0) {
+      return "No console messages recorded.";
+    }
+
+    // Repeated messages are listed once with their count
+    const lines = groupConsoleMessages(this.trace.consoleMessages).map(
+      (group) => ({
+        text: `[${formatTime(
+          group.firstTimestamp
+        )}] ${group.type.toUpperCase()}${
+          group.count > 1 ? ` (x${group.count})` : ""
+        }: ${group.text}${
+          group.location ? ` at ${formatConsoleLocation(group.location)}` : ""
+        }`,
+        score:
+          (group.type === "error" ? 50 : group.type === "warning" ? 20 : 0) +
+          (this.isInFailureWindow(group.firstTimestamp) ? 10 : 0),
+        time: group.firstTimestamp,
+        category: group.type,
+      })
+    );
+    return this.fitLines("console", lines, "console messages");
+  }
+
+  /**
+   * Keeps the highest ranked lines that fit the section's budget, lists them
+   * in their original order and counts the rest by category
+   */
+  private fitLines(
+    section: TracePromptSection,
+    lines: RankedLine[],
+    noun: string,
+    separator: string = "\n"
+  ): string {
+    const maxLength = this.budget[section] * CHARACTERS_PER_TOKEN;
+    const ranked = lines
+      .map((line, index) => ({ ...line, index }))
+      .sort(
+        (a, b) =>
+          b.score - a.score ||
+          this.distanceToFailure(a.time) - this.distanceToFailure(b.time) ||
+          a.index - b.index
+      );
+
+    const kept = new Map<number, string>();
+    let length = 0;
+    for (const line of ranked) {
+      // The most relevant line is always kept, cut to the budget if need be
+      const text = kept.size === 0 ? truncate(line.text, maxLength) : line.text;
+      if (
+        length + text.length + separator.length > maxLength &&
+        kept.size > 0
+      ) {
+        continue;
+      }
+      kept.set(line.index, text);
+      length += text.length + separator.length;
+    }
+
+    const shown = Array.from(kept.keys())
+      .sort((a, b) => a - b)
+      .map((index) => kept.get(index));
+    const omitted = lines.filter((_, index) => !kept.has(index));
+    if (omitted.length === 0) return shown.join(separator);
+
+    const counts = new Map<string, number>();
+    for (const line of omitted) {
+      counts.set(line.category, (counts.get(line.category) || 0) + 1);
+    }
+    return `${shown.join(separator)}${separator}... ${
+      omitted.length
+    } more ${noun} not shown (${Array.from(counts)
+      .map(([category, count]) => `${category}: ${count}`)
+      .join(", ")})`;
+  }
+
+  private fitText(section: TracePromptSection, text: string): string {
+    return truncate(text, this.budget[section] * CHARACTERS_PER_TOKEN);
+  }
+
+  private isInFailureWindow(time?: number): boolean {
+    return this.distanceToFailure(time) === 0;
+  }
+
+  private distanceToFailure(time?: number): number {
+    if (time === undefined) return Infinity;
+    if (time < this.failureWindow.start) return this.failureWindow.start - time;
+    if (time > this.failureWindow.end) return time - this.failureWindow.end;
+    return 0;
+  }
+}
+
+// Helper function to format a timestamp as a time of day. Partial records
+// can leave times unset, NaN or out of the range of dates.
+function formatTime(timestamp?: number): string {
+  if (timestamp === undefined || !Number.isFinite(timestamp)) return "N/A";
+  const date = new Date(timestamp);
+  if (isNaN(date.getTime())) return "N/A";
+  return date.toISOString().split("T")[1].split("Z")[0];
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength
+    ? `${text.substring(0, maxLength)}... (${
+        text.length - maxLength
+      } more characters)`
+    : text;
+}
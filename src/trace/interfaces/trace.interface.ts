@@ -1,20 +1,90 @@
+import { Logger } from "@/ui";
+
 // Trace file types
 export interface TraceFile {
   filename: string;
   content: Buffer | string;
 }
 
+// A trace file that is read as a stream instead of being loaded whole
+export interface TraceFileStream {
+  filename: string;
+  // Uncompressed size in bytes, when known up front
+  size?: number;
+  open(): NodeJS.ReadableStream;
+}
+
+// Trace files opened for streaming, and the resources of their archive when
+// they came from one
+export interface TraceFileStreams {
+  files: TraceFileStream[];
+  resources?: TraceResourceReader;
+}
+
+// Trace files of one archive, grouped by their role
+export interface TraceFileGroup<T extends { filename: string } = TraceFile> {
+  traceFile?: T;
+  // Network and stacks files of the browser context traces, in context order
+  networkFiles: T[];
+  stacksFiles: T[];
+  contextFiles: T[];
+  // Test sources Playwright embeds as resources/src@<sha1>.txt
+  sourceFiles: T[];
+}
+
+export interface ParseTraceOptions {
+  sourceFiles?: TraceFile[];
+  // Directory to look for test sources in when the trace doesn't embed them
+  sourceRoot?: string;
+  // Called as trace files are streamed, see parseTraceStreams
+  onProgress?: (progress: ParseProgress) => void;
+  // Logs the parser's progress, a "parse" child of the root logger by default
+  logger?: Logger;
+  // Resources of the trace archive, to read the bodies of failed and API
+  // requests from
+  resources?: TraceResourceReader;
+}
+
+// How far streaming a trace file has got
+export interface ParseProgress {
+  file: string;
+  bytesRead: number;
+  totalBytes?: number;
+  records: number;
+}
+
+// Reads blobs stored under resources/ in a trace archive by their sha1 name
+export interface TraceResourceReader {
+  readResource(sha1: string): Promise<Buffer | undefined>;
+}
+
+// HAR timing phases in milliseconds, -1 when a phase did not apply
+export interface NetworkTimings {
+  blocked?: number;
+  dns?: number;
+  connect?: number;
+  ssl?: number;
+  send?: number;
+  wait?: number;
+  receive?: number;
+}
+
 export interface NetworkRequest {
   requestId?: string;
   url: string;
   method: string;
   status?: number;
   statusText?: string;
+  httpVersion?: string;
   headers?: Record<string, string>;
   requestHeaders?: Record<string, string>;
   responseHeaders?: Record<string, string>;
   requestBody?: string;
   responseBody?: string;
+  // Bodies of resource snapshots are kept in resources/ and read on demand
+  requestBodySha1?: string;
+  responseBodySha1?: string;
+  requestMimeType?: string;
   timestamp?: number;
   responseTimestamp?: number;
   mimeType?: string;
@@ -24,29 +94,383 @@ export interface NetworkRequest {
     endTime?: number;
     duration?: number;
   };
+  timings?: NetworkTimings;
+  serverIPAddress?: string;
+  serverPort?: number;
+  transferSize?: number;
+  redirectURL?: string;
+  pageId?: string;
+  frameId?: string;
   error?: string;
 }
 
 export interface ConsoleMessage {
-  type: "log" | "info" | "warning" | "error";
+  type: ConsoleMessageType;
   text: string;
+  // Every argument passed to the console call, as the browser previewed it
+  args?: string[];
+  // Script position the message was logged from
+  location?: ConsoleLocation;
   timestamp: number;
   stackTrace?: string;
+  pageId?: string;
+  frameId?: string;
+}
+
+export type ConsoleMessageType = "log" | "debug" | "info" | "warning" | "error";
+
+export interface ConsoleLocation {
+  url: string;
+  lineNumber: number;
+  columnNumber: number;
+}
+
+// Identical console messages folded together
+export interface ConsoleMessageGroup {
+  type: ConsoleMessageType;
+  text: string;
+  location?: ConsoleLocation;
+  count: number;
+  firstTimestamp: number;
+  lastTimestamp: number;
+  pageId?: string;
+}
+
+export interface PageInfo {
+  pageId: string;
+  mainFrameId?: string;
+  // Page that opened this one, set for popups
+  openerPageId?: string;
+  createdAt?: number;
+  closedAt?: number;
+  viewport?: { width: number; height: number };
+  navigations: NavigationEvent[];
+}
+
+export interface FrameInfo {
+  frameId: string;
+  pageId?: string;
+  parentFrameId?: string;
+  name?: string;
+  // Last URL the frame navigated to
+  url?: string;
+  isMainFrame: boolean;
+  attachedAt?: number;
+  detachedAt?: number;
+}
+
+export interface NavigationEvent {
+  pageId: string;
+  frameId?: string;
+  url: string;
+  timestamp: number;
+  // False for same-document navigations such as history.pushState()
+  newDocument: boolean;
+  // URLs the navigation request was redirected through, in order
+  redirects: string[];
+  domContentLoadedAt?: number;
+  loadAt?: number;
+}
+
+// Uncaught exception thrown by the page's own scripts
+export interface PageError {
+  message: string;
+  name?: string;
+  stack?: string;
+  timestamp: number;
+  pageId?: string;
+}
+
+export interface DialogEvent {
+  // alert, confirm, prompt or beforeunload
+  type: string;
+  message: string;
+  defaultValue?: string;
+  timestamp: number;
+  pageId?: string;
+  // How the test answered the dialog, unset when nothing handled it and
+  // Playwright dismissed it
+  handledBy?: "accept" | "dismiss";
+  promptText?: string;
+}
+
+export interface DownloadEvent {
+  url: string;
+  suggestedFilename?: string;
+  timestamp: number;
+  pageId?: string;
+}
+
+export interface FileChooserEvent {
+  isMultiple: boolean;
+  timestamp: number;
+  pageId?: string;
+}
+
+// Browser and context setup the test ran with, from "context-options" records
+export interface TraceEnvironment {
+  browserName?: string;
+  browserVersion?: string;
+  channel?: string;
+  platform?: string;
+  sdkLanguage?: string;
+  playwrightVersion?: string;
+  // Version of the trace format, not of Playwright
+  traceVersion?: number;
+  viewport?: { width: number; height: number };
+  deviceScaleFactor?: number;
+  locale?: string;
+  timezoneId?: string;
+  baseURL?: string;
+  userAgent?: string;
+  colorScheme?: string;
+  isMobile?: boolean;
+  hasTouch?: boolean;
+}
+
+// Line the test or the runner printed while the test ran
+export interface TestOutputLine {
+  stream: "stdout" | "stderr";
+  text: string;
+  timestamp: number;
+}
+
+export interface TestAttachment {
+  name: string;
+  contentType: string;
+  // Path on the machine that ran the test
+  path?: string;
+  // Name of the copy in the resources folder of the trace
+  sha1?: string;
+  // Inline body of text attachments
+  body?: string;
+  timestamp?: number;
+  // Step the attachment was added in
+  callId?: string;
+}
+
+export interface ScreenshotData {
+  timestamp: number;
+  data?: string; // Base64 encoded image, only for traces with inline frames
+  sha1?: string; // Screencast frame stored under resources/
+  pageId?: string;
+  width?: number;
+  height?: number;
+  title?: string;
+}
+
+// Serialized DOM of one frame from a "frame-snapshot" record
+export interface FrameSnapshot {
+  snapshotName: string;
+  callId?: string;
+  pageId: string;
+  frameId: string;
+  frameUrl: string;
+  doctype?: string;
+  // Node tree of [tag, attributes, ...children] arrays and text strings.
+  // Unchanged subtrees are [[snapshotsAgo, nodeIndex]] references into an
+  // earlier snapshot of the same frame.
+  html: any;
+  viewport?: { width: number; height: number };
+  timestamp: number;
+  isMainFrame?: boolean;
+}
+
+// Element of the DOM tree rebuilt from a frame snapshot
+export interface SnapshotElement {
+  tag: string;
+  attributes: Record<string, string>;
+  children: (SnapshotElement | string)[];
+  parent?: SnapshotElement;
+  // Position in document order
+  index: number;
+}
+
+export interface SnapshotRenderOptions {
+  pageId?: string;
+  // Frame to render, defaults to the page's main frame
+  frameId?: string;
+  // Drop head, scripts, styles and noise attributes for prompts
+  trim?: boolean;
+  maxLength?: number;
+}
+
+export interface LocatorSnapshotMatch {
+  snapshotName: string;
+  count: number;
+  // Short descriptions of the first matched elements
+  elements: string[];
+}
+
+// Result of re-running the failing action's selector against its snapshots
+export interface LocatorEvidence {
+  callId: string;
+  selector: string;
+  before?: LocatorSnapshotMatch;
+  after?: LocatorSnapshotMatch;
+  // Set when the selector uses syntax that can't be evaluated offline
+  unsupported?: string;
+}
+
+export interface ActionLogEntry {
+  time: number;
+  message: string;
 }
 
 export interface ActionEvent {
   type: string;
+  callId?: string;
+  parentId?: string;
+  // Runner step a browser-side library call was issued from
+  stepId?: string;
+  // Browser-side library call folded into this runner step
+  libraryCallId?: string;
+  apiName?: string;
+  class?: string;
+  method?: string;
   selector?: string;
   value?: string;
+  params?: Record<string, any>;
   timestamp: number;
+  wallTime?: number;
+  startTime?: number;
+  endTime?: number;
   duration?: number;
+  pageId?: string;
+  frameId?: string;
+  inputPoint?: { x: number; y: number };
+  logs?: ActionLogEntry[];
+  // Names of the DOM snapshots taken around the action
+  beforeSnapshot?: string;
+  inputSnapshot?: string;
+  afterSnapshot?: string;
+  // Type of the input element text was typed into, from the snapshot taken
+  // before typing
+  targetInputType?: string;
+  // Closest screencast frames of the action's page around its execution
+  frameBefore?: ScreenshotData;
+  frameAfter?: ScreenshotData;
+  // Call stack of the action, innermost frame first
+  stack?: StackFrame[];
+  // Innermost frame of the stack that belongs to the test code
+  location?: StackFrame;
   error?: string;
 }
 
-export interface ScreenshotData {
-  timestamp: number;
-  data: string; // Base64 encoded image
-  title?: string;
+export interface StackFrame {
+  file: string;
+  line: number;
+  column: number;
+  function?: string;
+}
+
+// Lines of test source around a location
+export interface SourceExcerpt {
+  file: string;
+  line: number;
+  column: number;
+  startLine: number;
+  lines: string[];
+}
+
+export type TestStepCategory =
+  | "hooks"
+  | "hook"
+  | "fixture"
+  | "step"
+  | "expect"
+  | "api"
+  | "other";
+
+export type TestPhase = "beforeHooks" | "test" | "afterHooks";
+
+// A runner step from test.trace with its nested child steps
+export interface TestStepNode {
+  callId: string;
+  title: string;
+  category: TestStepCategory;
+  phase: TestPhase;
+  startTime?: number;
+  endTime?: number;
+  duration?: number;
+  error?: string;
+  children: TestStepNode[];
+}
+
+export interface FailureLocation {
+  scope: "hook" | "fixture" | "test";
+  phase: TestPhase;
+  callId: string;
+  stepPath: string[];
+}
+
+// Matcher details parsed from the message of a failed expect() assertion
+export interface AssertionFailure {
+  matcher: string;
+  // What was asserted on, such as "locator", "page" or "received"
+  subject: string;
+  negated: boolean;
+  locator?: string;
+  expected?: string;
+  received?: string;
+  timeout?: number;
+  timedOut: boolean;
+  callLog: string[];
+}
+
+export type FailureCategory =
+  | "testTimeout"
+  | "actionTimeout"
+  | "expectTimeout"
+  | "assertionFailure"
+  | "strictModeViolation"
+  | "elementDetached"
+  | "elementNotVisible"
+  | "pointerIntercepted"
+  | "navigationError"
+  | "navigationInterrupted"
+  | "targetClosed"
+  | "unknown";
+
+// What kind of failure a trace shows, with the line that gave it away
+export interface FailureClassification {
+  category: FailureCategory;
+  label: string;
+  evidence?: string;
+  callId?: string;
+}
+
+// Problems the parser ran into while reading the files of a trace
+export interface ParseDiagnostics {
+  // How the main trace file was read
+  format: "ndjson" | "json" | "binary";
+  // Trace format versions found in "context-options" records
+  traceVersions: number[];
+  // Versions older than the newest one with record schemas, that have none
+  unsupportedVersions: number[];
+  // Versions newer than those with record schemas, checked against the
+  // newest schemas
+  newerVersions: number[];
+  unknownRecordTypes: { file: string; type: string; count: number }[];
+  malformedLines: { file: string; line: number; preview: string }[];
+  // Records that don't match the schema of their type, the first few only
+  invalidRecords: {
+    file: string;
+    // Position of the record in its file, starting at 1
+    record: number;
+    type: string;
+    issues: string[];
+  }[];
+  invalidRecordCount: number;
+  // Files a complete trace has next to the ones found
+  missingFiles: string[];
+}
+
+// Checks the records of one trace file against their schemas as they are read
+export interface TraceRecordValidator {
+  validate(record: any): void;
+  // Notes what the file had no schemas for, once it is read
+  finish(): void;
 }
 
 export interface ParsedTrace {
@@ -57,14 +481,35 @@ export interface ParsedTrace {
     version?: string;
     platform?: string;
   };
+  environment: TraceEnvironment;
   actions: ActionEvent[];
+  steps: TestStepNode[];
+  failureLocation?: FailureLocation;
+  failureCategory?: FailureClassification;
+  pages: PageInfo[];
+  frames: FrameInfo[];
+  pageErrors: PageError[];
+  dialogs: DialogEvent[];
+  downloads: DownloadEvent[];
+  fileChoosers: FileChooserEvent[];
+  testOutput: TestOutputLine[];
+  attachments: TestAttachment[];
   networkRequests: NetworkRequest[];
   consoleMessages: ConsoleMessage[];
   screenshots: ScreenshotData[];
+  // DOM snapshots of the failing action, with their references resolved
+  snapshots: FrameSnapshot[];
+  // Trimmed HTML of the page at the moment the failing action finished
+  failureDom?: string;
+  locatorEvidence?: LocatorEvidence;
+  // Test code the failing action was called from
+  failingLine?: StackFrame;
+  failingSource?: SourceExcerpt;
   errors: {
     message: string;
     stack?: string;
     timestamp: number;
+    assertion?: AssertionFailure;
   }[];
   duration: {
     start: number;
@@ -78,4 +523,42 @@ export interface ParsedTrace {
       stack?: string;
     };
   };
+  diagnostics: ParseDiagnostics;
+}
+
+// A pattern whose matches are masked before trace data is sent or saved
+export interface RedactionRule {
+  name: string;
+  pattern: RegExp;
+  // May refer to groups of the pattern, [REDACTED:<name>] by default
+  replacement?: string;
 }
+
+// Values one rule masked at one place of the trace, such as
+// "networkRequests[].requestHeaders.authorization"
+export interface RedactionFinding {
+  rule: string;
+  location: string;
+  count: number;
+}
+
+export interface RedactionReport {
+  count: number;
+  findings: RedactionFinding[];
+}
+
+// Sections of a trace that TracePromptRenderer fits into a token budget
+export type TracePromptSection =
+  | "actions"
+  | "errors"
+  | "pageEvents"
+  | "testOutput"
+  | "attachments"
+  | "network"
+  | "console"
+  | "failureDom"
+  | "locatorEvidence";
+
+// Tokens each section may take in a prompt, sections left out get the
+// renderer's defaults
+export type TracePromptBudget = Partial<Record<TracePromptSection, number>>;
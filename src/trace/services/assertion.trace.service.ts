@@ -0,0 +1,126 @@
+import { AssertionFailure, ParsedTrace } from "@/trace";
+
+// First line of an assertion error, e.g. expect(locator).not.toHaveText(expected)
+const MATCHER_PATTERN = /expect(?:\.soft|\.poll)?\((\w+)\)\.(not\.)?(\w+)\(/;
+
+// "Expected string: ...", "Received: ..." and similar detail lines
+const DETAIL_PATTERN =
+  /^(Locator|Expected|Received|Timeout)(?: [a-z ]+)?:\s*(.*)$/;
+
+/**
+ * Parses the message of a failed expect() assertion into its matcher,
+ * expected and received values. Returns undefined for other errors.
+ */
+export function parseAssertionError(
+  message: string
+): AssertionFailure | undefined {
+  const match = message.match(MATCHER_PATTERN);
+  if (!match) return undefined;
+
+  const failure: AssertionFailure = {
+    subject: match[1],
+    negated: match[2] !== undefined,
+    matcher: match[3],
+    timedOut: /Timed out \d+ms/.test(message),
+    callLog: [],
+  };
+
+  const timedOutMatch = message.match(/Timed out (\d+)ms/);
+  if (timedOutMatch) failure.timeout = Number(timedOutMatch[1]);
+
+  let inCallLog = false;
+  for (const rawLine of message.split("\n")) {
+    const line = rawLine.trim();
+
+    if (line === "Call log:") {
+      inCallLog = true;
+      continue;
+    }
+    if (inCallLog) {
+      if (line.startsWith("-")) {
+        failure.callLog.push(line.replace(/^-\s*/, ""));
+        continue;
+      }
+      // The stack follows the call log
+      if (line.startsWith("at ")) break;
+      continue;
+    }
+
+    const detail = line.match(DETAIL_PATTERN);
+    if (!detail) continue;
+
+    const [, key, value] = detail;
+    switch (key) {
+      case "Locator":
+        failure.locator = failure.locator ?? value;
+        break;
+      case "Expected":
+        // Negated matchers print the value as `not "..."`
+        failure.expected =
+          failure.expected ??
+          (failure.negated ? value.replace(/^not\s+/, "") : value);
+        break;
+      case "Received":
+        failure.received = failure.received ?? value;
+        break;
+      case "Timeout": {
+        const timeout = value.match(/^(\d+)ms/);
+        if (timeout) {
+          failure.timeout = Number(timeout[1]);
+          failure.timedOut = true;
+        }
+        break;
+      }
+    }
+  }
+
+  // Older versions only mention the timeout in the call log
+  if (failure.timeout === undefined) {
+    for (const entry of failure.callLog) {
+      const timeout = entry.match(/with timeout (\d+)ms/);
+      if (timeout) {
+        failure.timeout = Number(timeout[1]);
+        break;
+      }
+    }
+  }
+
+  return failure;
+}
+
+/**
+ * Finds the first failed assertion of a trace
+ */
+export function findAssertionFailure(
+  trace: ParsedTrace
+): AssertionFailure | undefined {
+  return trace.errors.find((error) => error.assertion)?.assertion;
+}
+
+/**
+ * Formats an assertion failure as a short multi-line summary
+ */
+export function describeAssertionFailure(failure: AssertionFailure): string {
+  const lines = [
+    `expect(${failure.subject}).${failure.negated ? "not." : ""}${
+      failure.matcher
+    }`,
+  ];
+
+  if (failure.locator) lines.push(`Locator: ${failure.locator}`);
+  if (failure.expected !== undefined) {
+    lines.push(`Expected: ${failure.negated ? "not " : ""}${failure.expected}`);
+  }
+  if (failure.received !== undefined) {
+    lines.push(`Received: ${failure.received}`);
+  }
+  if (failure.timedOut) {
+    lines.push(
+      failure.timeout !== undefined
+        ? `Timed out after ${failure.timeout}ms`
+        : "Timed out"
+    );
+  }
+
+  return lines.join("\n");
+}
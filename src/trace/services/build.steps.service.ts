@@ -0,0 +1,178 @@
+import {
+  ActionEvent,
+  FailureLocation,
+  TestPhase,
+  TestStepCategory,
+  TestStepNode,
+} from "@/trace";
+
+/**
+ * Builds the hierarchical step tree from the runner's test.trace actions
+ * using their parentId links
+ */
+export function buildTestStepTree(actions: ActionEvent[]): TestStepNode[] {
+  // Only runner steps (class "Test") take part in the step hierarchy
+  const runnerActions = actions.filter(
+    (action) => action.callId && action.class === "Test"
+  );
+
+  const nodesByCallId = new Map<string, TestStepNode>();
+  for (const action of runnerActions) {
+    nodesByCallId.set(action.callId!, {
+      callId: action.callId!,
+      title: action.apiName || action.type,
+      category: getStepCategory(action),
+      phase: "test",
+      startTime: action.startTime,
+      endTime: action.endTime,
+      duration: action.duration,
+      error: action.error,
+      children: [],
+    });
+  }
+
+  const roots: TestStepNode[] = [];
+  for (const action of runnerActions) {
+    const node = nodesByCallId.get(action.callId!)!;
+    const parent = action.parentId
+      ? nodesByCallId.get(action.parentId)
+      : undefined;
+
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  // Hooks run before or after the test body, whatever their title says.
+  // Roots are in the order they started, and a test whose body recorded no
+  // steps only has the runner's "After Hooks" group to tell the two apart.
+  let afterBody = false;
+  for (const root of roots) {
+    if (root.category !== "hooks" && root.category !== "hook") {
+      afterBody = true;
+      assignPhase(root, "test");
+      continue;
+    }
+    if (root.title === "After Hooks") afterBody = true;
+    assignPhase(root, afterBody ? "afterHooks" : "beforeHooks");
+  }
+
+  return roots;
+}
+
+/**
+ * Finds where the test failed by locating the deepest failing step
+ */
+export function findFailureLocation(
+  steps: TestStepNode[]
+): FailureLocation | undefined {
+  const failingPath = findDeepestFailingPath(steps, []);
+  if (!failingPath) return undefined;
+
+  const failingStep = failingPath[failingPath.length - 1];
+  let scope: FailureLocation["scope"] = "test";
+  if (failingPath.some((step) => step.category === "fixture")) {
+    scope = "fixture";
+  } else if (failingStep.phase !== "test") {
+    scope = "hook";
+  }
+
+  return {
+    scope,
+    phase: failingStep.phase,
+    callId: failingStep.callId,
+    stepPath: failingPath.map((step) => step.title),
+  };
+}
+
+/**
+ * Finds the action that failed the test, preferring the failing runner step
+ */
+export function findFailingAction(
+  actions: ActionEvent[],
+  failureLocation?: FailureLocation
+): ActionEvent | undefined {
+  return (
+    (failureLocation &&
+      actions.find((action) => action.callId === failureLocation.callId)) ||
+    [...actions].reverse().find((action) => action.error)
+  );
+}
+
+/**
+ * Describes a failure location in one line for prompts and CLI output
+ */
+export function describeFailureLocation(location: FailureLocation): string {
+  const scopeLabel =
+    location.scope === "fixture"
+      ? "fixture"
+      : location.scope === "hook"
+      ? "hook"
+      : "test body";
+  return `${scopeLabel} (${location.stepPath.join(" › ")})`;
+}
+
+/**
+ * Renders the step tree as indented text lines
+ */
+export function formatTestStepTree(
+  steps: TestStepNode[],
+  indent: string = "  "
+): string[] {
+  const lines: string[] = [];
+
+  const visit = (step: TestStepNode, depth: number) => {
+    const duration =
+      step.duration !== undefined ? ` (${Math.round(step.duration)}ms)` : "";
+    const status = step.error ? " ✗" : "";
+    lines.push(`${indent.repeat(depth)}${step.title}${duration}${status}`);
+    step.children.forEach((child) => visit(child, depth + 1));
+  };
+
+  steps.forEach((step) => visit(step, 0));
+  return lines;
+}
+
+// Helper function to classify a runner step by its callId prefix and title
+function getStepCategory(action: ActionEvent): TestStepCategory {
+  const prefix = action.callId!.split("@")[0];
+  const title = action.apiName || "";
+
+  if (title === "Before Hooks" || title === "After Hooks") return "hooks";
+
+  switch (prefix) {
+    case "hook":
+      return "hook";
+    case "fixture":
+      return "fixture";
+    case "test.step":
+    case "step":
+      return "step";
+    case "expect":
+      return "expect";
+    case "pw:api":
+      return "api";
+    default:
+      return "other";
+  }
+}
+
+function assignPhase(step: TestStepNode, phase: TestPhase): void {
+  step.phase = phase;
+  step.children.forEach((child) => assignPhase(child, phase));
+}
+
+function findDeepestFailingPath(
+  steps: TestStepNode[],
+  path: TestStepNode[]
+): TestStepNode[] | undefined {
+  for (const step of steps) {
+    const currentPath = [...path, step];
+    const childPath = findDeepestFailingPath(step.children, currentPath);
+    if (childPath) return childPath;
+    if (step.error) return currentPath;
+  }
+  return undefined;
+}
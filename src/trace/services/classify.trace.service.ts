@@ -0,0 +1,155 @@
+import {
+  ActionEvent,
+  FailureCategory,
+  FailureClassification,
+  ParsedTrace,
+} from "@/trace";
+
+const ANSI_PATTERN = /\u001b\[[0-9;]*m/g;
+
+const TEST_TIMEOUT_PATTERN = /Test timeout of \d+ms exceeded/;
+
+// Checked in order after test timeouts, the more specific causes of an
+// action timeout come first
+const FAILURE_PATTERNS: {
+  category: FailureCategory;
+  label: string;
+  pattern: RegExp;
+}[] = [
+  {
+    category: "strictModeViolation",
+    label: "Strict mode violation",
+    pattern: /strict mode violation/i,
+  },
+  {
+    category: "targetClosed",
+    label: "Target closed",
+    pattern:
+      /Target (?:page, context or browser )?(?:has been )?closed|Browser has been closed|Page closed/i,
+  },
+  {
+    category: "navigationInterrupted",
+    label: "Navigation interrupted",
+    pattern:
+      /interrupted by another navigation|Execution context was destroyed/i,
+  },
+  {
+    category: "navigationError",
+    label: "Navigation error",
+    pattern: /net::ERR_[A-Z_]+|NS_ERROR_[A-Z_]+/,
+  },
+  {
+    category: "pointerIntercepted",
+    label: "Pointer events intercepted",
+    pattern: /intercepts pointer events/,
+  },
+  {
+    category: "elementDetached",
+    label: "Element detached",
+    pattern: /not attached to the DOM|detached from (?:the )?DOM/i,
+  },
+  {
+    category: "elementNotVisible",
+    label: "Element not visible",
+    pattern: /element is not visible/i,
+  },
+];
+
+/**
+ * Labels a failure by its kind, looking at the error and logs of the failing
+ * action first and at the other errors of the trace after that
+ */
+export function classifyFailure(
+  errors: ParsedTrace["errors"],
+  failingAction?: ActionEvent
+): FailureClassification | undefined {
+  if (errors.length === 0 && !failingAction?.error) return undefined;
+
+  const texts = [
+    failingAction?.error,
+    ...(failingAction?.logs || []).map((log) => log.message),
+    ...errors.map((error) => error.message),
+  ]
+    .filter((text): text is string => !!text)
+    .map(stripAnsi);
+  const callId = failingAction?.callId;
+
+  // The runner gave up on the whole test, whatever the action was waiting for
+  const testTimeout = findMatchingLine(texts, TEST_TIMEOUT_PATTERN);
+  if (testTimeout) {
+    return {
+      category: "testTimeout",
+      label: "Test timeout",
+      evidence: testTimeout,
+      callId,
+    };
+  }
+
+  for (const { category, label, pattern } of FAILURE_PATTERNS) {
+    const evidence = findMatchingLine(texts, pattern);
+    if (evidence) return { category, label, evidence, callId };
+  }
+
+  const assertion = errors.find((error) => error.assertion)?.assertion;
+  if (assertion?.timedOut) {
+    return {
+      category: "expectTimeout",
+      label: "Assertion timeout",
+      evidence: findMatchingLine(texts, /Timed out \d+ms|Timeout: \d+ms/),
+      callId,
+    };
+  }
+
+  const actionTimeout = findMatchingLine(texts, /Timeout \d+ms exceeded/);
+  if (actionTimeout) {
+    return {
+      category: "actionTimeout",
+      label: "Action timeout",
+      evidence: actionTimeout,
+      callId,
+    };
+  }
+
+  if (assertion) {
+    return {
+      category: "assertionFailure",
+      label: "Assertion failure",
+      evidence: findMatchingLine(texts, /expect(?:\.\w+)?\(/),
+      callId,
+    };
+  }
+
+  return {
+    category: "unknown",
+    label: "Unknown failure",
+    evidence: texts[0]?.split("\n")[0].trim(),
+    callId,
+  };
+}
+
+/**
+ * Removes the terminal color codes runner errors are printed with
+ */
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, "");
+}
+
+/**
+ * Tells whether an error is the runner giving up on a test that ran too long
+ */
+export function isTestTimeoutError(message: string): boolean {
+  return TEST_TIMEOUT_PATTERN.test(message);
+}
+
+// Helper function to find the first line of the given texts a pattern matches
+function findMatchingLine(
+  texts: string[],
+  pattern: RegExp
+): string | undefined {
+  for (const text of texts) {
+    for (const line of text.split("\n")) {
+      if (pattern.test(line)) return line.trim();
+    }
+  }
+  return undefined;
+}
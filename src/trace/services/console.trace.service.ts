@@ -0,0 +1,150 @@
+import {
+  ConsoleLocation,
+  ConsoleMessage,
+  ConsoleMessageGroup,
+  ConsoleMessageType,
+} from "@/trace";
+
+/**
+ * Reads a console message from a "console" record of a context trace, or from
+ * a Runtime.consoleAPICalled event of older CDP based traces
+ */
+export function parseConsoleEvent(event: any): ConsoleMessage | undefined {
+  if (!event || typeof event !== "object") return undefined;
+
+  if (event.type === "console") {
+    const args = Array.isArray(event.args)
+      ? event.args.map(formatConsoleArg)
+      : undefined;
+
+    return {
+      type: normalizeConsoleType(event.messageType || event.params?.type),
+      text: event.text ?? args?.join(" ") ?? event.message ?? "",
+      args,
+      location: toConsoleLocation(event.location),
+      timestamp: event.time ?? event.timestamp ?? 0,
+      stackTrace: typeof event.stack === "string" ? event.stack : undefined,
+      pageId: event.pageId,
+    };
+  }
+
+  if (event.method === "Runtime.consoleAPICalled") {
+    const params = event.params || {};
+    const args = Array.isArray(params.args)
+      ? params.args.map(formatConsoleArg)
+      : [];
+    const callFrames: any[] = params.stackTrace?.callFrames || [];
+
+    return {
+      type: normalizeConsoleType(params.type),
+      text: args.join(" "),
+      args,
+      location: toConsoleLocation(callFrames[0]),
+      timestamp: event.timestamp ?? event.time ?? 0,
+      stackTrace:
+        callFrames.length > 0
+          ? callFrames
+              .map(
+                (frame) =>
+                  `at ${frame.functionName || "<anonymous>"} (${frame.url}:${
+                    frame.lineNumber
+                  }:${frame.columnNumber})`
+              )
+              .join("\n")
+          : undefined,
+      pageId: event.pageId,
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Maps the console API method or the browser's message type onto the types
+ * the parsed trace uses, so console.warn() and "warning" records agree
+ */
+export function normalizeConsoleType(type?: string): ConsoleMessageType {
+  switch (type) {
+    case "error":
+    case "assert":
+      return "error";
+    case "warn":
+    case "warning":
+      return "warning";
+    case "info":
+      return "info";
+    case "debug":
+    case "trace":
+      return "debug";
+    default:
+      return "log";
+  }
+}
+
+/**
+ * Folds identical messages logged from the same place into one group, in the
+ * order they were first logged
+ */
+export function groupConsoleMessages(
+  messages: ConsoleMessage[]
+): ConsoleMessageGroup[] {
+  const groups = new Map<string, ConsoleMessageGroup>();
+
+  for (const message of messages) {
+    const key = [
+      message.type,
+      message.pageId || "",
+      message.location ? formatConsoleLocation(message.location) : "",
+      message.text,
+    ].join("\u0000");
+
+    const group = groups.get(key);
+    if (group) {
+      group.count++;
+      group.firstTimestamp = Math.min(group.firstTimestamp, message.timestamp);
+      group.lastTimestamp = Math.max(group.lastTimestamp, message.timestamp);
+      continue;
+    }
+
+    groups.set(key, {
+      type: message.type,
+      text: message.text,
+      location: message.location,
+      count: 1,
+      firstTimestamp: message.timestamp,
+      lastTimestamp: message.timestamp,
+      pageId: message.pageId,
+    });
+  }
+
+  return Array.from(groups.values()).sort(
+    (a, b) => a.firstTimestamp - b.firstTimestamp
+  );
+}
+
+/**
+ * Formats a console location as url:line:column
+ */
+export function formatConsoleLocation(location: ConsoleLocation): string {
+  return `${location.url}:${location.lineNumber}:${location.columnNumber}`;
+}
+
+function toConsoleLocation(location: any): ConsoleLocation | undefined {
+  if (!location || typeof location.url !== "string" || !location.url) {
+    return undefined;
+  }
+  return {
+    url: location.url,
+    lineNumber: location.lineNumber ?? 0,
+    columnNumber: location.columnNumber ?? 0,
+  };
+}
+
+// Helper function to turn a console argument into the text the browser shows
+function formatConsoleArg(arg: any): string {
+  if (arg === null || typeof arg !== "object") return String(arg);
+  if (typeof arg.preview === "string") return arg.preview;
+  if (typeof arg.description === "string") return arg.description;
+  if (arg.value === undefined) return String(arg.type ?? "undefined");
+  return typeof arg.value === "string" ? arg.value : JSON.stringify(arg.value);
+}
@@ -0,0 +1,103 @@
+import { TraceEnvironment } from "@/trace";
+
+// Browser and version as user agents report them
+const USER_AGENT_PATTERN =
+  /(HeadlessChrome|Chrome|Firefox|Version)\/(\d+(?:\.\d+)*)/;
+
+// Playwright release versions such as "1.44.0". A numeric "version" of a
+// record is the version of the trace format instead.
+const PLAYWRIGHT_VERSION_PATTERN = /^\d+\.\d+\.\d+/;
+
+/**
+ * Reads the browser and context setup from the "context-options" records of
+ * a trace. The runner writes one with an empty browser name, so values of
+ * the browser contexts win over it.
+ */
+export function extractEnvironment(events: any[]): TraceEnvironment {
+  const records = events
+    .filter((event) => event?.type === "context-options")
+    // Records of browser contexts first
+    .sort((a, b) => Number(!a.browserName) - Number(!b.browserName));
+
+  const environment: TraceEnvironment = {};
+  for (const record of records) {
+    const options = record.options || {};
+
+    environment.browserName =
+      environment.browserName || record.browserName || undefined;
+    environment.channel =
+      environment.channel || record.channel || options.channel || undefined;
+    environment.platform = environment.platform || record.platform;
+    environment.sdkLanguage = environment.sdkLanguage || record.sdkLanguage;
+    environment.playwrightVersion =
+      environment.playwrightVersion || readPlaywrightVersion(record);
+    environment.traceVersion =
+      environment.traceVersion ??
+      (typeof record.version === "number" ? record.version : undefined);
+    environment.viewport =
+      environment.viewport ||
+      (options.noDefaultViewport ? undefined : options.viewport);
+    environment.deviceScaleFactor =
+      environment.deviceScaleFactor ?? options.deviceScaleFactor;
+    environment.locale = environment.locale || options.locale;
+    environment.timezoneId = environment.timezoneId || options.timezoneId;
+    environment.baseURL = environment.baseURL || options.baseURL;
+    environment.userAgent = environment.userAgent || options.userAgent;
+    environment.colorScheme = environment.colorScheme || options.colorScheme;
+    environment.isMobile = environment.isMobile ?? options.isMobile;
+    environment.hasTouch = environment.hasTouch ?? options.hasTouch;
+  }
+
+  const userAgentMatch = environment.userAgent?.match(USER_AGENT_PATTERN);
+  if (userAgentMatch) environment.browserVersion = userAgentMatch[2];
+
+  // Drop the keys no record had
+  for (const key of Object.keys(environment) as (keyof TraceEnvironment)[]) {
+    if (environment[key] === undefined) delete environment[key];
+  }
+
+  return environment;
+}
+
+/**
+ * Formats the context setup as a short comma separated summary, such as
+ * "1280x720, en-US, Europe/Berlin, mobile"
+ */
+export function describeEnvironment(environment: TraceEnvironment): string {
+  const parts: string[] = [];
+
+  if (environment.viewport) {
+    parts.push(`${environment.viewport.width}x${environment.viewport.height}`);
+  }
+  if (environment.deviceScaleFactor && environment.deviceScaleFactor !== 1) {
+    parts.push(`@${environment.deviceScaleFactor}x`);
+  }
+  if (environment.locale) parts.push(environment.locale);
+  if (environment.timezoneId) parts.push(environment.timezoneId);
+  if (environment.colorScheme) parts.push(`${environment.colorScheme} mode`);
+  if (environment.isMobile) parts.push("mobile");
+  if (environment.hasTouch) parts.push("touch");
+  if (environment.baseURL) parts.push(`base URL ${environment.baseURL}`);
+  if (environment.platform) parts.push(`on ${environment.platform}`);
+  if (environment.playwrightVersion) {
+    parts.push(`Playwright ${environment.playwrightVersion}`);
+  } else if (environment.traceVersion !== undefined) {
+    // Trace formats span several Playwright releases, so the format doesn't
+    // tell the version either
+    parts.push(
+      `Playwright version not recorded (trace format ${environment.traceVersion})`
+    );
+  }
+
+  return parts.join(", ");
+}
+
+// Helper function to read the Playwright version of a "context-options"
+// record. Most traces don't record it: the runner's record and the browser
+// contexts' records only name the trace format and the SDK language.
+function readPlaywrightVersion(record: any): string | undefined {
+  return [record.playwrightVersion, record.version].find(
+    (value): value is string =>
+      typeof value === "string" && PLAYWRIGHT_VERSION_PATTERN.test(value)
+  );
+}
@@ -0,0 +1,186 @@
+import {
+  DialogEvent,
+  DownloadEvent,
+  FileChooserEvent,
+  PageError,
+  ParsedTrace,
+} from "@/trace";
+
+/**
+ * Collects the uncaught page errors, dialogs, downloads and file choosers of
+ * a trace from the "event" records of its browser contexts
+ */
+export function extractPageEvents(events: any[]): {
+  pageErrors: PageError[];
+  dialogs: DialogEvent[];
+  downloads: DownloadEvent[];
+  fileChoosers: FileChooserEvent[];
+} {
+  const pageErrors: PageError[] = [];
+  const dialogs: DialogEvent[] = [];
+  const downloads: DownloadEvent[] = [];
+  const fileChoosers: FileChooserEvent[] = [];
+  const dialogsByGuid = new Map<string, DialogEvent>();
+  // Dialog.accept() and Dialog.dismiss() calls, answered in order
+  const dialogCalls: { method: string; time: number; promptText?: string }[] =
+    [];
+
+  for (const event of events) {
+    if (!event || typeof event !== "object") continue;
+    const params = event.params || {};
+
+    if (event.type === "before" && event.class === "Dialog") {
+      if (event.method === "accept" || event.method === "dismiss") {
+        dialogCalls.push({
+          method: event.method,
+          time: event.startTime ?? event.wallTime ?? 0,
+          promptText: params.promptText,
+        });
+      }
+      continue;
+    }
+    if (event.type !== "event") continue;
+
+    switch (event.method) {
+      case "pageError": {
+        // Errors are serialized as {error: {message, name, stack}}, or as
+        // {value} when the page threw something other than an Error
+        const serialized = params.error?.error || params.error || {};
+        const message =
+          serialized.message ??
+          (params.error?.value !== undefined
+            ? String(params.error.value)
+            : "Unknown page error");
+        pageErrors.push({
+          message,
+          name: serialized.name || undefined,
+          stack: serialized.stack || undefined,
+          timestamp: event.time ?? 0,
+          pageId: params.page?.guid || event.pageId,
+        });
+        break;
+      }
+      case "__create__": {
+        if (event.class !== "Dialog") break;
+        const initializer = params.initializer || {};
+        const dialog: DialogEvent = {
+          type: initializer.type || "alert",
+          message: initializer.message || "",
+          defaultValue: initializer.defaultValue || undefined,
+          timestamp: event.time ?? 0,
+          pageId: initializer.page?.guid || event.pageId,
+        };
+        dialogsByGuid.set(params.guid, dialog);
+        dialogs.push(dialog);
+        break;
+      }
+      case "dialog": {
+        // The dialog is usually created just before this event
+        const guid = params.dialog?.guid;
+        const dialog = guid ? dialogsByGuid.get(guid) : undefined;
+        if (dialog) {
+          dialog.timestamp = event.time ?? dialog.timestamp;
+        } else {
+          dialogs.push({
+            type: params.type || "alert",
+            message: params.message || "",
+            defaultValue: params.defaultValue || undefined,
+            timestamp: event.time ?? 0,
+            pageId: event.pageId,
+          });
+        }
+        break;
+      }
+      case "download": {
+        downloads.push({
+          url: params.url || "",
+          suggestedFilename: params.suggestedFilename || undefined,
+          timestamp: event.time ?? 0,
+          pageId: event.pageId,
+        });
+        break;
+      }
+      case "fileChooser": {
+        fileChoosers.push({
+          isMultiple: !!params.isMultiple,
+          timestamp: event.time ?? 0,
+          pageId: event.pageId,
+        });
+        break;
+      }
+    }
+  }
+
+  dialogs.sort((a, b) => a.timestamp - b.timestamp);
+  for (const call of dialogCalls.sort((a, b) => a.time - b.time)) {
+    const dialog = dialogs.find(
+      (d) => !d.handledBy && d.timestamp <= call.time
+    );
+    if (!dialog) continue;
+    dialog.handledBy = call.method as DialogEvent["handledBy"];
+    if (call.method === "accept") dialog.promptText = call.promptText;
+  }
+
+  return {
+    pageErrors: pageErrors.sort((a, b) => a.timestamp - b.timestamp),
+    dialogs,
+    downloads: downloads.sort((a, b) => a.timestamp - b.timestamp),
+    fileChoosers: fileChoosers.sort((a, b) => a.timestamp - b.timestamp),
+  };
+}
+
+/**
+ * Formats the page errors, dialogs, downloads and file choosers of a trace as
+ * a list. Returns undefined when the trace has none.
+ */
+export function describePageEvents(trace: ParsedTrace): string | undefined {
+  const entries: { timestamp: number; text: string }[] = [
+    ...trace.pageErrors.map((error) => ({
+      timestamp: error.timestamp,
+      text: `Uncaught page error: ${
+        error.name && !error.message.startsWith(error.name)
+          ? `${error.name}: `
+          : ""
+      }${error.message}${error.stack ? `\nStack: ${error.stack}` : ""}`,
+    })),
+    ...trace.dialogs.map((dialog) => ({
+      timestamp: dialog.timestamp,
+      text: `${dialog.type} dialog "${dialog.message}" ${
+        dialog.handledBy === "accept"
+          ? `accepted${
+              dialog.promptText !== undefined
+                ? ` with "${dialog.promptText}"`
+                : ""
+            }`
+          : dialog.handledBy === "dismiss"
+          ? "dismissed"
+          : "not handled by the test, dismissed automatically"
+      }`,
+    })),
+    ...trace.downloads.map((download) => ({
+      timestamp: download.timestamp,
+      text: `Download of ${download.suggestedFilename || "a file"} from ${
+        download.url
+      }`,
+    })),
+    ...trace.fileChoosers.map((chooser) => ({
+      timestamp: chooser.timestamp,
+      text: `File chooser opened${
+        chooser.isMultiple ? " for multiple files" : ""
+      }`,
+    })),
+  ];
+  if (entries.length === 0) return undefined;
+
+  return entries
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map((entry) => `[${formatTime(entry.timestamp)}] ${entry.text}`)
+    .join("\n");
+}
+
+function formatTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  return isNaN(date.getTime())
+    ? String(timestamp)
+    : date.toISOString().split("T")[1].split("Z")[0];
+}
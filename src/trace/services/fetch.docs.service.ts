@@ -9,6 +9,9 @@ import * as fs from "fs";
 import * as path from "path";
 import * as https from "https";
 import { IncomingMessage } from "http";
+import { logger } from "@/ui/classes/logger.class";
+
+const log = logger.child("docs");
 
 // GitHub API URL for Playwright docs
 const PLAYWRIGHT_DOCS_API =
@@ -20,7 +23,7 @@ const OUTPUT_DIR = path.join(__dirname, "../../../data/docs");
 // Ensure output directory exists
 if (!fs.existsSync(OUTPUT_DIR)) {
   fs.mkdirSync(OUTPUT_DIR, { recursive: true });
-  console.log(`Created output directory: ${OUTPUT_DIR}`);
+  log.info(`Created output directory: ${OUTPUT_DIR}`);
 }
 
 /**
@@ -94,15 +97,15 @@ async function processMarkdownFile(filename: string, forceProcess = false) {
     }
 
     const fileUrl = `${PLAYWRIGHT_RAW_CONTENT}${filename}`;
-    console.log(`Fetching: ${filename}`);
+    log.debug(`Fetching: ${filename}`);
 
     const content = await fetchUrl(fileUrl, false);
 
     // Create a normalized filename
     fs.writeFileSync(outputPath, content);
-    console.log(`Saved: ${outputPath}`);
+    log.debug(`Saved: ${outputPath}`);
   } catch (error: any) {
-    console.error(`Error processing ${filename}:`, error.message);
+    log.error(`Error processing ${filename}:`, error.message);
   }
 }
 
@@ -130,7 +133,7 @@ async function fetchDocsFromDirectory(dirPath = "") {
       }
     }
   } catch (error: any) {
-    console.error(`Error fetching directory ${dirPath}:`, error.message);
+    log.error(`Error fetching directory ${dirPath}:`, error.message);
   }
 }
 
@@ -144,7 +147,7 @@ export async function fetchPlaywrightDocs(forceUpdate = false) {
       process.env.FORCE_DOC_UPDATE = "true";
     }
 
-    console.log("Starting to fetch Playwright documentation...");
+    log.info("Starting to fetch Playwright documentation...");
 
     // Fetch main documentation files
     await fetchDocsFromDirectory();
@@ -165,15 +168,15 @@ export async function fetchPlaywrightDocs(forceUpdate = false) {
       await processMarkdownFile(apiDoc, true);
     }
 
-    console.log("Documentation fetching complete!");
-    console.log(`Documentation saved to: ${OUTPUT_DIR}`);
+    log.info("Documentation fetching complete!");
+    log.info(`Documentation saved to: ${OUTPUT_DIR}`);
 
     // Clean up the environment variable
     delete process.env.FORCE_DOC_UPDATE;
 
     return true;
   } catch (error: any) {
-    console.error("Error fetching documentation:", error.message);
+    log.error("Error fetching documentation:", error.message);
     return false;
   }
 }
@@ -181,7 +184,7 @@ export async function fetchPlaywrightDocs(forceUpdate = false) {
 // Execute the main function when this file is run directly
 if (require.main === module) {
   fetchPlaywrightDocs().catch((error) => {
-    console.error("Failed to fetch docs:", error);
+    log.error("Failed to fetch docs:", error);
     process.exit(1);
   });
 }
@@ -1,3 +1,21 @@
 export * from "./load.trace.service";
 export * from "./parse.trace.service";
 export * from "./fetch.docs.service";
+export * from "./build.steps.service";
+export * from "./merge.trace.service";
+export * from "./network.trace.service";
+export * from "./screencast.trace.service";
+export * from "./snapshot.trace.service";
+export * from "./locator.trace.service";
+export * from "./source.trace.service";
+export * from "./assertion.trace.service";
+export * from "./classify.trace.service";
+export * from "./page.trace.service";
+export * from "./events.trace.service";
+export * from "./output.trace.service";
+export * from "./console.trace.service";
+export * from "./environment.trace.service";
+export * from "./schema.trace.service";
+export * from "./stream.trace.service";
+export * from "./redact.trace.service";
+export * from "./untrusted.trace.service";
@@ -1,36 +1,32 @@
 import * as fs from "fs";
 import * as path from "path";
-import { TraceFile } from "@/trace";
-import { createReadStream } from "fs";
-import { Extract } from "unzipper";
+import { TraceFile, TraceFileGroup, TraceFileStreams } from "@/trace";
+import { Logger, logger } from "@/ui/classes/logger.class";
+import { TraceArchive } from "../classes/trace.archive.class";
 
 /**
- * Loads a Playwright trace file or zip archive containing trace files
+ * Opens a Playwright trace file or zip archive for reading as streams. Nothing
+ * is read or decompressed until a file's stream is opened. The archive stays
+ * open as the reader of its resources.
  */
-export async function loadTraceFile(filePath: string): Promise<TraceFile[]> {
+export async function loadTraceFileStreams(
+  filePath: string,
+  log: Logger = logger.child("load")
+): Promise<TraceFileStreams> {
   if (!fs.existsSync(filePath)) {
     throw new Error(`File not found: ${filePath}`);
   }
 
   const ext = path.extname(filePath).toLowerCase();
-  const filename = path.basename(filePath);
 
-  // If it's a zip file, extract it
   if (ext === ".zip") {
-    const extractDir = path.join(path.dirname(filePath), "extracted_traces");
-
-    if (!fs.existsSync(extractDir)) {
-      fs.mkdirSync(extractDir, { recursive: true });
-    }
-
-    // Extract the zip file
-    await createReadStream(filePath)
-      .pipe(Extract({ path: extractDir }))
-      .promise();
-
-    // Look for trace files in the extracted directory
-    const files = await findTraceFiles(extractDir);
-    return files;
+    const archive = await TraceArchive.open(filePath);
+    const files = archive.openTraceFiles();
+    files.forEach((file) => log.debug(`Found trace file: ${file.filename}`));
+    return {
+      files: [...files, ...archive.openSourceFiles()],
+      resources: archive,
+    };
   } else if (
     ext === ".json" ||
     ext === ".trace" ||
@@ -38,13 +34,15 @@ export async function loadTraceFile(filePath: string): Promise<TraceFile[]> {
     ext === ".network" ||
     ext === ".stacks"
   ) {
-    // Just load this file
-    return [
-      {
-        filename,
-        content: fs.readFileSync(filePath),
-      },
-    ];
+    return {
+      files: [
+        {
+          filename: path.basename(filePath),
+          size: fs.statSync(filePath).size,
+          open: () => fs.createReadStream(filePath),
+        },
+      ],
+    };
   } else {
     throw new Error(
       `Unsupported file format: ${ext}. Expected .zip, .json, .trace, .network, or .stacks`
@@ -53,48 +51,33 @@ export async function loadTraceFile(filePath: string): Promise<TraceFile[]> {
 }
 
 /**
- * Recursively find all trace files in a directory
+ * Picks the primary trace, its companion files and the browser context traces
+ * to merge from the loaded trace files
  */
-async function findTraceFiles(directory: string): Promise<TraceFile[]> {
-  const files: TraceFile[] = [];
-  const items = fs.readdirSync(directory);
+export function groupTraceFiles<T extends { filename: string } = TraceFile>(
+  traceFiles: T[]
+): TraceFileGroup<T> {
+  const contextTraces = traceFiles.filter((f) =>
+    /^\d+-trace\.trace$/.test(f.filename)
+  );
 
-  // Define priority order for trace files
-  const traceFilenames = [
-    "test.trace", // Primary trace file (top priority)
-    "0-trace.network", // Network trace data
-    "0-trace.stacks", // Stack trace data
-  ];
-
-  // First pass - look specifically for the important files in priority order
-  for (const filename of traceFilenames) {
-    if (items.includes(filename)) {
-      const fullPath = path.join(directory, filename);
-      console.log(`Found trace file: ${fullPath}`);
-      files.push({
-        filename,
-        content: fs.readFileSync(fullPath),
-      });
-    }
-  }
+  // Prefer the runner trace and fall back to the first browser context trace
+  const traceFile =
+    traceFiles.find((f) => f.filename === "test.trace") || contextTraces[0];
 
-  // Return all found trace files
-  if (files.length > 0) {
-    return files;
-  }
-
-  // Otherwise search subdirectories
-  for (const item of items) {
-    const fullPath = path.join(directory, item);
-    const stats = fs.statSync(fullPath);
-
-    if (stats.isDirectory()) {
-      const subFiles = await findTraceFiles(fullPath);
-      if (subFiles.length > 0) {
-        files.push(...subFiles);
-      }
-    }
-  }
+  // Each browser context has its own network and stacks file
+  const companionFiles = (extension: string): T[] =>
+    traceFiles
+      .filter((f) => new RegExp(`^\\d+-trace\\.${extension}$`).test(f.filename))
+      .sort((a, b) => parseInt(a.filename) - parseInt(b.filename));
 
-  return files;
+  return {
+    traceFile,
+    networkFiles: companionFiles("network"),
+    stacksFiles: companionFiles("stacks"),
+    contextFiles: contextTraces.filter((f) => f !== traceFile),
+    sourceFiles: traceFiles.filter((f) =>
+      /^src@[0-9a-f]+\.txt$/.test(f.filename)
+    ),
+  };
 }
@@ -0,0 +1,1100 @@
+import {
+  ActionEvent,
+  FailureLocation,
+  FrameSnapshot,
+  LocatorEvidence,
+  LocatorSnapshotMatch,
+  SnapshotElement,
+} from "@/trace";
+import { findFailingAction } from "./build.steps.service";
+import { buildSnapshotTree } from "./snapshot.trace.service";
+
+type TextMatcher = (text: string) => boolean;
+type ElementMatcher = (element: SnapshotElement) => boolean;
+
+interface SelectorPart {
+  engine: string;
+  body: string;
+}
+
+interface CompoundSelector {
+  // Combinator linking this compound to the one before it
+  combinator: " " | ">" | "+" | "~";
+  matches: ElementMatcher;
+}
+
+interface RoleAttribute {
+  name: string;
+  value?: string;
+}
+
+// Elements whose content never shows up on the page
+const NON_RENDERED_TAGS = new Set([
+  "HEAD",
+  "SCRIPT",
+  "STYLE",
+  "NOSCRIPT",
+  "TEMPLATE",
+]);
+
+// Roles whose accessible name is computed from their content
+const NAME_FROM_CONTENT_ROLES = new Set([
+  "button",
+  "cell",
+  "checkbox",
+  "columnheader",
+  "gridcell",
+  "heading",
+  "link",
+  "menuitem",
+  "menuitemcheckbox",
+  "menuitemradio",
+  "option",
+  "radio",
+  "row",
+  "rowheader",
+  "switch",
+  "tab",
+  "tooltip",
+  "treeitem",
+]);
+
+const MAX_DESCRIBED_ELEMENTS = 3;
+
+// Text content per element, text selectors ask for it over and over
+const textCache = new WeakMap<SnapshotElement, string>();
+
+// Thrown for selector syntax the offline evaluator doesn't understand
+class UnsupportedSelectorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsupportedSelectorError";
+  }
+}
+
+/**
+ * Re-runs the failing action's selector against the DOM snapshots taken
+ * before and after it, to tell a wrong selector from an element that showed
+ * up late
+ */
+export function checkFailureLocator(
+  actions: ActionEvent[],
+  snapshots: FrameSnapshot[],
+  failureLocation?: FailureLocation
+): LocatorEvidence | undefined {
+  const action = findFailingAction(actions, failureLocation);
+  if (!action?.selector || snapshots.length === 0) return undefined;
+
+  const evidence: LocatorEvidence = {
+    callId: action.callId || action.type,
+    selector: action.selector,
+  };
+
+  try {
+    evidence.before = matchSnapshot(
+      snapshots,
+      action.beforeSnapshot,
+      action.selector,
+      action.pageId
+    );
+    evidence.after = matchSnapshot(
+      snapshots,
+      action.afterSnapshot,
+      action.selector,
+      action.pageId
+    );
+  } catch (error) {
+    if (!(error instanceof UnsupportedSelectorError)) throw error;
+    evidence.unsupported = error.message;
+  }
+
+  return evidence;
+}
+
+/**
+ * Evaluates a Playwright selector against a snapshot element tree. Layout
+ * and visibility can't be known offline, so "visible" filters match any
+ * element that isn't hidden through attributes.
+ */
+export function querySnapshot(
+  root: SnapshotElement,
+  selector: string
+): SnapshotElement[] {
+  // Selectors are evaluated from the document, which contains <html>
+  const document: SnapshotElement = {
+    tag: "#document",
+    attributes: {},
+    children: [root],
+    index: -1,
+  };
+  return querySelectorChain([document], selector);
+}
+
+/**
+ * Finds the type of the input element an action's selector matched in the
+ * snapshot taken before it. Undefined when it matched no input, or the
+ * selector can't be evaluated offline.
+ */
+export function findTargetInputType(
+  snapshots: FrameSnapshot[],
+  action: ActionEvent
+): string | undefined {
+  if (!action.selector || !action.beforeSnapshot) return undefined;
+  const root = buildSnapshotTree(snapshots, action.beforeSnapshot, {
+    pageId: action.pageId,
+  });
+  if (!root) return undefined;
+
+  let elements: SnapshotElement[];
+  try {
+    elements = querySnapshot(root, action.selector);
+  } catch (error) {
+    if (!(error instanceof UnsupportedSelectorError)) throw error;
+    return undefined;
+  }
+
+  const input = elements.find(
+    (element) => element.tag.toUpperCase() === "INPUT"
+  );
+  return input ? (input.attributes.type || "text").toLowerCase() : undefined;
+}
+
+/**
+ * Explains the locator evidence in one or two lines for prompts and CLI output
+ */
+export function describeLocatorEvidence(evidence: LocatorEvidence): string {
+  if (evidence.unsupported) {
+    return `Selector \`${evidence.selector}\` could not be checked offline: ${evidence.unsupported}`;
+  }
+
+  const describe = (match?: LocatorSnapshotMatch) => {
+    if (!match) return "no snapshot";
+    const count =
+      match.count === 0
+        ? "no elements"
+        : `${match.count} element${match.count === 1 ? "" : "s"}`;
+    return match.elements.length > 0
+      ? `${count} (${match.elements.join(", ")})`
+      : count;
+  };
+
+  const lines = [
+    `Selector \`${evidence.selector}\` matched ${describe(
+      evidence.before
+    )} before the action and ${describe(evidence.after)} after it.`,
+  ];
+
+  const before = evidence.before?.count;
+  const after = evidence.after?.count;
+  if (before === 0 && after === 0) {
+    lines.push(
+      "The element never appeared, the selector is likely wrong or the page is in an unexpected state."
+    );
+  } else if (before === 0 && after !== undefined && after > 0) {
+    lines.push("The element only appeared later, pointing at a timing issue.");
+  } else if ((before ?? 0) > 1 || (after ?? 0) > 1) {
+    lines.push(
+      "The selector is ambiguous and would trigger a strict mode violation."
+    );
+  }
+
+  return lines.join(" ");
+}
+
+// Helper function to run the selector on one snapshot
+function matchSnapshot(
+  snapshots: FrameSnapshot[],
+  snapshotName: string | undefined,
+  selector: string,
+  pageId?: string
+): LocatorSnapshotMatch | undefined {
+  if (!snapshotName) return undefined;
+  const root = buildSnapshotTree(snapshots, snapshotName, { pageId });
+  if (!root) return undefined;
+
+  const elements = querySnapshot(root, selector);
+  return {
+    snapshotName,
+    count: elements.length,
+    elements: elements.slice(0, MAX_DESCRIBED_ELEMENTS).map(describeElement),
+  };
+}
+
+function querySelectorChain(
+  scopes: SnapshotElement[],
+  selector: string
+): SnapshotElement[] {
+  let current = scopes;
+
+  for (const part of splitSelector(selector).map(parseSelectorPart)) {
+    switch (part.engine) {
+      case "nth": {
+        const index = Number(part.body);
+        if (isNaN(index)) {
+          throw new UnsupportedSelectorError(`invalid nth=${part.body}`);
+        }
+        const element =
+          index < 0 ? current[current.length + index] : current[index];
+        current = element ? [element] : [];
+        break;
+      }
+      case "visible":
+        current = current.filter(
+          (element) => isHidden(element) === (part.body === "false")
+        );
+        break;
+      case "internal:has-text": {
+        const matcher = createTextMatcher(part.body);
+        current = current.filter((element) => matcher(getText(element)));
+        break;
+      }
+      case "internal:has-not-text": {
+        const matcher = createTextMatcher(part.body);
+        current = current.filter((element) => !matcher(getText(element)));
+        break;
+      }
+      case "internal:has":
+      case "internal:has-not": {
+        const nested = parseQuoted(part.body);
+        const wanted = part.engine === "internal:has";
+        current = current.filter(
+          (element) =>
+            querySelectorChain([element], nested).length > 0 === wanted
+        );
+        break;
+      }
+      default: {
+        const matcher = createElementMatcher(part);
+        const found = new Set<SnapshotElement>();
+        for (const scope of current) {
+          for (const element of getDescendants(scope)) {
+            if (matcher(element)) found.add(element);
+          }
+        }
+        current = Array.from(found).sort((a, b) => a.index - b.index);
+      }
+    }
+  }
+
+  return current;
+}
+
+function createElementMatcher(part: SelectorPart): ElementMatcher {
+  switch (part.engine) {
+    case "css":
+      return createCssMatcher(part.body);
+    case "text":
+    case "internal:text": {
+      // A quoted legacy text="..." selector matches the whole text exactly
+      const matcher = createTextMatcher(part.body, part.engine === "text");
+      // Like Playwright, only the innermost elements containing the text match
+      return (element) =>
+        !NON_RENDERED_TAGS.has(element.tag.toUpperCase()) &&
+        matcher(getText(element)) &&
+        !getChildElements(element).some((child) => matcher(getText(child)));
+    }
+    case "role":
+    case "internal:role":
+      return createRoleMatcher(part.body);
+    case "internal:testid":
+    case "internal:attr":
+    case "data-testid":
+      return createAttributeMatcher(
+        part.engine === "data-testid"
+          ? `[data-testid=${JSON.stringify(part.body)}s]`
+          : part.body
+      );
+    case "internal:label": {
+      const matcher = createTextMatcher(part.body);
+      return (element) => {
+        const label = getLabelText(element);
+        return label !== undefined && matcher(label);
+      };
+    }
+    case "id":
+      return (element) => element.attributes.id === part.body;
+    default:
+      throw new UnsupportedSelectorError(
+        `the "${part.engine}" selector engine is not supported`
+      );
+  }
+}
+
+// Helper function to split a selector at ">>" outside of quotes
+function splitSelector(selector: string): string[] {
+  const parts: string[] = [];
+  let quote: string | undefined;
+  let start = 0;
+
+  for (let i = 0; i < selector.length; i++) {
+    const char = selector[i];
+    if (char === "\\") {
+      i++;
+    } else if (quote) {
+      if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ">" && selector[i + 1] === ">") {
+      parts.push(selector.substring(start, i).trim());
+      start = i + 2;
+      i++;
+    }
+  }
+  parts.push(selector.substring(start).trim());
+
+  return parts.filter((part) => part.length > 0);
+}
+
+function parseSelectorPart(part: string): SelectorPart {
+  const engine = part.match(/^([a-zA-Z_0-9:+*-]+)=/);
+  if (engine) {
+    return {
+      engine: engine[1],
+      body: part.substring(engine[0].length).trim(),
+    };
+  }
+  if (part.startsWith("//") || part.startsWith("..")) {
+    return { engine: "xpath", body: part };
+  }
+  if (part.startsWith('"') || part.startsWith("'")) {
+    return { engine: "text", body: part };
+  }
+  return { engine: "css", body: part };
+}
+
+/**
+ * Builds a matcher for Playwright text bodies: "text"i matches a case
+ * insensitive substring, "text"s the whole text, /re/ a regular expression.
+ * Legacy text selectors match the whole text when quoted without a suffix.
+ */
+function createTextMatcher(
+  body: string,
+  exactWhenQuoted: boolean = false
+): TextMatcher {
+  const trimmed = body.trim();
+
+  const regex = trimmed.match(/^\/(.*)\/([dgimsuy]*)$/s);
+  if (regex) {
+    let re: RegExp;
+    try {
+      re = new RegExp(regex[1], regex[2].replace("g", ""));
+    } catch (error) {
+      throw new UnsupportedSelectorError(
+        `invalid regular expression ${trimmed}`
+      );
+    }
+    return (text) => re.test(text);
+  }
+
+  const quoted = trimmed.match(/^(["'])(.*)\1([is]?)$/s);
+  const value = normalizeText(quoted ? parseQuoted(trimmed) : trimmed);
+  if (quoted && (quoted[3] === "s" || (exactWhenQuoted && !quoted[3]))) {
+    return (text) => text === value;
+  }
+  const lowerValue = value.toLowerCase();
+  return (text) => text.toLowerCase().includes(lowerValue);
+}
+
+// Helper function to read a quoted selector value, dropping its i/s suffix
+function parseQuoted(body: string): string {
+  const match = body.trim().match(/^(["'])(.*)\1[is]?$/s);
+  if (!match) return body.trim();
+  if (match[1] === "'") return match[2].replace(/\\(.)/g, "$1");
+  try {
+    return JSON.parse(`"${match[2]}"`);
+  } catch {
+    return match[2].replace(/\\(.)/g, "$1");
+  }
+}
+
+function createRoleMatcher(body: string): ElementMatcher {
+  const role = body.match(/^[a-z]+/i)?.[0]?.toLowerCase();
+  if (!role) throw new UnsupportedSelectorError(`invalid role "${body}"`);
+
+  const attributes = parseAttributeList(body.substring(role.length));
+  const includeHidden = attributes.some(
+    (attribute) =>
+      attribute.name === "include-hidden" && attribute.value !== "false"
+  );
+
+  const checks: ElementMatcher[] = [];
+  for (const attribute of attributes) {
+    if (attribute.name === "include-hidden") continue;
+    if (attribute.name === "name") {
+      const matcher = createTextMatcher(attribute.value ?? '""');
+      checks.push((element) => matcher(getAccessibleName(element)));
+    } else if (attribute.name === "level") {
+      checks.push(
+        (element) => String(getHeadingLevel(element)) === attribute.value
+      );
+    } else if (
+      ["checked", "disabled", "expanded", "pressed", "selected"].includes(
+        attribute.name
+      )
+    ) {
+      const expected = attribute.value ?? "true";
+      checks.push(
+        (element) =>
+          String(getAriaState(element, attribute.name)) === expected.trim()
+      );
+    } else {
+      throw new UnsupportedSelectorError(
+        `the role option "${attribute.name}" is not supported`
+      );
+    }
+  }
+
+  return (element) =>
+    getRole(element) === role &&
+    (includeHidden || !isHidden(element)) &&
+    checks.every((check) => check(element));
+}
+
+function createAttributeMatcher(body: string): ElementMatcher {
+  const attributes = parseAttributeList(body);
+  if (attributes.length === 0) {
+    throw new UnsupportedSelectorError(`invalid attribute selector ${body}`);
+  }
+
+  const checks = attributes.map(({ name, value }): ElementMatcher => {
+    if (value === undefined) return (element) => name in element.attributes;
+    const matcher = createTextMatcher(value);
+    return (element) =>
+      element.attributes[name] !== undefined &&
+      matcher(normalizeText(element.attributes[name]));
+  });
+  return (element) => checks.every((check) => check(element));
+}
+
+// Helper function to parse [name="value"i][flag] lists of role and attr selectors
+function parseAttributeList(body: string): RoleAttribute[] {
+  const attributes: RoleAttribute[] = [];
+  let rest = body.trim();
+
+  while (rest.startsWith("[")) {
+    const name = rest.match(/^\[\s*([a-zA-Z_-][\w-]*)\s*/);
+    if (!name) break;
+    rest = rest.substring(name[0].length);
+
+    let value: string | undefined;
+    if (rest.startsWith("=")) {
+      rest = rest.substring(1).trimStart();
+      const end = findValueEnd(rest);
+      value = rest.substring(0, end).trim();
+      rest = rest.substring(end);
+    }
+    if (!rest.startsWith("]")) {
+      throw new UnsupportedSelectorError(`invalid attribute list ${body}`);
+    }
+    rest = rest.substring(1).trimStart();
+    attributes.push({ name: name[1], value });
+  }
+
+  if (rest.length > 0) {
+    throw new UnsupportedSelectorError(`invalid attribute list ${body}`);
+  }
+  return attributes;
+}
+
+// Helper function to find where a quoted, regex or plain value ends
+function findValueEnd(text: string): number {
+  const open = text[0];
+  if (open === '"' || open === "'" || open === "/") {
+    for (let i = 1; i < text.length; i++) {
+      if (text[i] === "\\") {
+        i++;
+      } else if (text[i] === open) {
+        let end = i + 1;
+        while (end < text.length && /[a-z]/i.test(text[end])) end++;
+        return end;
+      }
+    }
+    return text.length;
+  }
+  const end = text.indexOf("]");
+  return end === -1 ? text.length : end;
+}
+
+/**
+ * Matches a CSS selector list, including Playwright's :has-text(), :text()
+ * and :text-is() pseudo classes
+ */
+function createCssMatcher(selector: string): ElementMatcher {
+  const alternatives = splitTopLevel(selector, ",").map((alternative) =>
+    parseComplexSelector(alternative.trim())
+  );
+  return (element) =>
+    alternatives.some((compounds) => matchesComplex(element, compounds));
+}
+
+function parseComplexSelector(selector: string): CompoundSelector[] {
+  const compounds: CompoundSelector[] = [];
+  let combinator: CompoundSelector["combinator"] = " ";
+  let i = 0;
+
+  while (i < selector.length) {
+    const char = selector[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    if (char === ">" || char === "+" || char === "~") {
+      combinator = char;
+      i++;
+      continue;
+    }
+
+    const end = findCompoundEnd(selector, i);
+    compounds.push({
+      combinator,
+      matches: parseCompoundSelector(selector.substring(i, end)),
+    });
+    combinator = " ";
+    i = end;
+  }
+
+  if (compounds.length === 0) {
+    throw new UnsupportedSelectorError(`empty CSS selector "${selector}"`);
+  }
+  return compounds;
+}
+
+// Helper function to find the end of a compound, skipping brackets and quotes
+function findCompoundEnd(selector: string, start: number): number {
+  let depth = 0;
+  let quote: string | undefined;
+
+  for (let i = start; i < selector.length; i++) {
+    const char = selector[i];
+    if (char === "\\") {
+      i++;
+    } else if (quote) {
+      if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "(" || char === "[") {
+      depth++;
+    } else if (char === ")" || char === "]") {
+      depth--;
+    } else if (depth === 0 && /[\s>+~]/.test(char)) {
+      return i;
+    }
+  }
+  return selector.length;
+}
+
+function parseCompoundSelector(compound: string): ElementMatcher {
+  const checks: ElementMatcher[] = [];
+  let rest = compound;
+
+  const tag = rest.match(/^(\*|[a-zA-Z][\w-]*)/);
+  if (tag) {
+    const upperTag = tag[1].toUpperCase();
+    if (tag[1] !== "*") {
+      checks.push((element) => element.tag.toUpperCase() === upperTag);
+    }
+    rest = rest.substring(tag[0].length);
+  }
+
+  while (rest.length > 0) {
+    const simple = rest.match(/^([#.])((?:\\.|[\w-])+)/);
+    if (simple) {
+      const name = simple[2].replace(/\\(.)/g, "$1");
+      checks.push(
+        simple[1] === "#"
+          ? (element) => element.attributes.id === name
+          : (element) => getClassList(element).includes(name)
+      );
+      rest = rest.substring(simple[0].length);
+      continue;
+    }
+
+    if (rest.startsWith("[")) {
+      const end = findBracketEnd(rest, "[", "]");
+      checks.push(parseCssAttribute(rest.substring(1, end)));
+      rest = rest.substring(end + 1);
+      continue;
+    }
+
+    const pseudo = rest.match(/^:([\w-]+)/);
+    if (pseudo) {
+      rest = rest.substring(pseudo[0].length);
+      let argument: string | undefined;
+      if (rest.startsWith("(")) {
+        const end = findBracketEnd(rest, "(", ")");
+        argument = rest.substring(1, end);
+        rest = rest.substring(end + 1);
+      }
+      checks.push(createPseudoMatcher(pseudo[1], argument));
+      continue;
+    }
+
+    throw new UnsupportedSelectorError(`unsupported CSS syntax "${compound}"`);
+  }
+
+  return (element) => checks.every((check) => check(element));
+}
+
+function findBracketEnd(text: string, open: string, close: string): number {
+  let depth = 0;
+  let quote: string | undefined;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === "\\") {
+      i++;
+    } else if (quote) {
+      if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === open) {
+      depth++;
+    } else if (char === close && --depth === 0) {
+      return i;
+    }
+  }
+  throw new UnsupportedSelectorError(`unbalanced "${open}" in "${text}"`);
+}
+
+function parseCssAttribute(body: string): ElementMatcher {
+  const match = body.match(
+    /^\s*([\w-]+)\s*(?:([~|^$*]?=)\s*("(?:\\.|[^"])*"|'(?:\\.|[^'])*'|[^\s\]]+)\s*([is])?)?\s*$/
+  );
+  if (!match) {
+    throw new UnsupportedSelectorError(`unsupported attribute "[${body}]"`);
+  }
+
+  const [, name, operator, rawValue, flag] = match;
+  if (!operator) return (element) => name in element.attributes;
+
+  const caseInsensitive = flag === "i";
+  const normalize = (text: string) =>
+    caseInsensitive ? text.toLowerCase() : text;
+  const value = normalize(parseQuoted(rawValue));
+
+  return (element) => {
+    const attribute = element.attributes[name];
+    if (attribute === undefined) return false;
+    const actual = normalize(attribute);
+    switch (operator) {
+      case "=":
+        return actual === value;
+      case "~=":
+        return actual.split(/\s+/).includes(value);
+      case "|=":
+        return actual === value || actual.startsWith(`${value}-`);
+      case "^=":
+        return actual.startsWith(value);
+      case "$=":
+        return actual.endsWith(value);
+      default:
+        return actual.includes(value);
+    }
+  };
+}
+
+function createPseudoMatcher(name: string, argument?: string): ElementMatcher {
+  switch (name) {
+    case "has-text":
+    case "text": {
+      const matcher = createTextMatcher(argument ?? '""');
+      return (element) => matcher(getText(element));
+    }
+    case "text-is": {
+      const value = normalizeText(parseQuoted(argument ?? '""'));
+      return (element) => getText(element) === value;
+    }
+    case "visible":
+      return (element) => !isHidden(element);
+    case "not": {
+      const matcher = createCssMatcher(argument ?? "");
+      return (element) => !matcher(element);
+    }
+    case "is":
+    case "where":
+      return createCssMatcher(argument ?? "");
+    case "has": {
+      const nested = argument ?? "";
+      return (element) => querySelectorChain([element], nested).length > 0;
+    }
+    case "first-child":
+      return (element) => getSiblingIndex(element) === 0;
+    case "last-child":
+      return (element) => {
+        const siblings = element.parent
+          ? getChildElements(element.parent)
+          : [element];
+        return siblings[siblings.length - 1] === element;
+      };
+    case "nth-child": {
+      const index = Number(argument);
+      if (isNaN(index)) {
+        throw new UnsupportedSelectorError(
+          `unsupported :nth-child(${argument})`
+        );
+      }
+      return (element) => getSiblingIndex(element) === index - 1;
+    }
+    default:
+      throw new UnsupportedSelectorError(`unsupported pseudo class ":${name}"`);
+  }
+}
+
+function matchesComplex(
+  element: SnapshotElement,
+  compounds: CompoundSelector[],
+  position: number = compounds.length - 1
+): boolean {
+  const compound = compounds[position];
+  if (!compound.matches(element)) return false;
+  if (position === 0) return true;
+
+  switch (compound.combinator) {
+    case ">":
+      return (
+        !!element.parent &&
+        matchesComplex(element.parent, compounds, position - 1)
+      );
+    case "+": {
+      const previous = getPreviousSiblings(element).pop();
+      return !!previous && matchesComplex(previous, compounds, position - 1);
+    }
+    case "~":
+      return getPreviousSiblings(element).some((sibling) =>
+        matchesComplex(sibling, compounds, position - 1)
+      );
+    default:
+      for (let parent = element.parent; parent; parent = parent.parent) {
+        if (matchesComplex(parent, compounds, position - 1)) return true;
+      }
+      return false;
+  }
+}
+
+// Helper function to split at a separator outside of brackets and quotes
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | undefined;
+  let start = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === "\\") {
+      i++;
+    } else if (quote) {
+      if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "(" || char === "[") {
+      depth++;
+    } else if (char === ")" || char === "]") {
+      depth--;
+    } else if (depth === 0 && char === separator) {
+      parts.push(text.substring(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.substring(start));
+  return parts;
+}
+
+function getDescendants(scope: SnapshotElement): SnapshotElement[] {
+  const descendants: SnapshotElement[] = [];
+  const visit = (element: SnapshotElement) => {
+    for (const child of getChildElements(element)) {
+      descendants.push(child);
+      visit(child);
+    }
+  };
+  visit(scope);
+  return descendants;
+}
+
+function getChildElements(element: SnapshotElement): SnapshotElement[] {
+  return element.children.filter(
+    (child): child is SnapshotElement => typeof child !== "string"
+  );
+}
+
+function getPreviousSiblings(element: SnapshotElement): SnapshotElement[] {
+  if (!element.parent) return [];
+  const siblings = getChildElements(element.parent);
+  return siblings.slice(0, siblings.indexOf(element));
+}
+
+function getSiblingIndex(element: SnapshotElement): number {
+  return element.parent ? getChildElements(element.parent).indexOf(element) : 0;
+}
+
+function getClassList(element: SnapshotElement): string[] {
+  return (element.attributes.class || "").split(/\s+/).filter(Boolean);
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+// Helper function to get the whitespace normalized text content of an element
+function getText(element: SnapshotElement): string {
+  const cached = textCache.get(element);
+  if (cached !== undefined) return cached;
+
+  const parts: string[] = [];
+  const visit = (node: SnapshotElement | string) => {
+    if (typeof node === "string") {
+      parts.push(node);
+      return;
+    }
+    const tag = node.tag.toUpperCase();
+    if (NON_RENDERED_TAGS.has(tag)) return;
+    if (
+      tag === "INPUT" &&
+      ["button", "submit", "reset"].includes(node.attributes.type)
+    ) {
+      parts.push(node.attributes.value || "");
+    }
+    node.children.forEach(visit);
+  };
+  visit(element);
+
+  const text = normalizeText(parts.join(""));
+  textCache.set(element, text);
+  return text;
+}
+
+function isHidden(element: SnapshotElement): boolean {
+  for (
+    let current: SnapshotElement | undefined = element;
+    current;
+    current = current.parent
+  ) {
+    if (NON_RENDERED_TAGS.has(current.tag.toUpperCase())) return true;
+    if ("hidden" in current.attributes) return true;
+    if (current.attributes["aria-hidden"] === "true") return true;
+
+    const style = (current.attributes.style || "").replace(/\s+/g, "");
+    if (/display:none|visibility:hidden/i.test(style)) return true;
+  }
+  return false;
+}
+
+function getRole(element: SnapshotElement): string | undefined {
+  const explicitRole = element.attributes.role?.trim().split(/\s+/)[0];
+  if (explicitRole) return explicitRole.toLowerCase();
+
+  const tag = element.tag.toUpperCase();
+  const attributes = element.attributes;
+  switch (tag) {
+    case "A":
+    case "AREA":
+      return attributes.href !== undefined ? "link" : undefined;
+    case "ARTICLE":
+      return "article";
+    case "ASIDE":
+      return "complementary";
+    case "BUTTON":
+      return "button";
+    case "DATALIST":
+      return "listbox";
+    case "DETAILS":
+    case "FIELDSET":
+      return "group";
+    case "DIALOG":
+      return "dialog";
+    case "FIGURE":
+      return "figure";
+    case "FOOTER":
+      return "contentinfo";
+    case "FORM":
+      return "form";
+    case "H1":
+    case "H2":
+    case "H3":
+    case "H4":
+    case "H5":
+    case "H6":
+      return "heading";
+    case "HEADER":
+      return "banner";
+    case "HR":
+      return "separator";
+    case "IMG":
+      return attributes.alt === "" ? "presentation" : "img";
+    case "INPUT":
+      return getInputRole(element);
+    case "LI":
+      return "listitem";
+    case "MAIN":
+      return "main";
+    case "MENU":
+    case "OL":
+    case "UL":
+      return "list";
+    case "NAV":
+      return "navigation";
+    case "OPTION":
+      return "option";
+    case "P":
+      return "paragraph";
+    case "PROGRESS":
+      return "progressbar";
+    case "SECTION":
+      return attributes["aria-label"] || attributes["aria-labelledby"]
+        ? "region"
+        : undefined;
+    case "SELECT":
+      return "multiple" in attributes || Number(attributes.size) > 1
+        ? "listbox"
+        : "combobox";
+    case "TABLE":
+      return "table";
+    case "TBODY":
+    case "TFOOT":
+    case "THEAD":
+      return "rowgroup";
+    case "TD":
+      return "cell";
+    case "TEXTAREA":
+      return "textbox";
+    case "TH":
+      return "columnheader";
+    case "TR":
+      return "row";
+    default:
+      return undefined;
+  }
+}
+
+function getInputRole(element: SnapshotElement): string | undefined {
+  const type = (element.attributes.type || "text").toLowerCase();
+  switch (type) {
+    case "button":
+    case "image":
+    case "reset":
+    case "submit":
+      return "button";
+    case "checkbox":
+      return "checkbox";
+    case "radio":
+      return "radio";
+    case "range":
+      return "slider";
+    case "number":
+      return "spinbutton";
+    case "hidden":
+      return undefined;
+    case "search":
+      return element.attributes.list ? "combobox" : "searchbox";
+    default:
+      return element.attributes.list ? "combobox" : "textbox";
+  }
+}
+
+function getAccessibleName(element: SnapshotElement): string {
+  const attributes = element.attributes;
+
+  const labelledBy = attributes["aria-labelledby"];
+  if (labelledBy) {
+    const root = getRoot(element);
+    const texts = labelledBy
+      .split(/\s+/)
+      .map((id) => findById(root, id))
+      .filter((label): label is SnapshotElement => !!label)
+      .map(getText);
+    if (texts.length > 0) return normalizeText(texts.join(" "));
+  }
+  if (attributes["aria-label"]?.trim()) {
+    return normalizeText(attributes["aria-label"]);
+  }
+
+  const tag = element.tag.toUpperCase();
+  if (tag === "INPUT") {
+    const type = (attributes.type || "").toLowerCase();
+    if (["button", "submit", "reset"].includes(type)) {
+      return normalizeText(
+        attributes.value ||
+          (type === "submit" ? "Submit" : type === "reset" ? "Reset" : "")
+      );
+    }
+    if (type === "image" && attributes.alt)
+      return normalizeText(attributes.alt);
+  }
+  if (tag === "INPUT" || tag === "TEXTAREA" || tag === "SELECT") {
+    const label = getLabelText(element);
+    if (label) return label;
+  }
+  if (tag === "IMG" && attributes.alt) return normalizeText(attributes.alt);
+
+  if (NAME_FROM_CONTENT_ROLES.has(getRole(element) || "")) {
+    const text = getText(element);
+    if (text) return text;
+  }
+
+  return normalizeText(attributes.title || attributes.placeholder || "");
+}
+
+// Helper function to get the text of the <label> elements of a form control
+function getLabelText(element: SnapshotElement): string | undefined {
+  const labels: string[] = [];
+
+  const id = element.attributes.id;
+  if (id) {
+    for (const candidate of getDescendants(getRoot(element))) {
+      if (
+        candidate.tag.toUpperCase() === "LABEL" &&
+        candidate.attributes.for === id
+      ) {
+        labels.push(getText(candidate));
+      }
+    }
+  }
+  for (let parent = element.parent; parent; parent = parent.parent) {
+    if (parent.tag.toUpperCase() === "LABEL") labels.push(getText(parent));
+  }
+
+  if (labels.length > 0) return normalizeText(labels.join(" "));
+  return element.attributes["aria-label"]
+    ? normalizeText(element.attributes["aria-label"])
+    : undefined;
+}
+
+function getHeadingLevel(element: SnapshotElement): number | undefined {
+  const level = element.tag.toUpperCase().match(/^H([1-6])$/);
+  if (level) return Number(level[1]);
+  const ariaLevel = Number(element.attributes["aria-level"]);
+  return isNaN(ariaLevel) ? undefined : ariaLevel;
+}
+
+function getAriaState(element: SnapshotElement, state: string): boolean {
+  const attributes = element.attributes;
+  const aria = attributes[`aria-${state}`];
+  if (aria !== undefined) return aria === "true" || aria === "mixed";
+  return state in attributes && state !== "expanded" && state !== "pressed";
+}
+
+function getRoot(element: SnapshotElement): SnapshotElement {
+  let root = element;
+  while (root.parent) root = root.parent;
+  return root;
+}
+
+function findById(
+  root: SnapshotElement,
+  id: string
+): SnapshotElement | undefined {
+  if (root.attributes.id === id) return root;
+  return getDescendants(root).find((element) => element.attributes.id === id);
+}
+
+// Helper function to describe a matched element in a few words
+function describeElement(element: SnapshotElement): string {
+  const tag = element.tag.toLowerCase();
+  const id = element.attributes.id ? `#${element.attributes.id}` : "";
+  const testId = element.attributes["data-testid"]
+    ? `[data-testid="${element.attributes["data-testid"]}"]`
+    : "";
+  const text = getText(element);
+  const shortText = text.length > 40 ? `${text.substring(0, 40)}…` : text;
+  return `<${tag}${id}${testId}>${shortText ? ` "${shortText}"` : ""}`;
+}
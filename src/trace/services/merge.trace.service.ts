@@ -0,0 +1,147 @@
+import { ActionEvent } from "@/trace";
+
+// Top-level record fields holding monotonic times
+const MONOTONIC_TIME_FIELDS = ["startTime", "endTime", "time", "timestamp"];
+
+/**
+ * Reads the offset between a trace's monotonic clock and wall clock time from
+ * one of its records. Newer traces record both in "context-options", older
+ * ones only pair them on "before" records. "context-options" is the first
+ * record of a trace, so the first record with an offset is the one to use.
+ */
+export function getClockOffset(record: any): number | undefined {
+  if (
+    record?.type === "context-options" &&
+    typeof record.wallTime === "number" &&
+    typeof record.monotonicTime === "number"
+  ) {
+    return record.wallTime - record.monotonicTime;
+  }
+  if (
+    record?.type === "before" &&
+    typeof record.wallTime === "number" &&
+    typeof record.startTime === "number"
+  ) {
+    return record.wallTime - record.startTime;
+  }
+  return undefined;
+}
+
+/**
+ * Shifts the monotonic times of a record onto the wall clock
+ */
+export function alignRecordTimes(record: any, offset: number): void {
+  if (!record || typeof record !== "object") return;
+
+  for (const field of MONOTONIC_TIME_FIELDS) {
+    if (typeof record[field] === "number") record[field] += offset;
+  }
+
+  // Snapshot records keep their times one level down
+  if (record.type === "frame-snapshot" && record.snapshot) {
+    if (typeof record.snapshot.timestamp === "number") {
+      record.snapshot.timestamp += offset;
+    }
+  }
+  if (record.type === "resource-snapshot" && record.snapshot) {
+    if (typeof record.snapshot._monotonicTime === "number") {
+      record.snapshot._monotonicTime += offset;
+    }
+  }
+}
+
+/**
+ * Merges the runner's test.trace records with the records of every browser
+ * context trace into a single timeline. The records must already be on one
+ * clock, see alignRecordTimes.
+ */
+export function mergeTraceTimelines(
+  runnerEvents: any[],
+  contextEventLists: any[][]
+): any[] {
+  // Records without a time of their own stay right after their predecessor
+  const entries: { event: any; time: number; index: number }[] = [];
+  for (const events of [runnerEvents, ...contextEventLists]) {
+    let previousTime = 0;
+    for (const event of events) {
+      const time = getEventTime(event) ?? previousTime;
+      entries.push({ event, time, index: entries.length });
+      previousTime = time;
+    }
+  }
+
+  return entries
+    .sort((a, b) => a.time - b.time || a.index - b.index)
+    .map(({ event }) => event);
+}
+
+/**
+ * Folds browser-side library calls into the runner steps that issued them.
+ * Newer traces link them through "stepId", older ones share the API name and
+ * wall time.
+ */
+export function mergeLibraryActions(actions: ActionEvent[]): ActionEvent[] {
+  const runnerSteps = new Map<string, ActionEvent>();
+  const runnerStepsByWallTime = new Map<string, ActionEvent>();
+
+  for (const action of actions) {
+    if (action.class !== "Test" || !action.callId) continue;
+    runnerSteps.set(action.callId, action);
+    if (action.wallTime !== undefined) {
+      runnerStepsByWallTime.set(`${action.apiName}@${action.wallTime}`, action);
+    }
+  }
+
+  const merged: ActionEvent[] = [];
+  for (const action of actions) {
+    if (action.class === "Test") {
+      merged.push(action);
+      continue;
+    }
+
+    const step =
+      (action.stepId && runnerSteps.get(action.stepId)) ||
+      (action.wallTime !== undefined
+        ? runnerStepsByWallTime.get(`${action.apiName}@${action.wallTime}`)
+        : undefined);
+
+    if (!step) {
+      merged.push(action);
+      continue;
+    }
+
+    // The runner step keeps its identity, the library call adds page details
+    step.libraryCallId = action.callId;
+    step.selector = step.selector || action.selector;
+    step.value = step.value ?? action.value;
+    step.pageId = step.pageId || action.pageId;
+    step.inputPoint = step.inputPoint || action.inputPoint;
+    step.beforeSnapshot = step.beforeSnapshot || action.beforeSnapshot;
+    step.inputSnapshot = step.inputSnapshot || action.inputSnapshot;
+    step.afterSnapshot = step.afterSnapshot || action.afterSnapshot;
+    // Runner stacks may stop at a sandbox the test runs in, so the library
+    // call's stack is used when the runner's doesn't reach the test code
+    if (!step.location && action.location) {
+      step.stack = action.stack;
+      step.location = action.location;
+    }
+    if (action.logs) step.logs = [...(step.logs || []), ...action.logs];
+    step.error = step.error || action.error;
+  }
+
+  return merged;
+}
+
+// Helper function to get the time a record happened at
+function getEventTime(event: any): number | undefined {
+  if (!event || typeof event !== "object") return undefined;
+  return (
+    event.startTime ??
+    event.time ??
+    event.timestamp ??
+    event.endTime ??
+    event.snapshot?.timestamp ??
+    event.snapshot?._monotonicTime ??
+    event.wallTime
+  );
+}
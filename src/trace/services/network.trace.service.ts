@@ -0,0 +1,195 @@
+import { NetworkRequest, NetworkTimings, TraceResourceReader } from "@/trace";
+
+// Longest request or response body kept in the parsed trace
+const MAX_BODY_LENGTH = 10000;
+
+const TIMING_PHASES: (keyof NetworkTimings)[] = [
+  "blocked",
+  "dns",
+  "connect",
+  "ssl",
+  "send",
+  "wait",
+  "receive",
+];
+
+/**
+ * Maps a HAR-style "resource-snapshot" entry from a .network file into a
+ * network request. Bodies are only referenced by their sha1 here and can be
+ * read later with readRequestBody/readResponseBody.
+ */
+export function parseResourceSnapshot(
+  snapshot: any
+): NetworkRequest | undefined {
+  const request = snapshot?.request;
+  if (!request?.url) return undefined;
+
+  const response = snapshot.response || {};
+  const startTime = Date.parse(snapshot.startedDateTime);
+  const duration =
+    typeof snapshot.time === "number" ? snapshot.time : undefined;
+  const requestHeaders = toHeaderRecord(request.headers);
+
+  // Chromium reports requests that never got a response with status -1
+  const status =
+    typeof response.status === "number" && response.status > 0
+      ? response.status
+      : undefined;
+
+  return {
+    url: request.url,
+    method: request.method || "GET",
+    status,
+    statusText: status ? response.statusText : undefined,
+    httpVersion: response.httpVersion || request.httpVersion,
+    headers: requestHeaders,
+    requestHeaders,
+    responseHeaders: toHeaderRecord(response.headers),
+    requestBodySha1: request.postData?._sha1,
+    responseBodySha1: response.content?._sha1,
+    requestMimeType: request.postData?.mimeType,
+    timestamp: isNaN(startTime) ? undefined : startTime,
+    responseTimestamp:
+      !isNaN(startTime) && duration !== undefined
+        ? startTime + duration
+        : undefined,
+    mimeType: response.content?.mimeType,
+    type: snapshot._resourceType || "other",
+    timing: isNaN(startTime)
+      ? undefined
+      : {
+          startTime,
+          endTime: duration !== undefined ? startTime + duration : undefined,
+          duration,
+        },
+    timings: toNetworkTimings(snapshot.timings),
+    serverIPAddress: snapshot.serverIPAddress,
+    serverPort: snapshot._serverPort,
+    transferSize:
+      typeof response._transferSize === "number" && response._transferSize >= 0
+        ? response._transferSize
+        : undefined,
+    redirectURL: response.redirectURL || undefined,
+    pageId: snapshot.pageref,
+    frameId: snapshot._frameref,
+    error: response._failureText || snapshot._failureText,
+  };
+}
+
+/**
+ * Reads the request body of a network request from the trace resources
+ */
+export async function readRequestBody(
+  request: NetworkRequest,
+  resources: TraceResourceReader
+): Promise<string | undefined> {
+  if (request.requestBody !== undefined) return request.requestBody;
+  if (!request.requestBodySha1) return undefined;
+
+  const content = await resources.readResource(request.requestBodySha1);
+  return content
+    ? decodeBody(content, request.requestMimeType, request.requestBodySha1)
+    : undefined;
+}
+
+/**
+ * Reads the response body of a network request from the trace resources
+ */
+export async function readResponseBody(
+  request: NetworkRequest,
+  resources: TraceResourceReader
+): Promise<string | undefined> {
+  if (request.responseBody !== undefined) return request.responseBody;
+  if (!request.responseBodySha1) return undefined;
+
+  const content = await resources.readResource(request.responseBodySha1);
+  return content
+    ? decodeBody(content, request.mimeType, request.responseBodySha1)
+    : undefined;
+}
+
+/**
+ * Reads the bodies of the requests that failed and of the calls to the
+ * application's API from the trace resources. The bodies of other requests
+ * are mostly scripts, styles and images, and are left to read on demand.
+ */
+export async function loadRequestBodies(
+  requests: NetworkRequest[],
+  resources: TraceResourceReader
+): Promise<void> {
+  for (const request of requests) {
+    if (!isFailedRequest(request) && !isApiRequest(request)) continue;
+
+    request.requestBody = truncateBody(
+      await readRequestBody(request, resources)
+    );
+    request.responseBody = truncateBody(
+      await readResponseBody(request, resources)
+    );
+  }
+}
+
+/**
+ * Tells whether a request got an error response or none at all. Beacons are
+ * often aborted after their response arrived, which isn't a failure.
+ */
+export function isFailedRequest(request: NetworkRequest): boolean {
+  return request.status ? request.status >= 400 : !!request.error;
+}
+
+/**
+ * Tells calls to the application's API apart from page resources such as
+ * scripts, styles and images
+ */
+export function isApiRequest(request: NetworkRequest): boolean {
+  return (
+    request.type === "fetch" ||
+    request.type === "xhr" ||
+    !!request.mimeType?.includes("json") ||
+    /\/(api|graphql)(\/|\?|$)/.test(request.url)
+  );
+}
+
+// Helper function to flatten HAR name/value header lists
+function toHeaderRecord(headers: any): Record<string, string> | undefined {
+  if (!Array.isArray(headers)) return undefined;
+
+  const record: Record<string, string> = {};
+  for (const header of headers) {
+    if (!header?.name) continue;
+    const name = String(header.name).toLowerCase();
+    const value = String(header.value ?? "");
+    record[name] = name in record ? `${record[name]}, ${value}` : value;
+  }
+  return record;
+}
+
+function toNetworkTimings(timings: any): NetworkTimings | undefined {
+  if (!timings || typeof timings !== "object") return undefined;
+
+  const result: NetworkTimings = {};
+  for (const phase of TIMING_PHASES) {
+    if (typeof timings[phase] === "number") result[phase] = timings[phase];
+  }
+  return result;
+}
+
+function truncateBody(body: string | undefined): string | undefined {
+  return body !== undefined && body.length > MAX_BODY_LENGTH
+    ? `${body.substring(0, MAX_BODY_LENGTH)}... (${
+        body.length - MAX_BODY_LENGTH
+      } more characters)`
+    : body;
+}
+
+// Text bodies are returned as is, binary ones base64 encoded
+function decodeBody(
+  content: Buffer,
+  mimeType: string | undefined,
+  sha1: string
+): string {
+  const isText = mimeType
+    ? /^text\/|json|xml|javascript|x-www-form-urlencoded/i.test(mimeType)
+    : /\.(txt|html|json|css|js|svg|xml)$/i.test(sha1);
+  return isText ? content.toString("utf-8") : content.toString("base64");
+}
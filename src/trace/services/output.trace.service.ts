@@ -0,0 +1,84 @@
+import { TestAttachment, TestOutputLine } from "@/trace";
+
+// Longest inline attachment body kept in the parsed trace
+const MAX_ATTACHMENT_BODY_LENGTH = 10000;
+
+/**
+ * Collects what the test printed to stdout and stderr from the runner records
+ */
+export function extractTestOutput(events: any[]): TestOutputLine[] {
+  const output: TestOutputLine[] = [];
+
+  for (const event of events) {
+    if (!event || typeof event !== "object") continue;
+    if (event.type !== "stdout" && event.type !== "stderr") continue;
+
+    // Binary chunks are base64 encoded instead of given as text
+    const text =
+      typeof event.text === "string"
+        ? event.text
+        : typeof event.base64 === "string"
+        ? Buffer.from(event.base64, "base64").toString("utf-8")
+        : "";
+    if (!text) continue;
+
+    output.push({
+      stream: event.type,
+      text: text.replace(/\r?\n$/, ""),
+      timestamp: event.timestamp ?? 0,
+    });
+  }
+
+  return output.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Collects the attachments steps finished with, such as the ones added with
+ * testInfo.attach() or the screenshots the runner takes on failure
+ */
+export function extractAttachments(events: any[]): TestAttachment[] {
+  const attachments: TestAttachment[] = [];
+
+  for (const event of events) {
+    if (!event || typeof event !== "object") continue;
+    if (event.type !== "after" || !Array.isArray(event.attachments)) continue;
+
+    for (const attachment of event.attachments) {
+      if (!attachment || typeof attachment.name !== "string") continue;
+
+      const contentType = attachment.contentType || "application/octet-stream";
+      attachments.push({
+        name: attachment.name,
+        contentType,
+        path: attachment.path || undefined,
+        sha1: attachment.sha1 || undefined,
+        body:
+          typeof attachment.base64 === "string" && isTextContent(contentType)
+            ? Buffer.from(attachment.base64, "base64")
+                .toString("utf-8")
+                .slice(0, MAX_ATTACHMENT_BODY_LENGTH)
+            : undefined,
+        timestamp: event.endTime,
+        callId: event.callId,
+      });
+    }
+  }
+
+  return attachments;
+}
+
+/**
+ * Formats an attachment as its name, content type and where to find it
+ */
+export function describeAttachment(attachment: TestAttachment): string {
+  const location = attachment.path
+    ? ` at ${attachment.path}`
+    : attachment.sha1
+    ? ` (resources/${attachment.sha1})`
+    : "";
+  return `${attachment.name} [${attachment.contentType}]${location}`;
+}
+
+function isTextContent(contentType: string): boolean {
+  return /^text\/|json|xml|javascript/.test(contentType);
+}
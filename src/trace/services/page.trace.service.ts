@@ -0,0 +1,287 @@
+import {
+  ActionEvent,
+  ConsoleMessage,
+  FrameInfo,
+  FrameSnapshot,
+  NavigationEvent,
+  NetworkRequest,
+  PageInfo,
+} from "@/trace";
+
+/**
+ * Builds the pages and frames of a trace with the navigation timeline of each
+ * page from the "event" records of the browser context. Frames of older
+ * traces without those records are taken from the DOM snapshots instead.
+ */
+export function extractPages(
+  events: any[],
+  snapshots: Pick<
+    FrameSnapshot,
+    "pageId" | "frameId" | "frameUrl" | "isMainFrame"
+  >[] = []
+): { pages: PageInfo[]; frames: FrameInfo[] } {
+  const pages = new Map<string, PageInfo>();
+  const frames = new Map<string, FrameInfo>();
+  // Request urls by guid, to follow the redirects of navigation requests
+  const requests = new Map<string, { url: string; redirectedFrom?: string }>();
+  // Child frames attached but not navigated yet, in attach order
+  const pendingFrames: FrameInfo[] = [];
+
+  const getPage = (pageId: string): PageInfo => {
+    let page = pages.get(pageId);
+    if (!page) {
+      page = { pageId, navigations: [] };
+      pages.set(pageId, page);
+    }
+    return page;
+  };
+  const getFrame = (frameId: string): FrameInfo => {
+    let frame = frames.get(frameId);
+    if (!frame) {
+      frame = { frameId, isMainFrame: false };
+      frames.set(frameId, frame);
+    }
+    return frame;
+  };
+  const removePending = (frame: FrameInfo) => {
+    const index = pendingFrames.indexOf(frame);
+    if (index !== -1) pendingFrames.splice(index, 1);
+  };
+
+  for (const event of events) {
+    if (!event || typeof event !== "object" || event.type !== "event") {
+      continue;
+    }
+    const params = event.params || {};
+    const time = event.time;
+
+    switch (`${event.class}.${event.method}`) {
+      case "Frame.__create__": {
+        const initializer = params.initializer || {};
+        const frame = getFrame(params.guid);
+        frame.name = initializer.name || undefined;
+        frame.url = initializer.url || undefined;
+        frame.parentFrameId = initializer.parentFrame?.guid;
+        frame.pageId =
+          frame.pageId ||
+          (frame.parentFrameId
+            ? frames.get(frame.parentFrameId)?.pageId
+            : undefined);
+        frame.attachedAt = time;
+        break;
+      }
+      case "Page.__create__": {
+        const initializer = params.initializer || {};
+        const page = getPage(params.guid);
+        page.createdAt = page.createdAt ?? time;
+        page.viewport = initializer.viewportSize || undefined;
+        page.openerPageId = initializer.opener?.guid;
+        if (initializer.mainFrame?.guid) {
+          const frame = getFrame(initializer.mainFrame.guid);
+          frame.pageId = page.pageId;
+          frame.isMainFrame = true;
+          page.mainFrameId = frame.frameId;
+        }
+        break;
+      }
+      case "BrowserContext.page": {
+        // Older traces pass the page id directly
+        const pageId = params.page?.guid || params.pageId;
+        if (pageId) {
+          const page = getPage(pageId);
+          page.createdAt = page.createdAt ?? time;
+        }
+        break;
+      }
+      case "Page.popup": {
+        if (params.page?.guid && event.pageId) {
+          getPage(params.page.guid).openerPageId = event.pageId;
+        }
+        break;
+      }
+      case "Page.close": {
+        if (event.pageId) getPage(event.pageId).closedAt = time;
+        break;
+      }
+      case "Page.frameAttached": {
+        if (!params.frame?.guid) break;
+        const frame = getFrame(params.frame.guid);
+        frame.pageId = event.pageId || frame.pageId;
+        frame.attachedAt = time;
+        pendingFrames.push(frame);
+        break;
+      }
+      case "Page.frameDetached": {
+        if (!params.frame?.guid) break;
+        const frame = getFrame(params.frame.guid);
+        frame.detachedAt = time;
+        removePending(frame);
+        break;
+      }
+      case "Request.__create__": {
+        const initializer = params.initializer || {};
+        requests.set(params.guid, {
+          url: initializer.url,
+          redirectedFrom: initializer.redirectedFrom?.guid,
+        });
+        break;
+      }
+      case "Frame.navigated": {
+        if (!event.pageId || typeof params.url !== "string") break;
+        const page = getPage(event.pageId);
+
+        // The record doesn't say which frame navigated. A freshly attached
+        // frame navigates right away, anything else is most likely the main
+        // frame, unless a named child frame matches.
+        const frame =
+          pendingFrames.find((f) => f.pageId === page.pageId) ||
+          (params.name
+            ? Array.from(frames.values()).find(
+                (f) =>
+                  f.pageId === page.pageId &&
+                  !f.isMainFrame &&
+                  f.detachedAt === undefined &&
+                  f.name === params.name
+              )
+            : undefined) ||
+          (page.mainFrameId ? frames.get(page.mainFrameId) : undefined);
+
+        if (frame) {
+          frame.url = params.url;
+          frame.name = params.name || frame.name;
+          removePending(frame);
+        }
+
+        page.navigations.push({
+          pageId: page.pageId,
+          frameId: frame?.frameId,
+          url: params.url,
+          timestamp: time,
+          newDocument: !!params.newDocument,
+          redirects: getRedirects(requests, params.newDocument?.request?.guid),
+        });
+        break;
+      }
+      case "Frame.loadstate": {
+        if (!event.pageId || !params.add) break;
+        const navigation = findPendingNavigation(
+          getPage(event.pageId),
+          params.add
+        );
+        if (!navigation) break;
+
+        if (params.add === "domcontentloaded") {
+          navigation.domContentLoadedAt = time;
+        } else if (params.add === "load") {
+          navigation.loadAt = time;
+        }
+        break;
+      }
+    }
+  }
+
+  // Frames seen only in snapshots
+  for (const snapshot of snapshots) {
+    const page = getPage(snapshot.pageId);
+    if (!frames.has(snapshot.frameId)) {
+      frames.set(snapshot.frameId, {
+        frameId: snapshot.frameId,
+        pageId: snapshot.pageId,
+        url: snapshot.frameUrl,
+        isMainFrame: snapshot.isMainFrame !== false,
+      });
+    }
+    if (snapshot.isMainFrame !== false && !page.mainFrameId) {
+      page.mainFrameId = snapshot.frameId;
+    }
+  }
+
+  return {
+    pages: Array.from(pages.values()),
+    frames: Array.from(frames.values()),
+  };
+}
+
+/**
+ * Attributes actions, console messages and requests to the page and frame
+ * they happened in. Traces don't record the frame of actions and console
+ * messages, those get the main frame of their page.
+ */
+export function attributeToFrames(
+  pages: PageInfo[],
+  frames: FrameInfo[],
+  actions: ActionEvent[],
+  consoleMessages: ConsoleMessage[],
+  networkRequests: NetworkRequest[]
+): void {
+  const mainFrames = new Map<string, string>();
+  for (const page of pages) {
+    if (page.mainFrameId) mainFrames.set(page.pageId, page.mainFrameId);
+  }
+  const framePages = new Map<string, string>();
+  for (const frame of frames) {
+    if (frame.pageId) framePages.set(frame.frameId, frame.pageId);
+  }
+
+  for (const item of [...actions, ...consoleMessages, ...networkRequests]) {
+    if (!item.pageId && item.frameId)
+      item.pageId = framePages.get(item.frameId);
+    if (!item.frameId && item.pageId) {
+      item.frameId = mainFrames.get(item.pageId);
+    }
+  }
+}
+
+/**
+ * Lists the navigations of the main frame of a page
+ */
+export function getMainFrameNavigations(page: PageInfo): NavigationEvent[] {
+  return page.navigations.filter(
+    (navigation) =>
+      !navigation.frameId || navigation.frameId === page.mainFrameId
+  );
+}
+
+// Helper function to follow a request back through the requests that were
+// redirected to it
+function getRedirects(
+  requests: Map<string, { url: string; redirectedFrom?: string }>,
+  requestId?: string
+): string[] {
+  const redirects: string[] = [];
+  const visited = new Set<string>();
+
+  let previousId = requestId ? requests.get(requestId)?.redirectedFrom : "";
+  while (previousId && !visited.has(previousId)) {
+    visited.add(previousId);
+    const previous = requests.get(previousId);
+    if (!previous) break;
+    redirects.unshift(previous.url);
+    previousId = previous.redirectedFrom;
+  }
+
+  return redirects;
+}
+
+// Helper function to find the latest document navigation of a page that
+// hasn't reached a load state yet
+function findPendingNavigation(
+  page: PageInfo,
+  loadState: string
+): NavigationEvent | undefined {
+  for (let i = page.navigations.length - 1; i >= 0; i--) {
+    const navigation = page.navigations[i];
+    if (!navigation.newDocument) continue;
+
+    if (loadState === "domcontentloaded") {
+      return navigation.domContentLoadedAt === undefined
+        ? navigation
+        : undefined;
+    }
+    if (loadState === "load") {
+      return navigation.loadAt === undefined ? navigation : undefined;
+    }
+    return undefined;
+  }
+  return undefined;
+}
@@ -1,281 +1,977 @@
+import { Readable } from "stream";
 import {
   TraceFile,
   ParsedTrace,
   NetworkRequest,
   ConsoleMessage,
   ActionEvent,
+  ScreenshotData,
+  FrameSnapshot,
+  FailureLocation,
+  LocatorEvidence,
+  ParseTraceOptions,
+  ParseDiagnostics,
+  StackFrame,
+  TraceEnvironment,
+  TraceFileStream,
 } from "@/trace";
+import { Logger, logger } from "@/ui/classes/logger.class";
+import {
+  buildTestStepTree,
+  findFailingAction,
+  findFailureLocation,
+} from "./build.steps.service";
+import {
+  alignRecordTimes,
+  getClockOffset,
+  mergeLibraryActions,
+  mergeTraceTimelines,
+} from "./merge.trace.service";
+import {
+  loadRequestBodies,
+  parseResourceSnapshot,
+} from "./network.trace.service";
+import { linkActionsToFrames } from "./screencast.trace.service";
+import {
+  renderFailureDom,
+  resolveSnapshotReferences,
+} from "./snapshot.trace.service";
+import {
+  checkFailureLocator,
+  findTargetInputType,
+} from "./locator.trace.service";
+import { TEXT_INPUT_METHOD_PATTERN } from "./redact.trace.service";
+import { parseAssertionError } from "./assertion.trace.service";
+import {
+  classifyFailure,
+  isTestTimeoutError,
+  stripAnsi,
+} from "./classify.trace.service";
+import { attributeToFrames, extractPages } from "./page.trace.service";
+import { extractPageEvents } from "./events.trace.service";
+import { extractAttachments, extractTestOutput } from "./output.trace.service";
+import { parseConsoleEvent } from "./console.trace.service";
+import { extractEnvironment } from "./environment.trace.service";
+import {
+  addTraceVersions,
+  createParseDiagnostics,
+  createRecordValidator,
+  findMissingCompanionFiles,
+  getIncompatibilities,
+  getLatestTraceVersion,
+} from "./schema.trace.service";
+import {
+  compactTraceRecord,
+  readNdjsonStream,
+  readTraceFileStream,
+} from "./stream.trace.service";
+import {
+  findTestFile,
+  getSourceExcerpt,
+  locateActions,
+  parseStackFrames,
+  toStackFrames,
+} from "./source.trace.service";
+
+// Files read a second time have already reported their malformed lines
+const SILENT_LOG = Logger.create({ level: "silent" });
+
+// Record types the page, environment and output extractors work on, the only
+// records held until the whole trace is read
+const KEPT_RECORD_TYPES = ["event", "context-options", "stdout", "stderr"];
+
+// What a first look at a trace file found out about its records
+interface TraceClock {
+  records: number;
+  // Offset of the monotonic clock to wall clock time
+  offset?: number;
+  // Trace format version from the "context-options" record
+  version?: number;
+}
 
 /**
  * Parses raw trace file data into a structured format
  */
 export async function parseTraceFile(
   traceFile: TraceFile,
-  networkFile?: TraceFile,
-  stacksFile?: TraceFile
+  networkFiles: TraceFile[] = [],
+  stacksFiles: TraceFile[] = [],
+  contextFiles: TraceFile[] = [],
+  options: ParseTraceOptions = {}
 ): Promise<ParsedTrace> {
-  let traceData: any = {};
-  let networkData: any = {};
-  let stacksData: any = {};
+  // Files in memory are read the same way as streamed ones
+  const toStream = (file: TraceFile): TraceFileStream => ({
+    filename: file.filename,
+    size: file.content.length,
+    open: () => Readable.from([file.content]),
+  });
+
+  return parseTraceStreams(
+    toStream(traceFile),
+    networkFiles.map(toStream),
+    stacksFiles.map(toStream),
+    contextFiles.map(toStream),
+    options
+  );
+}
+
+/**
+ * Parses a trace whose files are read as streams. Records are handled one by
+ * one as they are decompressed and only what the parsed trace needs of them
+ * is kept, so a trace never has to fit in memory. The DOM snapshots of the
+ * failing action are read in a second pass, once the action is known.
+ * Traces that aren't NDJSON are read whole.
+ */
+export async function parseTraceStreams(
+  traceFile: TraceFileStream,
+  networkFiles: TraceFileStream[] = [],
+  stacksFiles: TraceFileStream[] = [],
+  contextFiles: TraceFileStream[] = [],
+  options: ParseTraceOptions = {}
+): Promise<ParsedTrace> {
+  const log = options.logger ?? logger.child("parse");
+  const diagnostics = createParseDiagnostics();
+
+  // Library calls are located as they are read, so stacks come first. Call
+  // ids are unique across the browser contexts of a test.
+  const stacks = new Map<string, StackFrame[]>();
+  for (const stacksFile of stacksFiles) {
+    try {
+      for (const [callId, frames] of await readStacksFile(stacksFile, log)) {
+        stacks.set(callId, frames);
+      }
+    } catch (error) {
+      log.error("Error parsing stacks data:", error);
+    }
+  }
+  const collector = new TraceRecordCollector(stacks, log);
 
+  // Every trace has to be moved onto the wall clock before its records are
+  // merged, which its first records tell how to do
+  let traceFiles = [traceFile, ...contextFiles];
+  let clocks: TraceClock[] = [];
   try {
-    // Parse the main trace file
-    const contentStr = traceFile.content.toString("utf-8");
+    for (const file of traceFiles) clocks.push(await readTraceClock(file));
+  } catch (error) {
+    log.error("Error reading trace data:", error);
+    throw new Error(`Failed to parse trace file: ${traceFile.filename}`);
+  }
 
-    // Try to parse as NDJSON (Newline Delimited JSON) - common for Playwright traces
-    // Each line is a separate JSON object
-    console.log(`Attempting to parse ${traceFile.filename} as NDJSON format`);
+  let traceData: any = {};
+  if (clocks[0].records === 0) {
+    log.debug("No NDJSON records found, reading the trace file whole");
+    traceData = await readTraceData(traceFile, diagnostics, log);
+    // The records of a JSON trace are handled like those of an NDJSON trace,
+    // but aren't validated or merged with the browser context traces
+    traceFiles = [toRecordStream(traceFile.filename, traceData.events)];
+    clocks = [{ records: traceData.events.length }];
+  } else {
+    addTraceVersions(
+      diagnostics,
+      clocks.map((clock) => clock.version)
+    );
+    if (diagnostics.newerVersions.length > 0) {
+      log.warn(
+        `Trace format version ${diagnostics.newerVersions.join(
+          ", "
+        )} is newer than the supported ones, reading it as version ${getLatestTraceVersion()}`
+      );
+    }
+  }
 
+  // Only align when every trace can be aligned, otherwise keep raw clocks
+  const aligned = clocks.every((clock) => clock.offset !== undefined);
+  for (const [index, file] of traceFiles.entries()) {
+    const offset = aligned ? clocks[index].offset : undefined;
+    const validator =
+      diagnostics.format === "ndjson"
+        ? createRecordValidator(
+            file.filename,
+            diagnostics,
+            clocks[index].version
+          )
+        : undefined;
+
+    collector.startFile();
     try {
-      const lines = contentStr.split(/\r?\n/).filter((line) => line.trim());
-      const parsedData: any[] = [];
-
-      for (const line of lines) {
-        try {
-          if (line.trim()) {
-            const obj = JSON.parse(line);
-            parsedData.push(obj);
-          }
-        } catch (lineError) {
-          console.warn(
-            `Warning: Could not parse line as JSON: ${line.substring(0, 50)}...`
-          );
-        }
-      }
+      const records = await readNdjsonStream(
+        file,
+        (record) => {
+          record = compactTraceRecord(record);
+          if (offset !== undefined) alignRecordTimes(record, offset);
+          validator?.validate(record);
+          collector.addTraceRecord(record, file.filename);
+        },
+        diagnostics,
+        options.onProgress,
+        log
+      );
+      log.debug(`Read ${records} records from ${file.filename}`);
+    } catch (error) {
+      log.error("Error reading trace data:", error);
+      throw new Error(`Failed to parse trace file: ${file.filename}`);
+    }
+    validator?.finish();
+  }
 
-      if (parsedData.length > 0) {
-        console.log(
-          `Successfully parsed ${parsedData.length} events from trace file`
-        );
-        traceData = {
-          events: parsedData,
-          format: "ndjson",
-        };
-      } else {
-        throw new Error("No valid JSON lines found in trace file");
+  // Calls, console messages and screenshots of traces stored as one JSON
+  // document
+  for (const call of asArray(traceData.calls)) collector.addCall(call);
+  for (const event of asArray(traceData.console)) {
+    collector.addConsoleRecord(event);
+  }
+  for (const event of asArray(traceData.screenshots)) {
+    collector.addScreenshotRecord(event);
+  }
+
+  for (const networkFile of networkFiles) {
+    try {
+      await readNetworkFile(networkFile, collector, diagnostics, options, log);
+    } catch (error) {
+      log.error("Error parsing network data:", error);
+    }
+  }
+
+  diagnostics.missingFiles = findMissingCompanionFiles(
+    traceFile,
+    networkFiles,
+    stacksFiles,
+    contextFiles
+  );
+  log.debug(
+    `Trace format version: ${diagnostics.traceVersions.join(", ") || "unknown"}`
+  );
+
+  return buildParsedTrace(
+    traceFile.filename,
+    traceData,
+    collector,
+    traceFiles.map((file, index) => ({
+      file,
+      offset: aligned ? clocks[index].offset : undefined,
+    })),
+    diagnostics,
+    options
+  );
+}
+
+// Helper function to extract the parsed trace from what was collected from
+// the trace files, reading the snapshots the failing action needs
+async function buildParsedTrace(
+  filename: string,
+  traceData: any,
+  collector: TraceRecordCollector,
+  traceFiles: { file: TraceFileStream; offset?: number }[],
+  diagnostics: ParseDiagnostics,
+  options: ParseTraceOptions
+): Promise<ParsedTrace> {
+  const log = options.logger ?? logger.child("parse");
+
+  const actions = collector.getActions();
+  const steps = buildTestStepTree(actions);
+  const screenshots = collector.getScreenshots();
+  linkActionsToFrames(actions, screenshots);
+  const failureLocation = findFailureLocation(steps);
+  const failingAction = findFailingAction(actions, failureLocation);
+  const failingLine = failingAction?.location;
+  const snapshots = await readActionSnapshots(
+    traceFiles.filter(({ file }) => collector.snapshotFiles.has(file.filename)),
+    actions,
+    failingAction,
+    log
+  );
+  const errors = collector.getErrors();
+  const records = collector.getKeptRecords();
+  const environment = extractEnvironment(records);
+  const { pages, frames } = extractPages(records, [
+    ...collector.snapshotFrames.values(),
+  ]);
+  const networkRequests = collector.networkRequests;
+  if (options.resources) {
+    try {
+      await loadRequestBodies(networkRequests, options.resources);
+    } catch (error) {
+      log.warn("Could not read the request bodies from the trace:", error);
+    }
+  }
+  const consoleMessages = collector.getConsoleMessages();
+  attributeToFrames(pages, frames, actions, consoleMessages, networkRequests);
+
+  // Initialize the parsed trace with default values
+  const parsedTrace: ParsedTrace = {
+    testTitle: extractTestTitle(traceData, filename),
+    testFile: extractTestFile(traceData) || findTestFile(actions),
+    browser: extractBrowserInfo(traceData, environment),
+    environment,
+    actions,
+    steps,
+    failureLocation,
+    failureCategory: classifyFailure(errors, failingAction),
+    pages,
+    frames,
+    ...extractPageEvents(records),
+    testOutput: extractTestOutput(records),
+    attachments: extractAttachments(records),
+    networkRequests,
+    consoleMessages,
+    screenshots,
+    snapshots,
+    failureDom: renderFailureDom(actions, snapshots, failureLocation),
+    locatorEvidence: checkLocator(actions, snapshots, failureLocation, log),
+    failingLine,
+    failingSource: failingLine
+      ? getSourceExcerpt(failingLine, options)
+      : undefined,
+    errors,
+    duration: collector.getDuration(),
+    testResult: extractTestResult(traceData, errors, collector.exception),
+    diagnostics,
+  };
+
+  // Print summary of extracted data
+  log.debug("Extracted data summary:");
+  log.debug(`- Actions: ${parsedTrace.actions.length}`);
+  log.debug(`- Test steps: ${parsedTrace.steps.length}`);
+  log.debug(`- Network requests: ${parsedTrace.networkRequests.length}`);
+  log.debug(`- Console messages: ${parsedTrace.consoleMessages.length}`);
+  log.debug(`- Pages: ${parsedTrace.pages.length}`);
+  log.debug(`- Page errors: ${parsedTrace.pageErrors.length}`);
+  log.debug(`- Test output lines: ${parsedTrace.testOutput.length}`);
+  log.debug(`- Attachments: ${parsedTrace.attachments.length}`);
+  log.debug(`- Errors: ${parsedTrace.errors.length}`);
+  log.debug(`- Screenshots: ${parsedTrace.screenshots.length}`);
+  log.debug(`- DOM snapshots: ${parsedTrace.snapshots.length}`);
+  log.debug(`- Parse problems: ${getIncompatibilities(diagnostics).length}`);
+
+  return parsedTrace;
+}
+
+// Helper function to read how a trace file's clock is aligned and which
+// format version it has, from its first records
+async function readTraceClock(file: TraceFileStream): Promise<TraceClock> {
+  const clock: TraceClock = { records: 0 };
+
+  clock.records = await readNdjsonStream(
+    file,
+    (record) => {
+      if (
+        record?.type === "context-options" &&
+        typeof record.version === "number"
+      ) {
+        clock.version = record.version;
       }
-    } catch (ndjsonError) {
-      // If NDJSON parsing fails, try regular JSON as fallback
-      console.log("NDJSON parsing failed, attempting regular JSON parsing");
-      try {
-        traceData = JSON.parse(contentStr);
-        console.log("Successfully parsed trace file as regular JSON");
-      } catch (jsonError) {
-        // If both parsing methods fail, try to read the file as binary
-        console.error("JSON parsing failed:", jsonError);
-        console.log("Treating file as binary Playwright trace format");
-
-        // Just store basic information
-        traceData = {
-          format: "binary",
-          isBinaryTrace: true,
-          filename: traceFile.filename,
-          size: traceFile.content.length,
-          // Add default values for required fields
-          events: [],
-          calls: [],
-        };
+      clock.offset = getClockOffset(record);
+      return clock.offset === undefined;
+    },
+    undefined,
+    undefined,
+    SILENT_LOG
+  );
+  return clock;
+}
+
+// Helper function to read a trace file that isn't NDJSON as one JSON
+// document, or to describe it when it's binary
+async function readTraceData(
+  traceFile: TraceFileStream,
+  diagnostics: ParseDiagnostics,
+  log: Logger
+): Promise<any> {
+  const { content } = await readTraceFileStream(traceFile);
+
+  try {
+    const traceData = JSON.parse(content.toString("utf-8"));
+    diagnostics.format = "json";
+    log.debug("Successfully parsed trace file as regular JSON");
+    return { ...traceData, events: asArray(traceData?.events) };
+  } catch (jsonError) {
+    log.error("JSON parsing failed:", jsonError);
+    log.debug("Treating file as binary Playwright trace format");
+    diagnostics.format = "binary";
+
+    // Just store basic information
+    return {
+      format: "binary",
+      isBinaryTrace: true,
+      filename: traceFile.filename,
+      size: content.length,
+      events: [],
+      calls: [],
+    };
+  }
+}
+
+// Helper function to read the stacks of the library calls. The stacks file
+// is a single JSON document, usually on one line.
+async function readStacksFile(
+  stacksFile: TraceFileStream,
+  log: Logger
+): Promise<Map<string, StackFrame[]>> {
+  log.debug(`Parsing stacks file: ${stacksFile.filename}`);
+  const events: any[] = [];
+  await readNdjsonStream(
+    stacksFile,
+    (record) => {
+      events.push(record);
+    },
+    undefined,
+    undefined,
+    log
+  );
+  if (events.length > 0) return parseStackFrames({ events });
+
+  const { content } = await readTraceFileStream(stacksFile);
+  return parseStackFrames(JSON.parse(content.toString("utf-8")));
+}
+
+// Helper function to read the network file, NDJSON resource snapshots in
+// current traces and a JSON document in older ones
+async function readNetworkFile(
+  networkFile: TraceFileStream,
+  collector: TraceRecordCollector,
+  diagnostics: ParseDiagnostics,
+  options: ParseTraceOptions,
+  log: Logger
+): Promise<void> {
+  log.debug(`Parsing network file: ${networkFile.filename}`);
+  // Malformed lines only count when the file turns out to be NDJSON
+  const lineDiagnostics = createParseDiagnostics();
+  const validator = createRecordValidator(networkFile.filename, diagnostics);
+  const records = await readNdjsonStream(
+    networkFile,
+    (record) => {
+      record = compactTraceRecord(record);
+      validator.validate(record);
+      collector.addNetworkRecord(record);
+    },
+    lineDiagnostics,
+    options.onProgress,
+    log
+  );
+
+  if (records > 0) {
+    validator.finish();
+    diagnostics.malformedLines.push(...lineDiagnostics.malformedLines);
+    log.debug(`Read ${records} network records from ${networkFile.filename}`);
+    return;
+  }
+
+  log.debug("Network NDJSON parsing failed, attempting regular JSON parsing");
+  const { content } = await readTraceFileStream(networkFile);
+  const networkData = parseNetworkJson(content.toString("utf-8"), log);
+  for (const event of findNetworkEntries(networkData.network || networkData)) {
+    collector.addNetworkRecord(event);
+  }
+}
+
+// Helper function to parse a JSON network file, recovering from control
+// characters and trailing commas
+function parseNetworkJson(text: string, log: Logger): any {
+  try {
+    return JSON.parse(text);
+  } catch (jsonError) {
+    log.error("Network file JSON parsing failed:", jsonError);
+    log.debug("Attempting to recover partial network data...");
+  }
+
+  const cleanedContent = text
+    .replace(/[\u0000-\u001F\u007F-\u009F]/g, "") // Remove control characters
+    .replace(/,(\s*[\]}])/g, "$1"); // Remove trailing commas
+  try {
+    return JSON.parse(cleanedContent);
+  } catch (cleanError) {
+    log.error("Failed to recover network data:", cleanError);
+    return [];
+  }
+}
+
+// Helper function to find the network events of a JSON network file, which
+// older tools stored in a few different shapes
+function findNetworkEntries(networkData: any): any[] {
+  if (Array.isArray(networkData)) return networkData;
+  if (!networkData || typeof networkData !== "object") return [];
+  if (Array.isArray(networkData.events)) return networkData.events;
+
+  // Objects that look like network requests
+  return Object.values(networkData).filter(
+    (value: any) =>
+      typeof value === "object" &&
+      value !== null &&
+      ("url" in value ||
+        "method" in value ||
+        "status" in value ||
+        "requestId" in value ||
+        "type" in value)
+  );
+}
+
+// Helper function to read the DOM snapshots actions need from the trace files
+// again: those around the failing action, and those taken before text is
+// typed, to tell which fields take passwords. Snapshots reference unchanged
+// nodes of the earlier snapshots of their frame, so those of the pages asked
+// for are held while reading. Only the failing action's snapshots are
+// returned, with their references resolved.
+async function readActionSnapshots(
+  traceFiles: { file: TraceFileStream; offset?: number }[],
+  actions: ActionEvent[],
+  failingAction: ActionEvent | undefined,
+  log: Logger
+): Promise<FrameSnapshot[]> {
+  const failureNames = [
+    failingAction?.beforeSnapshot,
+    failingAction?.inputSnapshot,
+    failingAction?.afterSnapshot,
+  ].filter((name): name is string => name !== undefined);
+  const inputActions = actions.filter(
+    (action) =>
+      action.selector &&
+      action.beforeSnapshot &&
+      TEXT_INPUT_METHOD_PATTERN.test(action.apiName || action.method || "")
+  );
+  const names = new Set([
+    ...failureNames,
+    ...inputActions.map((action) => action.beforeSnapshot!),
+  ]);
+  if (names.size === 0) return [];
+
+  // Without page ids the snapshots of every page are held
+  const targets = failingAction
+    ? [failingAction, ...inputActions]
+    : inputActions;
+  const pageIds = targets.every((action) => action.pageId)
+    ? new Set(targets.map((action) => action.pageId))
+    : undefined;
+
+  const snapshots: FrameSnapshot[] = [];
+  const found = new Set<string>();
+  // Frames of the snapshot being read, all frames of a page are captured at
+  // once and recorded one after the other
+  let capture: FrameSnapshot[] = [];
+  const finishCapture = () => {
+    if (capture.length === 0) return;
+    const name = capture[0].snapshotName;
+    if (failureNames.includes(name)) snapshots.push(...capture);
+    for (const action of inputActions) {
+      if (action.beforeSnapshot === name) {
+        action.targetInputType = findTargetInputType(capture, action);
       }
     }
+    capture = [];
+  };
 
-    // Parse network file if provided
-    if (networkFile) {
-      console.log(`Parsing network file: ${networkFile.filename}`);
-      try {
-        const networkContentStr = networkFile.content.toString("utf-8");
-
-        // Try to parse as NDJSON first (Newline Delimited JSON)
-        try {
-          console.log("Attempting to parse network file as NDJSON format");
-          const lines = networkContentStr
-            .split(/\r?\n/)
-            .filter((line) => line.trim());
-          const parsedNetworkData: any[] = [];
-
-          for (const line of lines) {
-            try {
-              if (line.trim()) {
-                const obj = JSON.parse(line);
-                parsedNetworkData.push(obj);
-              }
-            } catch (lineError) {
-              console.warn(
-                `Warning: Could not parse network line as JSON: ${line.substring(
-                  0,
-                  50
-                )}...`
-              );
-            }
+  try {
+    for (const { file, offset } of traceFiles) {
+      if (pageIds && found.size === names.size) break;
+      // Snapshots of each frame so far, in recording order
+      const frameSnapshots = new Map<string, FrameSnapshot[]>();
+
+      await readNdjsonStream(
+        file,
+        (record) => {
+          const snapshot: FrameSnapshot | undefined = record?.snapshot;
+          if (record?.type !== "frame-snapshot" || !snapshot?.snapshotName) {
+            return;
           }
+          if (pageIds && !pageIds.has(snapshot.pageId)) return;
+          if (capture[0]?.snapshotName !== snapshot.snapshotName) {
+            finishCapture();
+          }
+          // A later snapshot of the pages means the ones asked for are
+          // complete
+          if (
+            pageIds &&
+            !names.has(snapshot.snapshotName) &&
+            found.size === names.size
+          ) {
+            return false;
+          }
+          if (offset !== undefined) alignRecordTimes(record, offset);
 
-          if (parsedNetworkData.length > 0) {
-            console.log(
-              `Successfully parsed ${parsedNetworkData.length} network events from trace file`
-            );
-            networkData = {
-              events: parsedNetworkData,
-              format: "ndjson",
-            };
-          } else {
-            throw new Error("No valid JSON lines found in network file");
+          let earlier = frameSnapshots.get(snapshot.frameId);
+          if (!earlier) {
+            earlier = [];
+            frameSnapshots.set(snapshot.frameId, earlier);
           }
-        } catch (ndjsonError) {
-          // If NDJSON parsing fails, try regular JSON as fallback
-          console.log(
-            "Network NDJSON parsing failed, attempting regular JSON parsing"
-          );
-          try {
-            networkData = JSON.parse(networkContentStr);
-            console.log("Successfully parsed network file as regular JSON");
-          } catch (jsonError) {
-            console.error("Network file JSON parsing failed:", jsonError);
-
-            // Try to extract partial data if possible
-            console.log("Attempting to recover partial network data...");
-
-            // Try to parse the file with a more lenient approach by removing problematic characters
-            const cleanedContent = networkContentStr
-              .replace(/[\u0000-\u001F\u007F-\u009F]/g, "") // Remove control characters
-              .replace(/,(\s*[\]}])/g, "$1"); // Remove trailing commas
-
-            try {
-              networkData = JSON.parse(cleanedContent);
-              console.log("Successfully parsed cleaned network file");
-            } catch (cleanError) {
-              console.error("Failed to recover network data:", cleanError);
-
-              // Create an empty network data object to avoid failures down the line
-              console.log("Using empty network data structure");
-              networkData = { events: [] };
-            }
+          earlier.push(snapshot);
+          if (names.has(snapshot.snapshotName)) {
+            capture.push(resolveSnapshotReferences(earlier));
+            found.add(snapshot.snapshotName);
           }
-        }
+        },
+        undefined,
+        undefined,
+        SILENT_LOG
+      );
+      finishCapture();
+    }
+  } catch (error) {
+    log.warn("Could not read the DOM snapshots of the actions:", error);
+  }
+
+  return snapshots;
+}
+
+// Helper function to re-run the failing selector. The locator engine only
+// covers part of Playwright's, and a bad selector must not fail the parse.
+function checkLocator(
+  actions: ActionEvent[],
+  snapshots: FrameSnapshot[],
+  failureLocation: FailureLocation | undefined,
+  log: Logger
+): LocatorEvidence | undefined {
+  try {
+    return checkFailureLocator(actions, snapshots, failureLocation);
+  } catch (error) {
+    log.warn("Could not check the failing selector against the DOM:", error);
+    return undefined;
+  }
+}
 
-        console.log("Network data processing complete");
-      } catch (error) {
-        console.error("Error parsing network data:", error);
-        // Create an empty network data object to avoid failures
-        networkData = { events: [] };
+/**
+ * Builds the parts of a parsed trace from its records as they are read, so
+ * that no record has to be held after it is handled. Only the few records
+ * the page, environment and output extractors work on are kept.
+ */
+class TraceRecordCollector {
+  readonly networkRequests: NetworkRequest[] = [];
+  // Frames seen in DOM snapshots, for traces without frame events
+  readonly snapshotFrames = new Map<
+    string,
+    Pick<FrameSnapshot, "pageId" | "frameId" | "frameUrl" | "isMainFrame">
+  >();
+  // Trace files with DOM snapshots, to read again for the ones needed
+  readonly snapshotFiles = new Set<string>();
+  // First uncaught exception of a protocol trace
+  exception?: { message: string; stack?: string };
+
+  // Playwright calls by callId, their records may arrive out of order
+  private readonly calls = new Map<string, ActionEvent>();
+  // Calls of JSON traces and protocol events
+  private readonly legacyActions: ActionEvent[] = [];
+  private readonly protocolActions: ActionEvent[] = [];
+  private readonly consoleMessages: ConsoleMessage[] = [];
+  private readonly screenshots: ScreenshotData[] = [];
+  private readonly errors: ParsedTrace["errors"] = [];
+  private readonly runnerErrors: ParsedTrace["errors"] = [];
+  // Kept records of each trace file
+  private readonly records: any[][] = [];
+  // Time of the previous record of the current file
+  private previousTime = 0;
+  private startTime = Number.MAX_SAFE_INTEGER;
+  private endTime = 0;
+
+  constructor(
+    private readonly stacks: Map<string, StackFrame[]>,
+    private readonly log: Logger
+  ) {}
+
+  /**
+   * Starts collecting the records of the next trace file
+   */
+  startFile(): void {
+    this.records.push([]);
+    this.previousTime = 0;
+  }
+
+  addTraceRecord(record: any, filename: string): void {
+    if (!record || typeof record !== "object") return;
+
+    try {
+      if (typeof record.callId === "string") this.addCallRecord(record);
+      // Playwright records carry a "type" and are handled above or elsewhere
+      if (record.method && !record.type) {
+        this.protocolActions.push({
+          type: record.method,
+          timestamp: record.time || 0,
+          error: record.error?.message,
+        });
+      }
+
+      if (record.type === "resource-snapshot") {
+        processResourceSnapshot(record, this.networkRequests);
+      } else if (
+        typeof record.method === "string" &&
+        record.method.startsWith("Network.")
+      ) {
+        processNetworkEvent(record, this.networkRequests);
       }
+      if (record.type === "frame-snapshot" && record.snapshot?.snapshotName) {
+        this.addSnapshotFrame(record.snapshot, filename);
+      }
+      if (!this.exception && record.method === "Runtime.exceptionThrown") {
+        this.exception = {
+          message: record.params?.exceptionDetails?.text || "Unknown exception",
+          stack: record.params?.exceptionDetails?.stackTrace?.toString(),
+        };
+      }
+
+      this.addConsoleRecord(record);
+      this.addScreenshotRecord(record);
+      this.addErrorRecord(record);
+      this.addTime(record);
+
+      if (
+        KEPT_RECORD_TYPES.includes(record.type) ||
+        (record.type === "before" && record.class === "Dialog") ||
+        (record.type === "after" && Array.isArray(record.attachments))
+      ) {
+        this.records[this.records.length - 1].push(record);
+      }
+    } catch (error) {
+      this.log.warn(`Could not process a record of ${filename}:`, error);
     }
+  }
 
-    // Parse stacks file if provided
-    if (stacksFile) {
-      console.log(`Parsing stacks file: ${stacksFile.filename}`);
-      try {
-        const stacksContentStr = stacksFile.content.toString("utf-8");
-
-        // Try to parse as NDJSON first
-        try {
-          console.log("Attempting to parse stacks file as NDJSON format");
-          const lines = stacksContentStr
-            .split(/\r?\n/)
-            .filter((line) => line.trim());
-          const parsedStacksData: any[] = [];
-
-          for (const line of lines) {
-            try {
-              if (line.trim()) {
-                const obj = JSON.parse(line);
-                parsedStacksData.push(obj);
-              }
-            } catch (lineError) {
-              console.warn(
-                `Warning: Could not parse stacks line as JSON: ${line.substring(
-                  0,
-                  50
-                )}...`
-              );
-            }
-          }
+  addNetworkRecord(record: any): void {
+    if (!record || typeof record !== "object") return;
+
+    // Check if this is a HAR entry or a network event from DevTools protocol
+    if (record.type === "resource-snapshot") {
+      processResourceSnapshot(record, this.networkRequests);
+    } else if (
+      typeof record.method === "string" &&
+      record.method.startsWith("Network.")
+    ) {
+      processNetworkEvent(record, this.networkRequests);
+    } else {
+      // Handle direct network objects
+      processDirectNetworkObject(record, this.networkRequests);
+    }
+  }
 
-          if (parsedStacksData.length > 0) {
-            console.log(
-              `Successfully parsed ${parsedStacksData.length} stack entries from trace file`
-            );
-            stacksData = {
-              events: parsedStacksData,
-              format: "ndjson",
-            };
-          } else {
-            throw new Error("No valid JSON lines found in stacks file");
-          }
-        } catch (ndjsonError) {
-          // If NDJSON parsing fails, try regular JSON
-          console.log(
-            "Stacks NDJSON parsing failed, attempting regular JSON parsing"
-          );
-          try {
-            stacksData = JSON.parse(stacksContentStr);
-            console.log("Successfully parsed stacks file as regular JSON");
-          } catch (jsonError) {
-            console.error("Stacks file JSON parsing failed:", jsonError);
-            // Create an empty stacks data object
-            stacksData = { events: [] };
-          }
-        }
-      } catch (error) {
-        console.error("Error parsing stacks data:", error);
-        stacksData = { events: [] };
+  /**
+   * Adds an API call of a trace stored as one JSON document
+   */
+  addCall(call: any): void {
+    if (!call || typeof call !== "object") return;
+
+    if (call.method && call.params) {
+      this.legacyActions.push({
+        type: call.method,
+        selector: call.params.selector,
+        value: call.params.value,
+        timestamp: call.startTime || 0,
+        duration: call.endTime ? call.endTime - call.startTime : undefined,
+        error: call.error?.message,
+      });
+    }
+    if (call.error) {
+      this.errors.push({
+        message: call.error.message || "Unknown error",
+        stack: call.error.stack,
+        timestamp: call.endTime || call.startTime || 0,
+      });
+    }
+    this.addTime(call);
+  }
+
+  addConsoleRecord(record: any): void {
+    const message = parseConsoleEvent(record);
+    if (message) this.consoleMessages.push(message);
+  }
+
+  addScreenshotRecord(record: any): void {
+    if (!record || typeof record !== "object") return;
+
+    if (record.type === "screencast-frame") {
+      // Playwright frames reference a jpeg in resources/ by its sha1
+      this.screenshots.push({
+        timestamp: record.timestamp || 0,
+        sha1: record.sha1,
+        data: record.data,
+        pageId: record.pageId,
+        width: record.width,
+        height: record.height,
+      });
+    } else if (record.method === "Page.screencastFrame") {
+      this.screenshots.push({
+        timestamp: record.timestamp || record.time || 0,
+        data: record.params?.data || record.data || "",
+        title: record.params?.metadata?.title,
+      });
+    }
+  }
+
+  /**
+   * Completes the Playwright calls, folding library calls into the runner
+   * steps that issued them
+   */
+  getActions(): ActionEvent[] {
+    const callActions: ActionEvent[] = [];
+    for (const action of this.calls.values()) {
+      // Skip calls whose "before" record was never seen
+      if (!action.type) continue;
+
+      if (action.startTime !== undefined && action.endTime !== undefined) {
+        action.duration = action.endTime - action.startTime;
       }
+      if (action.logs) {
+        action.logs.sort((a, b) => a.time - b.time);
+      }
+      callActions.push(action);
     }
-  } catch (error) {
-    console.error("Error parsing trace data:", error);
-    throw new Error(`Failed to parse trace file: ${traceFile.filename}`);
+    // Library calls are located before they are folded into runner steps
+    locateActions(callActions);
+
+    return [
+      ...this.legacyActions,
+      ...mergeLibraryActions(callActions),
+      ...this.protocolActions,
+    ].sort((a, b) => a.timestamp - b.timestamp);
   }
 
-  // Merge data from all files
-  console.log(
-    `Primary trace data contains ${
-      Array.isArray(traceData.events) ? traceData.events.length : 0
-    } events`
-  );
+  getConsoleMessages(): ConsoleMessage[] {
+    return this.consoleMessages.sort((a, b) => a.timestamp - b.timestamp);
+  }
 
-  if (networkData && networkData.events) {
-    console.log(`Network data contains ${networkData.events.length} events`);
-  } else if (networkData && Array.isArray(networkData)) {
-    console.log(`Network data contains ${networkData.length} items`);
-  } else {
-    console.log("Network data format unknown or empty");
+  getScreenshots(): ScreenshotData[] {
+    return this.screenshots.sort((a, b) => a.timestamp - b.timestamp);
   }
 
-  if (stacksData && stacksData.events) {
-    console.log(`Stacks data contains ${stacksData.events.length} events`);
-  } else if (stacksData && Array.isArray(stacksData)) {
-    console.log(`Stacks data contains ${stacksData.length} items`);
-  } else {
-    console.log("Stacks data format unknown or empty");
+  getErrors(): ParsedTrace["errors"] {
+    const errors = [...this.errors];
+
+    // Failed steps already reported most of them
+    for (const runnerError of this.runnerErrors) {
+      if (!errors.some((error) => error.message === runnerError.message)) {
+        errors.push(runnerError);
+      }
+    }
+
+    // Runner errors are colored for the terminal, and assertion errors carry
+    // the matcher details in their message
+    for (const error of errors) {
+      error.message = stripAnsi(error.message);
+      if (error.stack) error.stack = stripAnsi(error.stack);
+      error.assertion = parseAssertionError(error.message);
+    }
+
+    return errors.sort((a, b) => a.timestamp - b.timestamp);
   }
 
-  const mergedData = {
-    ...traceData,
-    network: networkData.network || networkData,
-    stacks: stacksData.stacks || stacksData,
-  };
+  getDuration(): ParsedTrace["duration"] {
+    // Fall back to reasonable defaults if no times found
+    const start =
+      this.startTime === Number.MAX_SAFE_INTEGER ? 0 : this.startTime;
+    const end = this.endTime === 0 ? start + 1000 : this.endTime;
+    return { start, end, total: end - start };
+  }
 
-  // Initialize the parsed trace with default values
-  const parsedTrace: ParsedTrace = {
-    testTitle: extractTestTitle(mergedData, traceFile.filename),
-    testFile: extractTestFile(mergedData),
-    browser: extractBrowserInfo(mergedData),
-    actions: extractActions(mergedData),
-    networkRequests: extractNetworkRequests(mergedData),
-    consoleMessages: extractConsoleMessages(mergedData),
-    screenshots: extractScreenshots(mergedData),
-    errors: extractErrors(mergedData),
-    duration: extractDuration(mergedData),
-    testResult: extractTestResult(mergedData),
-  };
+  /**
+   * Returns the kept records of all trace files as one timeline
+   */
+  getKeptRecords(): any[] {
+    const [first = [], ...others] = this.records;
+    return mergeTraceTimelines(first, others);
+  }
 
-  // Print summary of extracted data
-  console.log("Extracted data summary:");
-  console.log(`- Actions: ${parsedTrace.actions.length}`);
-  console.log(`- Network requests: ${parsedTrace.networkRequests.length}`);
-  console.log(`- Console messages: ${parsedTrace.consoleMessages.length}`);
-  console.log(`- Errors: ${parsedTrace.errors.length}`);
-  console.log(`- Screenshots: ${parsedTrace.screenshots.length}`);
+  // Pairs Playwright "before"/"after" records by callId into complete
+  // actions, attaching "input" points and the per-call "log" lines
+  private addCallRecord(record: any): void {
+    if (!["before", "after", "input", "log"].includes(record.type)) return;
 
-  return parsedTrace;
+    let action = this.calls.get(record.callId);
+    if (!action) {
+      action = { type: "", callId: record.callId, timestamp: 0 };
+      this.calls.set(record.callId, action);
+    }
+
+    switch (record.type) {
+      case "before": {
+        const params = record.params || {};
+        action.type = record.apiName || record.method || "unknown";
+        action.apiName = record.apiName;
+        action.class = record.class;
+        action.method = record.method;
+        action.parentId = record.parentId;
+        action.stepId = record.stepId;
+        action.wallTime = record.wallTime;
+        action.params = params;
+        action.selector =
+          typeof params.selector === "string" ? params.selector : undefined;
+        action.value =
+          params.value !== undefined ? String(params.value) : undefined;
+        action.startTime = record.startTime;
+        action.timestamp = record.startTime ?? record.wallTime ?? 0;
+        action.pageId = record.pageId;
+        action.beforeSnapshot = record.beforeSnapshot;
+        // Runner records carry their stack, library calls have theirs in the
+        // stacks file
+        action.stack =
+          toStackFrames(record.stack) || this.stacks.get(record.callId);
+        break;
+      }
+      case "after": {
+        action.endTime = record.endTime;
+        action.afterSnapshot = record.afterSnapshot;
+        if (record.error) {
+          action.error = stripAnsi(
+            record.error.message || record.error.name || "Unknown error"
+          );
+        }
+        break;
+      }
+      case "input": {
+        if (record.point) {
+          action.inputPoint = { x: record.point.x, y: record.point.y };
+        }
+        action.inputSnapshot = record.inputSnapshot;
+        break;
+      }
+      case "log": {
+        if (!action.logs) action.logs = [];
+        action.logs.push({
+          time: record.time || 0,
+          message: String(record.message ?? "").trim(),
+        });
+        break;
+      }
+    }
+  }
+
+  private addErrorRecord(record: any): void {
+    if (record.error || (record.method && record.method.includes("Error"))) {
+      this.errors.push({
+        message:
+          record.error?.message || record.params?.message || "Unknown error",
+        stack: record.error?.stack || record.params?.stack,
+        timestamp: record.timestamp || record.time || record.endTime || 0,
+      });
+    } else if (record.type === "error" && typeof record.message === "string") {
+      // Errors the runner reports for the test itself, such as a test
+      // timeout. They have no time, so use the time of the previous record.
+      this.runnerErrors.push({
+        message: record.message,
+        timestamp: this.previousTime,
+      });
+    }
+
+    this.previousTime =
+      record.endTime ?? record.startTime ?? record.time ?? this.previousTime;
+  }
+
+  private addSnapshotFrame(snapshot: FrameSnapshot, filename: string): void {
+    this.snapshotFiles.add(filename);
+    if (this.snapshotFrames.has(snapshot.frameId)) return;
+
+    this.snapshotFrames.set(snapshot.frameId, {
+      pageId: snapshot.pageId,
+      frameId: snapshot.frameId,
+      frameUrl: snapshot.frameUrl,
+      isMainFrame: snapshot.isMainFrame,
+    });
+  }
+
+  private addTime(record: any): void {
+    // Records such as "after" only carry an end time
+    const start =
+      record.startTime || record.timestamp || record.time || record.endTime;
+    if (!start) return;
+    const end = record.endTime || start;
+
+    if (start < this.startTime) this.startTime = start;
+    if (end > this.endTime) this.endTime = end;
+  }
 }
 
 // Helper functions to extract different parts of the trace data
@@ -296,7 +992,7 @@ function extractTestFile(traceData: any): string | undefined {
   const calls = traceData.calls || [];
   for (const call of calls) {
     if (call.stack && typeof call.stack === "string") {
-      const match = call.stack.match(/at\s+.+\((.+\.js)/);
+      const match = call.stack.match(/at\s+.+\((.+\.[cm]?[jt]sx?):\d+/);
       if (match && match[1]) return match[1];
     }
   }
@@ -304,7 +1000,10 @@ function extractTestFile(traceData: any): string | undefined {
   return undefined;
 }
 
-function extractBrowserInfo(traceData: any): {
+function extractBrowserInfo(
+  traceData: any,
+  environment: TraceEnvironment
+): {
   name: string;
   version?: string;
   platform?: string;
@@ -330,188 +1029,24 @@ function extractBrowserInfo(traceData: any): {
     }
   }
 
-  return browserInfo;
-}
-
-function extractActions(traceData: any): ActionEvent[] {
-  const actions: ActionEvent[] = [];
-
-  try {
-    // Look for actions in different places depending on trace format
-    const events = Array.isArray(traceData.events) ? traceData.events : [];
-    const calls = Array.isArray(traceData.calls) ? traceData.calls : [];
-
-    // Process API calls as actions
-    for (const call of calls) {
-      if (!call || typeof call !== "object") continue;
-
-      if (call.method && call.params) {
-        actions.push({
-          type: call.method,
-          selector: call.params.selector,
-          value: call.params.value,
-          timestamp: call.startTime || 0,
-          duration: call.endTime ? call.endTime - call.startTime : undefined,
-          error: call.error?.message,
-        });
-      }
-    }
-
-    // Process events as actions
-    for (const event of events) {
-      if (!event || typeof event !== "object") continue;
-
-      if (event.method) {
-        actions.push({
-          type: event.method,
-          timestamp: event.time || 0,
-          error: event.error?.message,
-        });
-      }
-    }
-  } catch (error) {
-    console.error("Error processing actions:", error);
-    // Continue with what we have so far
+  // Context options of the browser contexts
+  if (environment.browserName) {
+    return {
+      name: environment.browserName,
+      version: environment.browserVersion,
+      platform: environment.platform,
+    };
   }
 
-  return actions.sort((a, b) => a.timestamp - b.timestamp);
+  return browserInfo;
 }
 
-function extractNetworkRequests(traceData: any): NetworkRequest[] {
-  const requests: NetworkRequest[] = [];
-
-  try {
-    // Process events from the primary trace file first
-    console.log("Processing network events from primary trace...");
-    const events = Array.isArray(traceData.events) ? traceData.events : [];
-    console.log(`Found ${events.length} network events in primary trace`);
-
-    // Extract network events from the primary trace
-    for (const event of events) {
-      if (!event || typeof event !== "object") continue;
-
-      // Check if this is a network event
-      if (
-        event.method &&
-        typeof event.method === "string" &&
-        event.method.startsWith("Network.")
-      ) {
-        processNetworkEvent(event, requests);
-      }
-    }
-
-    console.log(
-      `Extracted ${requests.length} network requests from primary trace`
-    );
-
-    // Then process the supplementary network trace file data
-    console.log("Processing supplemental network data...");
-
-    // Make sure networkEvents is always an array
-    let networkEvents: any[] = [];
-    if (traceData.network) {
-      if (Array.isArray(traceData.network)) {
-        console.log(
-          `Found ${traceData.network.length} network items in array format`
-        );
-        networkEvents = traceData.network;
-      } else if (typeof traceData.network === "object") {
-        // Some formats might have network data in a different structure
-        console.log(
-          "Network data is not an array, checking for alternative formats"
-        );
-
-        // Try to extract network events if they're stored differently
-        if (
-          traceData.network.events &&
-          Array.isArray(traceData.network.events)
-        ) {
-          console.log(
-            `Found ${traceData.network.events.length} events in network.events`
-          );
-          networkEvents = traceData.network.events;
-        } else if (
-          traceData.network.format === "ndjson" &&
-          Array.isArray(traceData.network.events)
-        ) {
-          // Handle our custom NDJSON format from the parser
-          console.log(
-            `Found ${traceData.network.events.length} events in NDJSON format`
-          );
-          networkEvents = traceData.network.events;
-        } else {
-          // If we can't find network events in expected formats, try to infer structure
-          console.log(
-            "Could not find network events in expected format, trying to infer structure"
-          );
-
-          // Try to collect all potential request objects
-          const potentialRequests: any[] = [];
-
-          // If we have a network data object with properties that might be requests
-          Object.entries(traceData.network).forEach(([key, value]) => {
-            if (typeof value === "object" && value !== null) {
-              // Check if the object looks like a network request
-              if (
-                "url" in value ||
-                "method" in value ||
-                "status" in value ||
-                "requestId" in value ||
-                "type" in value
-              ) {
-                potentialRequests.push(value);
-              }
-            }
-          });
-
-          if (potentialRequests.length > 0) {
-            console.log(
-              `Inferred ${potentialRequests.length} potential network requests`
-            );
-            networkEvents = potentialRequests;
-          } else {
-            console.log(
-              "Could not infer network event structure, continuing with empty array"
-            );
-          }
-        }
-      }
-    }
-
-    // Process the supplementary network events
-    const initialRequestCount = requests.length;
-    console.log(
-      `Processing ${networkEvents.length} supplemental network events`
-    );
-
-    for (const event of networkEvents) {
-      if (!event || typeof event !== "object") continue;
-
-      // Check if this is a network event from DevTools protocol
-      if (
-        event.method &&
-        typeof event.method === "string" &&
-        event.method.startsWith("Network.")
-      ) {
-        processNetworkEvent(event, requests);
-      } else {
-        // Handle direct network objects
-        processDirectNetworkObject(event, requests);
-      }
-    }
-
-    console.log(
-      `Added ${
-        requests.length - initialRequestCount
-      } network requests from supplemental data`
-    );
-    console.log(`Total extracted network requests: ${requests.length}`);
-  } catch (error) {
-    console.error("Error processing network requests:", error);
-    // Continue with what we have so far
+// Helper function to process HAR-style resource snapshots
+function processResourceSnapshot(event: any, requests: NetworkRequest[]): void {
+  const request = parseResourceSnapshot(event.snapshot);
+  if (request) {
+    requests.push({ requestId: `req_${requests.length}`, ...request });
   }
-
-  return requests;
 }
 
 // Helper function to process DevTools protocol network events
@@ -592,201 +1127,61 @@ function processDirectNetworkObject(
   }
 }
 
-function extractConsoleMessages(traceData: any): ConsoleMessage[] {
-  const messages: ConsoleMessage[] = [];
-
-  try {
-    // Look for console messages in different places depending on trace format
-    const events = Array.isArray(traceData.events) ? traceData.events : [];
-    const consoleEvents = Array.isArray(traceData.console)
-      ? traceData.console
-      : [];
-
-    // Process console events
-    for (const event of [...events, ...consoleEvents]) {
-      if (!event || typeof event !== "object") continue;
-
-      if (
-        event.method === "Runtime.consoleAPICalled" ||
-        event.type === "console"
-      ) {
-        messages.push({
-          type: event.params?.type || event.type || "log",
-          text:
-            event.params?.args?.[0]?.value || event.text || event.message || "",
-          timestamp: event.timestamp || event.time || 0,
-          stackTrace: event.params?.stackTrace?.toString() || event.stack,
-        });
-      }
-    }
-  } catch (error) {
-    console.error("Error processing console messages:", error);
-    // Continue with what we have so far
+function extractTestResult(
+  traceData: any,
+  errors: ParsedTrace["errors"],
+  exception?: { message: string; stack?: string }
+): ParsedTrace["testResult"] {
+  const result = findTestResult(traceData, errors, exception);
+
+  // Results from metadata or protocol events may still be colored
+  if (result.error) {
+    result.error = {
+      message: stripAnsi(String(result.error.message ?? "")),
+      stack: result.error.stack ? stripAnsi(result.error.stack) : undefined,
+    };
   }
-
-  return messages.sort((a, b) => a.timestamp - b.timestamp);
+  return result;
 }
 
-function extractScreenshots(
-  traceData: any
-): { timestamp: number; data: string; title?: string }[] {
-  const screenshots: { timestamp: number; data: string; title?: string }[] = [];
-
-  try {
-    // Look for screenshots in different places depending on trace format
-    const events = Array.isArray(traceData.events) ? traceData.events : [];
-    const screenshotEvents = Array.isArray(traceData.screenshots)
-      ? traceData.screenshots
-      : [];
-
-    // Process screenshot events
-    for (const event of [...events, ...screenshotEvents]) {
-      if (!event || typeof event !== "object") continue;
-
-      if (
-        event.method === "Page.screencastFrame" ||
-        event.type === "screencast-frame"
-      ) {
-        screenshots.push({
-          timestamp: event.timestamp || event.time || 0,
-          data: event.params?.data || event.data || "",
-          title: event.params?.metadata?.title,
-        });
-      }
-    }
-  } catch (error) {
-    console.error("Error processing screenshots:", error);
-    // Continue with what we have so far
+function findTestResult(
+  traceData: any,
+  errors: ParsedTrace["errors"],
+  exception?: { message: string; stack?: string }
+): ParsedTrace["testResult"] {
+  // Default to failed if there are any errors
+  if (errors.length > 0) {
+    const timedOut = errors.some((error) => isTestTimeoutError(error.message));
+    return {
+      status: timedOut ? "timedOut" : "failed",
+      error: {
+        message: errors[0].message,
+        stack: errors[0].stack,
+      },
+    };
   }
 
-  return screenshots.sort((a, b) => a.timestamp - b.timestamp);
-}
-
-function extractErrors(
-  traceData: any
-): { message: string; stack?: string; timestamp: number }[] {
-  const errors: { message: string; stack?: string; timestamp: number }[] = [];
+  // Look for test result in metadata
+  if (traceData.result) return traceData.result;
+  if (traceData.metadata?.result) return traceData.metadata.result;
 
-  try {
-    // Look for errors in different places depending on trace format
-    const events = Array.isArray(traceData.events) ? traceData.events : [];
-    const calls = Array.isArray(traceData.calls) ? traceData.calls : [];
-
-    // Process error events
-    for (const event of events) {
-      if (!event || typeof event !== "object") continue;
-
-      if (event.error || (event.method && event.method.includes("Error"))) {
-        errors.push({
-          message:
-            event.error?.message || event.params?.message || "Unknown error",
-          stack: event.error?.stack || event.params?.stack,
-          timestamp: event.timestamp || event.time || 0,
-        });
-      }
-    }
-
-    // Process calls with errors
-    for (const call of calls) {
-      if (!call || typeof call !== "object") continue;
-
-      if (call.error) {
-        errors.push({
-          message: call.error.message || "Unknown error",
-          stack: call.error.stack,
-          timestamp: call.endTime || call.startTime || 0,
-        });
-      }
-    }
-  } catch (error) {
-    console.error("Error processing errors:", error);
-    // Continue with what we have so far
-  }
+  // Check for specific error patterns
+  if (exception) return { status: "failed", error: exception };
 
-  return errors.sort((a, b) => a.timestamp - b.timestamp);
+  // Default to passed if no errors found
+  return { status: "passed" };
 }
 
-function extractDuration(traceData: any): {
-  start: number;
-  end: number;
-  total: number;
-} {
-  let startTime = Number.MAX_SAFE_INTEGER;
-  let endTime = 0;
-
-  try {
-    // Find earliest and latest timestamps
-    const events = Array.isArray(traceData.events) ? traceData.events : [];
-    const calls = Array.isArray(traceData.calls) ? traceData.calls : [];
-
-    for (const event of [...events, ...calls]) {
-      if (!event || typeof event !== "object") continue;
-
-      const start = event.startTime || event.timestamp || event.time || 0;
-      const end = event.endTime || start;
-
-      if (start < startTime) startTime = start;
-      if (end > endTime) endTime = end;
-    }
-  } catch (error) {
-    console.error("Error processing duration:", error);
-    // Continue with a default duration
-  }
-
-  // Fall back to reasonable defaults if no times found
-  if (startTime === Number.MAX_SAFE_INTEGER) startTime = 0;
-  if (endTime === 0) endTime = startTime + 1000; // Assume 1 second
-
+// Helper function to read the records of a trace stored as one JSON document
+// like those of an NDJSON file
+function toRecordStream(filename: string, records: any[]): TraceFileStream {
   return {
-    start: startTime,
-    end: endTime,
-    total: endTime - startTime,
+    filename,
+    open: () =>
+      Readable.from(records.map((record) => `${JSON.stringify(record)}\n`)),
   };
 }
 
-function extractTestResult(traceData: any): {
-  status: "passed" | "failed" | "timedOut" | "skipped";
-  error?: { message: string; stack?: string };
-} {
-  try {
-    // Default to failed if there are any errors
-    const errors = extractErrors(traceData);
-    if (errors.length > 0) {
-      return {
-        status: "failed",
-        error: {
-          message: errors[0].message,
-          stack: errors[0].stack,
-        },
-      };
-    }
-
-    // Look for test result in metadata
-    if (traceData.result) return traceData.result;
-    if (traceData.metadata?.result) return traceData.metadata.result;
-
-    // Check for specific error patterns
-    const events = Array.isArray(traceData.events) ? traceData.events : [];
-    for (const event of events) {
-      if (!event || typeof event !== "object") continue;
-
-      if (event.method === "Runtime.exceptionThrown") {
-        return {
-          status: "failed",
-          error: {
-            message:
-              event.params?.exceptionDetails?.text || "Unknown exception",
-            stack: event.params?.exceptionDetails?.stackTrace?.toString(),
-          },
-        };
-      }
-    }
-  } catch (error) {
-    console.error("Error processing test result:", error);
-    // Return a default result if processing fails
-    return { status: "passed" };
-  }
-
-  // Default to passed if no errors found
-  return { status: "passed" };
+function asArray(value: any): any[] {
+  return Array.isArray(value) ? value : [];
 }
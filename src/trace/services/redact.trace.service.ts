@@ -0,0 +1,126 @@
+import * as fs from "fs";
+import { z } from "zod";
+import { RedactionReport, RedactionRule } from "@/trace";
+
+/**
+ * Headers whose values are credentials, matched case-insensitively
+ */
+export const SENSITIVE_HEADER_NAMES = [
+  "authorization",
+  "proxy-authorization",
+  "cookie",
+  "set-cookie",
+  "x-api-key",
+  "x-auth-token",
+  "x-csrf-token",
+  "x-xsrf-token",
+];
+
+/**
+ * Library calls that type text into a field
+ */
+export const TEXT_INPUT_METHOD_PATTERN = /(^|\.)(fill|type|pressSequentially)$/;
+
+/**
+ * Patterns for secrets and personal data that may show up in any text of a
+ * trace: URLs, console messages, bodies, errors and the DOM
+ */
+export const BUILTIN_REDACTION_RULES: RedactionRule[] = [
+  {
+    name: "jwt",
+    pattern: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]*/g,
+  },
+  {
+    name: "bearer-token",
+    pattern: /\b(Bearer|Basic)\s+[A-Za-z0-9._~+/-]{8,}=*/g,
+    replacement: "$1 [REDACTED:bearer-token]",
+  },
+  {
+    name: "api-key",
+    pattern:
+      /\b(sk-(?:ant-)?[A-Za-z0-9_-]{20,}|AKIA[0-9A-Z]{16}|gh[pousr]_[A-Za-z0-9]{36,}|AIza[0-9A-Za-z_-]{35}|xox[abprs]-[A-Za-z0-9-]{10,})/g,
+  },
+  {
+    name: "url-credential",
+    pattern:
+      /([?&#;](?:access_token|id_token|refresh_token|token|api_key|apikey|key|secret|password|passwd|auth|code|sig|signature)=)[^&#\s"'<>]+/gi,
+    replacement: "$1[REDACTED:url-credential]",
+  },
+  {
+    // Not resource names such as "page@<hash>-<time>.jpeg", which look alike
+    name: "email",
+    pattern:
+      /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.(?!(?:jpe?g|png|webp|gif|dat|json|txt|html?)\b)[A-Za-z]{2,}\b/g,
+  },
+];
+
+const redactionRuleSchema = z.object({
+  name: z.string().min(1),
+  pattern: z.string().min(1),
+  flags: z.string().optional(),
+  replacement: z.string().optional(),
+});
+
+// Rules file format, either a list of rules or an object with a rules list
+const redactionRulesFileSchema = z.preprocess(
+  (content) => (Array.isArray(content) ? { rules: content } : content),
+  z.object({ rules: z.array(redactionRuleSchema) })
+);
+
+/**
+ * Loads team-specific redaction rules from a JSON file such as
+ * [{ "name": "customer-id", "pattern": "CUST-\\d{6}" }]. Patterns are regular
+ * expressions and always match globally.
+ */
+export function loadRedactionRules(filePath: string): RedactionRule[] {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Redaction rules file not found: ${filePath}`);
+  }
+
+  let content: unknown;
+  try {
+    content = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (error) {
+    throw new Error(`Redaction rules file is not valid JSON: ${filePath}`);
+  }
+
+  const result = redactionRulesFileSchema.safeParse(content);
+  if (!result.success) {
+    throw new Error(
+      `Invalid redaction rules in ${filePath}: ${result.error.issues
+        .map((issue) => `${issue.path.join(".") || "(file)"}: ${issue.message}`)
+        .join(", ")}`
+    );
+  }
+
+  return result.data.rules.map(({ name, pattern, flags = "", replacement }) => {
+    try {
+      return {
+        name,
+        pattern: new RegExp(pattern, flags.includes("g") ? flags : `${flags}g`),
+        replacement,
+      };
+    } catch (error) {
+      throw new Error(
+        `Invalid pattern of redaction rule "${name}": ${pattern}`
+      );
+    }
+  });
+}
+
+/**
+ * Summarizes what was redacted by rule, such as
+ * "5 values redacted: header (3), password-fill (2)"
+ */
+export function describeRedactionReport(report: RedactionReport): string {
+  const byRule = new Map<string, number>();
+  for (const finding of report.findings) {
+    byRule.set(finding.rule, (byRule.get(finding.rule) || 0) + finding.count);
+  }
+
+  return `${report.count} value${
+    report.count === 1 ? "" : "s"
+  } redacted: ${Array.from(byRule)
+    .map(([rule, count]) => `${rule} (${count})`)
+    .join(", ")}`;
+}
@@ -0,0 +1,401 @@
+import { z } from "zod";
+import { ParseDiagnostics, TraceFile, TraceRecordValidator } from "@/trace";
+
+// Invalid records listed in the diagnostics, the rest are only counted
+const MAX_INVALID_RECORDS = 20;
+
+const stackFrameSchema = z
+  .object({
+    file: z.string(),
+    line: z.number(),
+    column: z.number(),
+  })
+  .passthrough();
+
+const contextOptionsSchema = z
+  .object({
+    type: z.literal("context-options"),
+    version: z.number().int(),
+    browserName: z.string(),
+    platform: z.string().optional(),
+    wallTime: z.number().optional(),
+    sdkLanguage: z.string().optional(),
+    options: z.record(z.any()),
+  })
+  .passthrough();
+
+const beforeSchema = z
+  .object({
+    callId: z.string(),
+    startTime: z.number(),
+    class: z.string(),
+    method: z.string(),
+    params: z.record(z.any()),
+    apiName: z.string().optional(),
+    wallTime: z.number().optional(),
+    parentId: z.string().optional(),
+    stepId: z.string().optional(),
+    pageId: z.string().optional(),
+    beforeSnapshot: z.string().optional(),
+    stack: z.array(stackFrameSchema).optional(),
+  })
+  .passthrough();
+
+const afterSchema = z
+  .object({
+    callId: z.string(),
+    endTime: z.number(),
+    afterSnapshot: z.string().optional(),
+    error: z
+      .object({ message: z.string().optional(), name: z.string().optional() })
+      .passthrough()
+      .optional(),
+    attachments: z
+      .array(
+        z
+          .object({
+            name: z.string(),
+            contentType: z.string(),
+            path: z.string().optional(),
+            sha1: z.string().optional(),
+            base64: z.string().optional(),
+          })
+          .passthrough()
+      )
+      .optional(),
+  })
+  .passthrough();
+
+const inputSchema = z
+  .object({
+    callId: z.string(),
+    inputSnapshot: z.string().optional(),
+    point: z.object({ x: z.number(), y: z.number() }).optional(),
+  })
+  .passthrough();
+
+const logSchema = z
+  .object({
+    callId: z.string(),
+    time: z.number(),
+    message: z.string(),
+  })
+  .passthrough();
+
+const eventSchema = z
+  .object({
+    class: z.string(),
+    method: z.string(),
+    params: z.record(z.any()),
+    time: z.number().optional(),
+    pageId: z.string().optional(),
+  })
+  .passthrough();
+
+const consoleSchema = z
+  .object({
+    messageType: z.string(),
+    text: z.string(),
+    time: z.number(),
+    args: z.array(z.any()).optional(),
+    location: z
+      .object({
+        url: z.string(),
+        lineNumber: z.number(),
+        columnNumber: z.number(),
+      })
+      .optional(),
+    pageId: z.string().optional(),
+  })
+  .passthrough();
+
+const screencastFrameSchema = z
+  .object({
+    pageId: z.string(),
+    sha1: z.string(),
+    width: z.number(),
+    height: z.number(),
+    timestamp: z.number(),
+  })
+  .passthrough();
+
+const frameSnapshotSchema = z
+  .object({
+    snapshot: z
+      .object({
+        pageId: z.string(),
+        frameId: z.string(),
+        frameUrl: z.string(),
+        html: z.any(),
+        timestamp: z.number(),
+        snapshotName: z.string().optional(),
+        callId: z.string().optional(),
+      })
+      .passthrough(),
+  })
+  .passthrough();
+
+const resourceSnapshotSchema = z
+  .object({
+    snapshot: z
+      .object({
+        request: z
+          .object({ url: z.string(), method: z.string() })
+          .passthrough(),
+        response: z.record(z.any()).optional(),
+      })
+      .passthrough(),
+  })
+  .passthrough();
+
+const outputSchema = z
+  .object({
+    timestamp: z.number(),
+    text: z.string().optional(),
+    base64: z.string().optional(),
+  })
+  .passthrough();
+
+const errorSchema = z
+  .object({
+    message: z.string(),
+    stack: z.array(stackFrameSchema).optional(),
+  })
+  .passthrough();
+
+const V6_RECORD_SCHEMAS: Record<string, z.ZodTypeAny> = {
+  "context-options": contextOptionsSchema,
+  before: beforeSchema,
+  after: afterSchema,
+  input: inputSchema,
+  log: logSchema,
+  event: eventSchema,
+  console: consoleSchema,
+  "screencast-frame": screencastFrameSchema,
+  "frame-snapshot": frameSnapshotSchema,
+  "resource-snapshot": resourceSnapshotSchema,
+  stdout: outputSchema,
+  stderr: outputSchema,
+  error: errorSchema,
+};
+
+// Version 7 added the monotonic clock reading and the origin of the record,
+// the runner's or the browser context's
+const V7_RECORD_SCHEMAS: Record<string, z.ZodTypeAny> = {
+  ...V6_RECORD_SCHEMAS,
+  "context-options": contextOptionsSchema.extend({
+    monotonicTime: z.number(),
+    origin: z.enum(["library", "testRunner"]),
+  }),
+};
+
+/**
+ * Record schemas by trace format version, the "version" of the
+ * "context-options" record
+ */
+export const TRACE_RECORD_SCHEMAS: Record<
+  number,
+  Record<string, z.ZodTypeAny>
+> = {
+  6: V6_RECORD_SCHEMAS,
+  7: V7_RECORD_SCHEMAS,
+};
+
+/**
+ * Returns the newest trace format version there are record schemas for
+ */
+export function getLatestTraceVersion(): number {
+  return Math.max(...Object.keys(TRACE_RECORD_SCHEMAS).map(Number));
+}
+
+/**
+ * Creates empty diagnostics for a trace read as the given format
+ */
+export function createParseDiagnostics(
+  format: ParseDiagnostics["format"] = "ndjson"
+): ParseDiagnostics {
+  return {
+    format,
+    traceVersions: [],
+    unsupportedVersions: [],
+    newerVersions: [],
+    unknownRecordTypes: [],
+    malformedLines: [],
+    invalidRecords: [],
+    invalidRecordCount: 0,
+    missingFiles: [],
+  };
+}
+
+/**
+ * Notes a line of an NDJSON file that isn't valid JSON
+ */
+export function addMalformedLine(
+  diagnostics: ParseDiagnostics,
+  file: string,
+  line: number,
+  text: string
+): void {
+  diagnostics.malformedLines.push({
+    file,
+    line,
+    preview: text.substring(0, 80),
+  });
+}
+
+/**
+ * Notes the trace format versions of the trace files, read from their
+ * "context-options" records, before their records are validated
+ */
+export function addTraceVersions(
+  diagnostics: ParseDiagnostics,
+  versions: (number | undefined)[]
+): void {
+  for (const version of versions) {
+    if (version !== undefined && !diagnostics.traceVersions.includes(version)) {
+      diagnostics.traceVersions.push(version);
+    }
+  }
+  diagnostics.traceVersions.sort((a, b) => a - b);
+
+  // Newer formats mostly add to the records, so they are read with the
+  // newest schemas rather than rejected. Where a record changed, it shows up
+  // as an invalid record.
+  const latestVersion = getLatestTraceVersion();
+  diagnostics.unsupportedVersions = diagnostics.traceVersions.filter(
+    (version) => version < latestVersion && !TRACE_RECORD_SCHEMAS[version]
+  );
+  diagnostics.newerVersions = diagnostics.traceVersions.filter(
+    (version) => version > latestVersion
+  );
+}
+
+/**
+ * Creates a validator for the records of one NDJSON file of a trace, which
+ * checks each record against the schemas of the file's trace format version
+ * as it is read. Files without a "context-options" record, such as the
+ * network file, use the latest version of the other files.
+ */
+export function createRecordValidator(
+  filename: string,
+  diagnostics: ParseDiagnostics,
+  version?: number
+): TraceRecordValidator {
+  const knownVersions = Object.keys(TRACE_RECORD_SCHEMAS).map(Number);
+  const latestVersion = getLatestTraceVersion();
+  const fileVersion =
+    version ??
+    diagnostics.traceVersions[diagnostics.traceVersions.length - 1] ??
+    latestVersion;
+  // Unsupported versions are still checked, against the closest schemas
+  const schemas =
+    TRACE_RECORD_SCHEMAS[fileVersion] ||
+    TRACE_RECORD_SCHEMAS[
+      fileVersion > latestVersion ? latestVersion : Math.min(...knownVersions)
+    ];
+  const unknownTypes = new Map<string, number>();
+  let index = 0;
+
+  return {
+    validate(record: any): void {
+      index++;
+      const type = typeof record?.type === "string" ? record.type : "(no type)";
+      const schema = schemas[type];
+      if (!schema) {
+        unknownTypes.set(type, (unknownTypes.get(type) || 0) + 1);
+        return;
+      }
+
+      const result = schema.safeParse(record);
+      if (result.success) return;
+
+      diagnostics.invalidRecordCount++;
+      if (diagnostics.invalidRecords.length < MAX_INVALID_RECORDS) {
+        diagnostics.invalidRecords.push({
+          file: filename,
+          record: index,
+          type,
+          issues: result.error.issues.map(
+            (issue) => `${issue.path.join(".") || "(record)"}: ${issue.message}`
+          ),
+        });
+      }
+    },
+    finish(): void {
+      for (const [type, count] of unknownTypes) {
+        diagnostics.unknownRecordTypes.push({ file: filename, type, count });
+      }
+    },
+  };
+}
+
+/**
+ * Lists the files that belong next to the given trace files in a complete
+ * trace: the network and stacks files of each browser context trace, and a
+ * browser context trace next to a runner trace
+ */
+export function findMissingCompanionFiles(
+  traceFile: Pick<TraceFile, "filename">,
+  networkFiles: Pick<TraceFile, "filename">[] = [],
+  stacksFiles: Pick<TraceFile, "filename">[] = [],
+  contextFiles: Pick<TraceFile, "filename">[] = []
+): string[] {
+  const contextTraces = [traceFile, ...contextFiles].filter((file) =>
+    /^\d+-trace\.trace$/.test(file.filename)
+  );
+  if (contextTraces.length === 0) {
+    return traceFile.filename === "test.trace" ? ["<n>-trace.trace"] : [];
+  }
+
+  const found = new Set(
+    [...networkFiles, ...stacksFiles].map((file) => file.filename)
+  );
+  const missing: string[] = [];
+  for (const contextTrace of contextTraces) {
+    const prefix = contextTrace.filename.replace(/\.trace$/, "");
+    for (const filename of [`${prefix}.network`, `${prefix}.stacks`]) {
+      if (!found.has(filename)) missing.push(filename);
+    }
+  }
+  return missing;
+}
+
+/**
+ * Lists the reasons the trace can't be trusted to be read correctly. Missing
+ * companion files only limit what is extracted, so they don't count.
+ */
+export function getIncompatibilities(diagnostics: ParseDiagnostics): string[] {
+  const problems: string[] = [];
+
+  if (diagnostics.format !== "ndjson") {
+    problems.push(
+      `The trace file was read as ${diagnostics.format}, not as NDJSON records`
+    );
+  }
+  if (diagnostics.unsupportedVersions.length > 0) {
+    problems.push(
+      `Unsupported trace format version ${diagnostics.unsupportedVersions.join(
+        ", "
+      )} (supported: ${Object.keys(TRACE_RECORD_SCHEMAS).join(", ")})`
+    );
+  }
+  if (diagnostics.unknownRecordTypes.length > 0) {
+    problems.push(
+      `Unknown record types: ${diagnostics.unknownRecordTypes
+        .map(({ file, type, count }) => `${type} (${count}x in ${file})`)
+        .join(", ")}`
+    );
+  }
+  if (diagnostics.malformedLines.length > 0) {
+    problems.push(
+      `${diagnostics.malformedLines.length} line(s) are not valid JSON`
+    );
+  }
+  if (diagnostics.invalidRecordCount > 0) {
+    problems.push(
+      `${diagnostics.invalidRecordCount} record(s) don't match their schema`
+    );
+  }
+
+  return problems;
+}
@@ -0,0 +1,103 @@
+import {
+  ActionEvent,
+  ParsedTrace,
+  ScreenshotData,
+  TraceResourceReader,
+} from "@/trace";
+
+/**
+ * Links every action to the closest screencast frames of its page taken
+ * before it started and after it finished
+ */
+export function linkActionsToFrames(
+  actions: ActionEvent[],
+  screenshots: ScreenshotData[]
+): void {
+  if (screenshots.length === 0) return;
+
+  for (const action of actions) {
+    const startTime = action.startTime ?? action.timestamp;
+    const endTime = action.endTime ?? startTime;
+
+    action.frameBefore = findClosestFrame(
+      screenshots,
+      startTime,
+      "before",
+      action.pageId
+    );
+    action.frameAfter = findClosestFrame(
+      screenshots,
+      endTime,
+      "after",
+      action.pageId
+    );
+  }
+}
+
+/**
+ * Finds the frame closest to the given time, optionally only looking at
+ * frames taken before or after it. Frames of other pages are ignored when the
+ * page is known.
+ */
+export function findClosestFrame(
+  screenshots: ScreenshotData[],
+  time: number,
+  direction: "before" | "after" | "nearest" = "nearest",
+  pageId?: string
+): ScreenshotData | undefined {
+  const pageFrames = pageId
+    ? screenshots.filter((frame) => frame.pageId === pageId)
+    : [];
+  const frames = pageFrames.length > 0 ? pageFrames : screenshots;
+
+  let closest: ScreenshotData | undefined;
+  for (const frame of frames) {
+    if (direction === "before" && frame.timestamp > time) continue;
+    if (direction === "after" && frame.timestamp < time) continue;
+
+    if (
+      !closest ||
+      Math.abs(frame.timestamp - time) < Math.abs(closest.timestamp - time)
+    ) {
+      closest = frame;
+    }
+  }
+
+  return closest;
+}
+
+/**
+ * Finds the frame showing the page at the moment the test failed
+ */
+export function findFailureFrame(
+  trace: ParsedTrace
+): ScreenshotData | undefined {
+  const failingAction = trace.failureLocation
+    ? trace.actions.find(
+        (action) => action.callId === trace.failureLocation!.callId
+      )
+    : undefined;
+
+  const failureTime = failingAction
+    ? failingAction.endTime ?? failingAction.timestamp
+    : trace.errors[0]?.timestamp;
+  if (failureTime === undefined) return undefined;
+
+  const pageId = failingAction?.pageId;
+  return (
+    findClosestFrame(trace.screenshots, failureTime, "before", pageId) ||
+    findClosestFrame(trace.screenshots, failureTime, "after", pageId)
+  );
+}
+
+/**
+ * Reads the image of a frame, either inline or from the trace resources
+ */
+export async function readScreenshot(
+  screenshot: ScreenshotData,
+  resources?: TraceResourceReader
+): Promise<Buffer | undefined> {
+  if (screenshot.data) return Buffer.from(screenshot.data, "base64");
+  if (!screenshot.sha1 || !resources) return undefined;
+  return resources.readResource(screenshot.sha1);
+}
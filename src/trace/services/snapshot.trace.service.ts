@@ -0,0 +1,339 @@
+import {
+  ActionEvent,
+  FailureLocation,
+  FrameSnapshot,
+  SnapshotElement,
+  SnapshotRenderOptions,
+} from "@/trace";
+import { findFailingAction } from "./build.steps.service";
+
+// Elements rendered without a closing tag
+const VOID_TAGS = new Set([
+  "AREA",
+  "BASE",
+  "BR",
+  "COL",
+  "EMBED",
+  "HR",
+  "IMG",
+  "INPUT",
+  "LINK",
+  "META",
+  "PARAM",
+  "SOURCE",
+  "TRACK",
+  "WBR",
+]);
+
+// Elements that carry no information about what the page shows
+const TRIMMED_TAGS = new Set([
+  "HEAD",
+  "SCRIPT",
+  "STYLE",
+  "NOSCRIPT",
+  "TEMPLATE",
+  "LINK",
+  "META",
+  "BASE",
+]);
+
+// Attributes locators and people usually refer to
+const TRIMMED_KEPT_ATTRIBUTES = new Set([
+  "id",
+  "class",
+  "name",
+  "type",
+  "role",
+  "href",
+  "src",
+  "alt",
+  "title",
+  "for",
+  "value",
+  "placeholder",
+  "checked",
+  "selected",
+  "disabled",
+  "readonly",
+  "hidden",
+  "data-playwright-target",
+]);
+
+const FAILURE_DOM_MAX_LENGTH = 8000;
+
+// Post-order node lists of snapshots, built once per snapshot
+const snapshotNodesCache = new WeakMap<FrameSnapshot, any[]>();
+
+/**
+ * Finds a snapshot by name. Snapshots of all frames of a page share the same
+ * name, so the main frame is picked unless a frame is given.
+ */
+export function findFrameSnapshot(
+  snapshots: FrameSnapshot[],
+  snapshotName: string,
+  options: SnapshotRenderOptions = {}
+): FrameSnapshot | undefined {
+  const candidates = snapshots.filter(
+    (snapshot) =>
+      snapshot.snapshotName === snapshotName &&
+      (!options.pageId || snapshot.pageId === options.pageId) &&
+      (!options.frameId || snapshot.frameId === options.frameId)
+  );
+
+  return (
+    candidates.find((snapshot) => snapshot.isMainFrame !== false) ||
+    candidates[0]
+  );
+}
+
+/**
+ * Rebuilds the element tree of a DOM snapshot, resolving the references
+ * Playwright uses to avoid serializing unchanged subtrees twice
+ */
+export function buildSnapshotTree(
+  snapshots: FrameSnapshot[],
+  snapshotName: string,
+  options: SnapshotRenderOptions = {}
+): SnapshotElement | undefined {
+  const snapshot = findFrameSnapshot(snapshots, snapshotName, options);
+  if (!snapshot) return undefined;
+
+  // References count back through the snapshots of the same frame
+  const frameSnapshots = snapshots.filter(
+    (s) => s.frameId === snapshot.frameId
+  );
+  let elementCount = 0;
+
+  const visit = (
+    node: any,
+    index: number,
+    parent?: SnapshotElement
+  ): SnapshotElement | string | undefined => {
+    // Text node
+    if (typeof node === "string") return node;
+    if (!Array.isArray(node)) return undefined;
+
+    if (Array.isArray(node[0])) {
+      // Reference to a node of an earlier snapshot
+      const [snapshotsAgo, nodeIndex] = node[0];
+      const referenceIndex = index - snapshotsAgo;
+      if (referenceIndex < 0 || referenceIndex > index) return undefined;
+
+      const nodes = getSnapshotNodes(frameSnapshots[referenceIndex]);
+      if (nodeIndex < 0 || nodeIndex >= nodes.length) return undefined;
+      return visit(nodes[nodeIndex], referenceIndex, parent);
+    }
+    if (typeof node[0] !== "string") return undefined;
+
+    const element: SnapshotElement = {
+      tag: node[0],
+      attributes: getElementAttributes(node[1] || {}),
+      children: [],
+      parent,
+      index: elementCount++,
+    };
+    for (let i = 2; i < node.length; i++) {
+      const child = visit(node[i], index, element);
+      if (child !== undefined) element.children.push(child);
+    }
+    return element;
+  };
+
+  const root = visit(snapshot.html, frameSnapshots.indexOf(snapshot));
+  return typeof root === "object" ? root : undefined;
+}
+
+/**
+ * Copies the last of the given snapshots of a frame with the references to
+ * earlier snapshots replaced by the nodes they point to, so that it renders
+ * without the snapshots before it
+ */
+export function resolveSnapshotReferences(
+  frameSnapshots: FrameSnapshot[]
+): FrameSnapshot {
+  const resolve = (node: any, index: number): any => {
+    // Text node
+    if (typeof node === "string") return node;
+    if (!Array.isArray(node)) return undefined;
+
+    if (Array.isArray(node[0])) {
+      // Reference to a node of an earlier snapshot
+      const [snapshotsAgo, nodeIndex] = node[0];
+      const referenceIndex = index - snapshotsAgo;
+      if (referenceIndex < 0 || referenceIndex > index) return undefined;
+
+      const nodes = getSnapshotNodes(frameSnapshots[referenceIndex]);
+      if (nodeIndex < 0 || nodeIndex >= nodes.length) return undefined;
+      return resolve(nodes[nodeIndex], referenceIndex);
+    }
+    if (typeof node[0] !== "string") return undefined;
+
+    const children = node
+      .slice(2)
+      .map((child: any) => resolve(child, index))
+      .filter((child: any) => child !== undefined);
+    return [node[0], node[1] || {}, ...children];
+  };
+
+  const index = frameSnapshots.length - 1;
+  const snapshot = frameSnapshots[index];
+  return { ...snapshot, html: resolve(snapshot.html, index) };
+}
+
+/**
+ * Rebuilds the HTML of a DOM snapshot
+ */
+export function renderSnapshot(
+  snapshots: FrameSnapshot[],
+  snapshotName: string,
+  options: SnapshotRenderOptions = {}
+): string | undefined {
+  const snapshot = findFrameSnapshot(snapshots, snapshotName, options);
+  const root = buildSnapshotTree(snapshots, snapshotName, options);
+  if (!snapshot || !root) return undefined;
+
+  const trim = options.trim === true;
+  let html = renderElement(root, trim);
+  if (!trim && snapshot.doctype) html = `<!DOCTYPE ${snapshot.doctype}>${html}`;
+
+  if (options.maxLength && html.length > options.maxLength) {
+    html = `${html.substring(0, options.maxLength)}\n<!-- truncated -->`;
+  }
+  return html;
+}
+
+/**
+ * Renders the DOM snapshot an action recorded before, during or after it ran
+ */
+export function renderActionSnapshot(
+  snapshots: FrameSnapshot[],
+  action: ActionEvent,
+  moment: "before" | "input" | "after" = "after",
+  options: SnapshotRenderOptions = {}
+): string | undefined {
+  const snapshotName =
+    moment === "before"
+      ? action.beforeSnapshot
+      : moment === "input"
+      ? action.inputSnapshot
+      : action.afterSnapshot;
+  if (!snapshotName) return undefined;
+
+  return renderSnapshot(snapshots, snapshotName, {
+    pageId: action.pageId,
+    ...options,
+  });
+}
+
+/**
+ * Renders a trimmed DOM of the page as the failing action left it, for use
+ * in agent prompts
+ */
+export function renderFailureDom(
+  actions: ActionEvent[],
+  snapshots: FrameSnapshot[],
+  failureLocation?: FailureLocation
+): string | undefined {
+  if (snapshots.length === 0) return undefined;
+
+  const failingAction = findFailingAction(actions, failureLocation);
+  if (!failingAction) return undefined;
+
+  const options = { trim: true, maxLength: FAILURE_DOM_MAX_LENGTH };
+  return (
+    renderActionSnapshot(snapshots, failingAction, "after", options) ||
+    renderActionSnapshot(snapshots, failingAction, "input", options) ||
+    renderActionSnapshot(snapshots, failingAction, "before", options)
+  );
+}
+
+// Helper function to list the nodes of a snapshot in the post-order
+// Playwright numbers them in
+function getSnapshotNodes(snapshot: FrameSnapshot): any[] {
+  let nodes = snapshotNodesCache.get(snapshot);
+  if (nodes) return nodes;
+
+  const collected: any[] = [];
+  const visit = (node: any) => {
+    if (typeof node === "string") {
+      collected.push(node);
+    } else if (Array.isArray(node) && typeof node[0] === "string") {
+      for (let i = 2; i < node.length; i++) visit(node[i]);
+      collected.push(node);
+    }
+  };
+  visit(snapshot.html);
+
+  nodes = collected;
+  snapshotNodesCache.set(snapshot, nodes);
+  return nodes;
+}
+
+function renderElement(element: SnapshotElement, trim: boolean): string {
+  const upperTag = element.tag.toUpperCase();
+  if (trim && TRIMMED_TAGS.has(upperTag)) return "";
+
+  const attributes = Object.entries(element.attributes).filter(
+    ([name]) =>
+      !trim ||
+      TRIMMED_KEPT_ATTRIBUTES.has(name) ||
+      name.startsWith("aria-") ||
+      name.startsWith("data-test")
+  );
+
+  let html = `<${element.tag}`;
+  for (const [name, value] of attributes) {
+    html += value === "" ? ` ${name}` : ` ${name}="${escapeAttribute(value)}"`;
+  }
+  html += ">";
+
+  // SVG markup is mostly path data, keep only the element itself when trimming
+  if (!(trim && upperTag === "SVG")) {
+    for (const child of element.children) {
+      if (typeof child !== "string") {
+        html += renderElement(child, trim);
+      } else if (!trim) {
+        html += upperTag === "STYLE" ? child : escapeHtml(child);
+      } else {
+        html += escapeHtml(child.replace(/\s+/g, " ").trim());
+      }
+    }
+  }
+
+  if (!VOID_TAGS.has(upperTag)) html += `</${element.tag}>`;
+  return html;
+}
+
+// Helper function to turn Playwright's internal attributes into regular ones
+function getElementAttributes(
+  attributes: Record<string, string>
+): Record<string, string> {
+  const result: Record<string, string> = {};
+
+  for (const [name, value] of Object.entries(attributes)) {
+    if (name === "__playwright_value_") {
+      result.value = value;
+    } else if (name === "__playwright_checked_") {
+      if (value === "true") result.checked = "";
+    } else if (name === "__playwright_selected_") {
+      if (value === "true") result.selected = "";
+    } else if (name === "__playwright_target__") {
+      result["data-playwright-target"] = value;
+    } else if (!name.startsWith("__playwright")) {
+      result[name] = value;
+    }
+  }
+
+  return result;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function escapeAttribute(value: string): string {
+  return String(value).replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+}
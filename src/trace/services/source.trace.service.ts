@@ -0,0 +1,250 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  ActionEvent,
+  ParseTraceOptions,
+  SourceExcerpt,
+  StackFrame,
+} from "@/trace";
+
+// Frames of dependencies and of Node itself
+const LIBRARY_FRAME_PATTERN =
+  /(^|[\\/])node_modules[\\/]|^node:|^internal[\\/]/;
+
+const EXCERPT_CONTEXT_LINES = 3;
+
+/**
+ * Reads the stacks file of a browser context into a map from call id to call
+ * stack. The file lists every source file once and refers to it by index.
+ */
+export function parseStackFrames(stacksData: any): Map<string, StackFrame[]> {
+  const stacks = new Map<string, StackFrame[]>();
+  if (!stacksData || typeof stacksData !== "object") return stacks;
+
+  const entries = Array.isArray(stacksData.events)
+    ? stacksData.events
+    : [stacksData];
+
+  for (const entry of entries) {
+    if (!entry || !Array.isArray(entry.files) || !Array.isArray(entry.stacks)) {
+      continue;
+    }
+
+    for (const [callNumber, frames] of entry.stacks) {
+      if (!Array.isArray(frames)) continue;
+
+      stacks.set(
+        `call@${callNumber}`,
+        frames
+          .filter((frame: any) => Array.isArray(frame))
+          .map(([fileIndex, line, column, functionName]: any[]) => ({
+            file: entry.files[fileIndex],
+            line,
+            column,
+            function: functionName || undefined,
+          }))
+          .filter((frame: StackFrame) => typeof frame.file === "string")
+      );
+    }
+  }
+
+  return stacks;
+}
+
+/**
+ * Converts the stack of a test.trace record into stack frames
+ */
+export function toStackFrames(stack: any): StackFrame[] | undefined {
+  if (!Array.isArray(stack)) return undefined;
+
+  const frames: StackFrame[] = stack
+    .filter((frame) => frame && typeof frame.file === "string")
+    .map((frame) => ({
+      file: frame.file,
+      line: frame.line,
+      column: frame.column,
+      function: frame.function || undefined,
+    }));
+  return frames.length > 0 ? frames : undefined;
+}
+
+/**
+ * Guesses the test file from the outermost test code frame of each call.
+ * Helpers may be called from many places, the test file is where calls start.
+ * Files that hooks and fixtures call from are only used when nothing else is
+ * found, as they are usually the runner's or the project's setup code.
+ */
+export function findTestFile(actions: ActionEvent[]): string | undefined {
+  const actionsByCallId = new Map<string, ActionEvent>();
+  for (const action of actions) {
+    if (action.callId) actionsByCallId.set(action.callId, action);
+  }
+
+  const counts = new Map<string, number>();
+  const setupFiles = new Set<string>();
+  for (const action of actions) {
+    const frames = (action.stack || []).filter(
+      (frame) => !isLibraryFrame(frame)
+    );
+    if (frames.length === 0) continue;
+
+    if (isSetupCall(action, actionsByCallId)) {
+      frames.forEach((frame) => setupFiles.add(frame.file));
+    } else {
+      const file = frames[frames.length - 1].file;
+      counts.set(file, (counts.get(file) || 0) + 1);
+    }
+  }
+
+  let testFile: string | undefined;
+  let fallback: string | undefined;
+  for (const [file, count] of counts) {
+    if (!fallback || count > counts.get(fallback)!) fallback = file;
+    if (setupFiles.has(file)) continue;
+    if (!testFile || count > counts.get(testFile)!) testFile = file;
+  }
+  return testFile || fallback;
+}
+
+/**
+ * Sets the location of every action to the innermost frame of its stack that
+ * lives next to the test file. Frames of the test runner and of libraries
+ * called from the test are skipped.
+ */
+export function locateActions(actions: ActionEvent[]): void {
+  const testFile = findTestFile(actions);
+  const testDirectory = testFile ? path.dirname(testFile) : undefined;
+
+  for (const action of actions) {
+    if (!action.stack) continue;
+
+    action.location = action.stack.find(
+      (frame) =>
+        !isLibraryFrame(frame) &&
+        (!testDirectory || isInsideDirectory(frame.file, testDirectory))
+    );
+  }
+}
+
+/**
+ * Reads the lines of test source around a location, from the sources embedded
+ * in the trace or else from the local checkout
+ */
+export function getSourceExcerpt(
+  location: StackFrame,
+  options: ParseTraceOptions = {}
+): SourceExcerpt | undefined {
+  const source = readSource(location.file, options);
+  if (source === undefined) return undefined;
+
+  const sourceLines = source.split(/\r?\n/);
+  if (location.line < 1 || location.line > sourceLines.length) return undefined;
+
+  const startLine = Math.max(1, location.line - EXCERPT_CONTEXT_LINES);
+  const endLine = Math.min(
+    sourceLines.length,
+    location.line + EXCERPT_CONTEXT_LINES
+  );
+
+  return {
+    file: location.file,
+    line: location.line,
+    column: location.column,
+    startLine,
+    lines: sourceLines.slice(startLine - 1, endLine),
+  };
+}
+
+/**
+ * Formats a stack frame as file:line:column
+ */
+export function formatSourceLocation(frame: StackFrame): string {
+  return `${frame.file}:${frame.line}:${frame.column}`;
+}
+
+/**
+ * Formats a source excerpt with line numbers, marking the located line
+ */
+export function formatSourceExcerpt(excerpt: SourceExcerpt): string {
+  const lastLine = excerpt.startLine + excerpt.lines.length - 1;
+  const width = String(lastLine).length;
+
+  const lines = excerpt.lines.map((text, i) => {
+    const lineNumber = excerpt.startLine + i;
+    const marker = lineNumber === excerpt.line ? ">" : " ";
+    return `${marker} ${String(lineNumber).padStart(width)} | ${text}`;
+  });
+
+  return [formatSourceLocation(excerpt), ...lines].join("\n");
+}
+
+function isLibraryFrame(frame: StackFrame): boolean {
+  return LIBRARY_FRAME_PATTERN.test(frame.file);
+}
+
+// Helper function to tell whether a call was made by a hook or a fixture
+function isSetupCall(
+  action: ActionEvent,
+  actionsByCallId: Map<string, ActionEvent>
+): boolean {
+  const visited = new Set<string>();
+  let current: ActionEvent | undefined = action;
+
+  while (current?.callId && !visited.has(current.callId)) {
+    if (/^(hook|fixture)@/.test(current.callId)) return true;
+    visited.add(current.callId);
+
+    const parentId: string | undefined = current.stepId || current.parentId;
+    current = parentId ? actionsByCallId.get(parentId) : undefined;
+  }
+  return false;
+}
+
+function isInsideDirectory(file: string, directory: string): boolean {
+  return file === directory || file.startsWith(`${directory}/`);
+}
+
+// Helper function to find the contents of a test source file
+function readSource(
+  file: string,
+  options: ParseTraceOptions
+): string | undefined {
+  // Playwright names embedded sources after the sha1 of their absolute path
+  const embeddedName = `src@${crypto
+    .createHash("sha1")
+    .update(file)
+    .digest("hex")}.txt`;
+  const embedded = options.sourceFiles?.find(
+    (sourceFile) => sourceFile.filename === embeddedName
+  );
+  if (embedded) return embedded.content.toString("utf-8");
+
+  for (const candidate of getLocalCandidates(file, options.sourceRoot)) {
+    try {
+      if (fs.statSync(candidate).isFile()) {
+        return fs.readFileSync(candidate, "utf-8");
+      }
+    } catch {
+      // Not there, try the next candidate
+    }
+  }
+
+  return undefined;
+}
+
+// Helper function to list the paths a test file recorded on another machine
+// may have in the local checkout, from the most to the least specific
+function getLocalCandidates(file: string, sourceRoot?: string): string[] {
+  const root = sourceRoot || process.cwd();
+  const segments = file.split(/[\\/]/).filter(Boolean);
+  const candidates = [file];
+
+  // Keep at least a directory and the file name to avoid matching unrelated
+  // files that only share a name
+  for (let i = 1; i <= segments.length - 2; i++) {
+    candidates.push(path.join(root, ...segments.slice(i)));
+  }
+
+  return candidates;
+}
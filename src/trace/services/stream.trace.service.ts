@@ -0,0 +1,134 @@
+import * as readline from "readline";
+import { Readable } from "stream";
+import {
+  ParseDiagnostics,
+  ParseProgress,
+  TraceFile,
+  TraceFileStream,
+} from "@/trace";
+import { Logger, logger } from "@/ui/classes/logger.class";
+import { addMalformedLine } from "./schema.trace.service";
+
+// Strings in call parameters and results are cut to this length, scripts and
+// file payloads sent to the browser can be megabytes each
+const MAX_RECORD_STRING_LENGTH = 10000;
+
+/**
+ * Reads an NDJSON trace file line by line and hands each record to onRecord
+ * as soon as it is parsed, so only the current line is held as text.
+ * Malformed lines are skipped and noted in the diagnostics when given.
+ * Reading stops early when onRecord returns false. Resolves with the number
+ * of records read.
+ */
+export function readNdjsonStream(
+  file: TraceFileStream,
+  onRecord: (record: any) => boolean | void,
+  diagnostics?: ParseDiagnostics,
+  onProgress?: (progress: ParseProgress) => void,
+  log: Logger = logger.child("parse")
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const input = file.open();
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+    let bytesRead = 0;
+    let lineNumber = 0;
+    let records = 0;
+    let stopped = false;
+
+    const reportProgress = () =>
+      onProgress?.({
+        file: file.filename,
+        bytesRead,
+        totalBytes: file.size,
+        records,
+      });
+
+    input.on("data", (chunk: Buffer | string) => {
+      bytesRead += chunk.length;
+      reportProgress();
+    });
+    input.on("error", (error) => {
+      lines.close();
+      if (!stopped) reject(error);
+    });
+
+    lines.on("line", (line) => {
+      // Lines already buffered are still emitted after closing
+      if (stopped) return;
+      lineNumber++;
+      if (!line.trim()) return;
+      let record: any;
+      try {
+        record = JSON.parse(line);
+      } catch (lineError) {
+        if (diagnostics) {
+          addMalformedLine(diagnostics, file.filename, lineNumber, line);
+        }
+        log.warn(
+          `Could not parse line in ${file.filename} as JSON: ${line.substring(
+            0,
+            50
+          )}...`
+        );
+        return;
+      }
+      records++;
+      try {
+        if (onRecord(record) !== false) return;
+      } catch (error) {
+        reject(error);
+      }
+      stopped = true;
+      lines.close();
+      (input as Readable).destroy?.();
+    });
+    lines.on("close", () => {
+      reportProgress();
+      resolve(records);
+    });
+  });
+}
+
+/**
+ * Reads a whole streamed file into memory, for the small files of a trace
+ * such as embedded sources, or traces that aren't NDJSON
+ */
+export async function readTraceFileStream(
+  file: TraceFileStream
+): Promise<TraceFile> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of file.open()) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return { filename: file.filename, content: Buffer.concat(chunks) };
+}
+
+/**
+ * Cuts long strings in the parameters and result of a record down to size.
+ * Nothing the parser extracts needs them whole, and keeping them would make
+ * memory grow with every injected script or uploaded file.
+ */
+export function compactTraceRecord(record: any): any {
+  if (!record || typeof record !== "object") return record;
+  if (record.params) record.params = truncateStrings(record.params);
+  if (record.result) record.result = truncateStrings(record.result);
+  return record;
+}
+
+// Helper function to cut long strings anywhere in a JSON value
+function truncateStrings(value: any): any {
+  if (typeof value === "string") {
+    return value.length > MAX_RECORD_STRING_LENGTH
+      ? `${value.substring(0, MAX_RECORD_STRING_LENGTH)}... (${
+          value.length - MAX_RECORD_STRING_LENGTH
+        } more characters)`
+      : value;
+  }
+  if (Array.isArray(value)) return value.map(truncateStrings);
+  if (value && typeof value === "object") {
+    for (const key of Object.keys(value)) {
+      value[key] = truncateStrings(value[key]);
+    }
+  }
+  return value;
+}
@@ -1,2 +1,3 @@
 export * from "./simple.spinner.class";
 export * from "./stage.reporter.class";
+export * from "./logger.class";
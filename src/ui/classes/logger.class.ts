@@ -0,0 +1,113 @@
+import * as fs from "fs";
+import { format } from "util";
+import { LogFormat, LoggerOptions, LogLevel, LogRecord } from "@/ui";
+
+export const LOG_LEVELS: LogLevel[] = [
+  "debug",
+  "info",
+  "warn",
+  "error",
+  "silent",
+];
+
+// Settings shared by a logger and all of its children
+interface LoggerSettings {
+  level: LogLevel;
+  format: LogFormat;
+  file?: string;
+  fd?: number;
+}
+
+/**
+ * Leveled logger for diagnostic output. Lines go to stderr, or to a log file,
+ * so stdout stays free for results. Children add a namespace and share the
+ * settings of their root, so configuring the root reconfigures them all.
+ */
+export class Logger {
+  private constructor(
+    private readonly settings: LoggerSettings,
+    public readonly namespace?: string
+  ) {}
+
+  /**
+   * Creates a root logger, logging at "info" as text to stderr by default
+   */
+  static create(options: LoggerOptions = {}): Logger {
+    const logger = new Logger({ level: "info", format: "text" });
+    logger.configure(options);
+    return logger;
+  }
+
+  /**
+   * Changes the level, format or destination of this logger and every logger
+   * sharing its settings
+   */
+  configure(options: LoggerOptions): void {
+    if (options.level) this.settings.level = options.level;
+    if (options.format) this.settings.format = options.format;
+
+    if (options.file && options.file !== this.settings.file) {
+      if (this.settings.fd !== undefined) fs.closeSync(this.settings.fd);
+      this.settings.file = options.file;
+      this.settings.fd = fs.openSync(options.file, "a");
+    }
+  }
+
+  /**
+   * Creates a logger for a part of the program, writing with the same settings
+   */
+  child(namespace: string): Logger {
+    return new Logger(
+      this.settings,
+      this.namespace ? `${this.namespace}:${namespace}` : namespace
+    );
+  }
+
+  isEnabled(level: Exclude<LogLevel, "silent">): boolean {
+    return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(this.settings.level);
+  }
+
+  debug(message: string, ...args: unknown[]): void {
+    this.write("debug", message, args);
+  }
+
+  info(message: string, ...args: unknown[]): void {
+    this.write("info", message, args);
+  }
+
+  warn(message: string, ...args: unknown[]): void {
+    this.write("warn", message, args);
+  }
+
+  error(message: string, ...args: unknown[]): void {
+    this.write("error", message, args);
+  }
+
+  private write(
+    level: Exclude<LogLevel, "silent">,
+    message: string,
+    args: unknown[]
+  ): void {
+    if (!this.isEnabled(level)) return;
+
+    const text = format(message, ...args);
+    let line: string;
+    if (this.settings.format === "json") {
+      const record: LogRecord = {
+        time: new Date().toISOString(),
+        level,
+        namespace: this.namespace,
+        message: text,
+      };
+      line = JSON.stringify(record);
+    } else {
+      const namespace = this.namespace ? `[${this.namespace}] ` : "";
+      line = `${level.toUpperCase()} ${namespace}${text}`;
+    }
+
+    fs.writeSync(this.settings.fd ?? process.stderr.fd, `${line}\n`);
+  }
+}
+
+// Root logger of the program, configured from the command line options
+export const logger = Logger.create();
@@ -1,4 +1,5 @@
-// Simple spinner implementation to replace ora
+// Simple spinner implementation to replace ora. It draws on stderr, so
+// stdout only carries results, such as the output of --json
 export class SimpleSpinner {
   private message: string;
   private interval: NodeJS.Timeout | null = null;
@@ -20,11 +21,11 @@ export class SimpleSpinner {
         const timeStr = this.updateTimeFn();
         // Find and replace the time section [x.xs] in the message
         const updatedMessage = this.message.replace(/\[\d+\.\d+s\]/, timeStr);
-        process.stdout.write(
+        process.stderr.write(
           `\r${this.frames[this.frameIndex]} ${updatedMessage}`
         );
       } else {
-        process.stdout.write(
+        process.stderr.write(
           `\r${this.frames[this.frameIndex]} ${this.message}`
         );
       }
@@ -39,12 +40,12 @@ export class SimpleSpinner {
 
   succeed(message?: string): void {
     this.stop();
-    console.log(`\r✓ ${message || this.message}`);
+    process.stderr.write(`\r✓ ${message || this.message}\n`);
   }
 
   fail(message?: string): void {
     this.stop();
-    console.log(`\r✗ ${message || this.message}`);
+    process.stderr.write(`\r✗ ${message || this.message}\n`);
   }
 
   stop(): void {
@@ -52,7 +53,7 @@ export class SimpleSpinner {
       clearInterval(this.interval);
       this.interval = null;
     }
-    process.stdout.write(
+    process.stderr.write(
       "\r                                                     \r"
     );
   }
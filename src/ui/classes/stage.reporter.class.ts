@@ -44,18 +44,6 @@ export class StageReporter {
     const elapsedTotal = ((currentTime - this.startTime) / 1000).toFixed(1);
     const emoji = this.stageEmojis[stage] || "•";
 
-    // Stop any active spinners when changing stages
-    if (
-      this.activeSpinner &&
-      (this.currentStage !== stage || stage === "complete" || stage === "error")
-    ) {
-      this.activeSpinner.stop();
-      this.activeSpinner = null;
-    }
-
-    // Format the message
-    const formattedMessage = color ? color(message) : message;
-
     // For certain stages, use a spinner to show ongoing activity
     const spinnerStages = [
       "analyze",
@@ -66,6 +54,22 @@ export class StageReporter {
       "synthesis",
     ];
 
+    // Stop any active spinners when changing stages, or when a stage that
+    // only showed progress logs its result
+    if (
+      this.activeSpinner &&
+      (this.currentStage !== stage ||
+        !spinnerStages.includes(stage) ||
+        stage === "complete" ||
+        stage === "error")
+    ) {
+      this.activeSpinner.stop();
+      this.activeSpinner = null;
+    }
+
+    // Format the message
+    const formattedMessage = color ? color(message) : message;
+
     if (
       spinnerStages.includes(stage) &&
       stage !== this.currentStage &&
@@ -98,6 +102,31 @@ export class StageReporter {
     }
   }
 
+  // Show the progress of a long running stage on one updating line
+  reportProgress(
+    stage: string,
+    message: string,
+    color?: (text: string) => string
+  ): void {
+    const emoji = this.stageEmojis[stage] || "•";
+    const spinnerText = `${emoji} ${this.getElapsedTimeStr()} ${
+      color ? color(message) : message
+    }`;
+
+    if (this.activeSpinner && this.currentStage === stage) {
+      this.activeSpinner.text = spinnerText;
+      return;
+    }
+
+    if (this.activeSpinner) {
+      this.activeSpinner.stop();
+    }
+    this.activeSpinner = new SimpleSpinner(spinnerText, () =>
+      this.getElapsedTimeStr()
+    ).start();
+    this.currentStage = stage;
+  }
+
   complete(message: string = "Analysis completed"): void {
     // Stop any active spinner
     if (this.activeSpinner) {
@@ -0,0 +1,20 @@
+// Levels from most to least verbose, "silent" turns logging off
+export type LogLevel = "debug" | "info" | "warn" | "error" | "silent";
+
+// "text" writes readable lines, "json" one JSON object per line
+export type LogFormat = "text" | "json";
+
+export interface LoggerOptions {
+  level?: LogLevel;
+  format?: LogFormat;
+  // File to append log lines to instead of writing them to stderr
+  file?: string;
+}
+
+// A single line as written in the "json" format
+export interface LogRecord {
+  time: string;
+  level: Exclude<LogLevel, "silent">;
+  namespace?: string;
+  message: string;
+}
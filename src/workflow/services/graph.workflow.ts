@@ -3,9 +3,12 @@ import {
   TraceAnalysisAgent,
   ContextAgent,
   DiagnosisAgent,
+  HeuristicDiagnosisAgent,
   RecommendationAgent,
+  ModelProviderFactory,
 } from "@/agents";
 import { PlaywrightDocs } from "@/trace/classes/playwright.docs.class";
+import { Logger, logger } from "@/ui/classes/logger.class";
 
 /**
  * Creates a workflow for processing and analyzing trace data
@@ -19,28 +22,38 @@ export function createWorkflow(
   verbose: boolean = false,
   options: {
     disableRag?: boolean;
+    logger?: Logger;
   } = {}
 ) {
+  const log = options.logger ?? logger.child("workflow");
+
+  // Retrieved documentation isn't recorded, so replayed runs go without it
+  const disableRag = options.disableRag || ModelProviderFactory.isReplaying();
+
   // Create PlaywrightDocs instance only if RAG is not disabled
-  const playwrightDocs = options.disableRag
+  const playwrightDocs = disableRag
     ? undefined
     : new PlaywrightDocs(process.env.OPENAI_API_KEY, verbose);
 
   // Log RAG status
-  console.log(
-    `[Workflow] RAG is ${options.disableRag ? "disabled" : "enabled"}`
-  );
+  log.debug(`RAG is ${disableRag ? "disabled" : "enabled"}`);
 
   // Create agents with verbosity setting
-  const traceAnalysisAgent = new TraceAnalysisAgent(apiKey);
+  const traceAnalysisAgent = new TraceAnalysisAgent(apiKey).setLogger(
+    log.child("analysis")
+  );
   const contextAgent = new ContextAgent(
     apiKey,
     verbose,
     undefined,
     playwrightDocs // This will be undefined if RAG is disabled
+  ).setLogger(log.child("context"));
+  const diagnosisAgent = new DiagnosisAgent(apiKey).setLogger(
+    log.child("diagnosis")
+  );
+  const recommendationAgent = new RecommendationAgent(apiKey).setLogger(
+    log.child("recommendation")
   );
-  const diagnosisAgent = new DiagnosisAgent(apiKey);
-  const recommendationAgent = new RecommendationAgent(apiKey);
 
   // Return a workflow function that processes trace data sequentially
   return async function processTrace(
@@ -52,23 +65,21 @@ export function createWorkflow(
       // Initialize documentation if RAG is enabled
       if (playwrightDocs) {
         if (verbose) {
-          console.log("[Workflow] Initializing documentation for RAG...");
+          log.debug("Initializing documentation for RAG...");
         }
         await playwrightDocs.initialize();
       } else {
-        console.log(
-          "[Workflow] RAG is disabled. Skipping documentation initialization."
-        );
+        log.debug("RAG is disabled. Skipping documentation initialization.");
       }
 
       // Step 1: Analyze trace
-      console.log("Analyzing trace...");
+      log.info("Analyzing trace...");
       state.analysis = await traceAnalysisAgent.process({
         trace: state.trace,
       });
 
       // Step 2: Gather context
-      console.log("Gathering context...");
+      log.info("Gathering context...");
       state.context = await contextAgent.process({
         trace: state.trace,
         context: {
@@ -77,7 +88,7 @@ export function createWorkflow(
       });
 
       // Step 3: Diagnose issue
-      console.log("Diagnosing issue...");
+      log.info("Diagnosing issue...");
       state.diagnosis = await diagnosisAgent.process({
         trace: state.trace,
         context: {
@@ -87,7 +98,7 @@ export function createWorkflow(
       });
 
       // Step 4: Generate recommendations
-      console.log("Generating recommendations...");
+      log.info("Generating recommendations...");
       state.recommendation = await recommendationAgent.process({
         trace: state.trace,
         context: {
@@ -99,7 +110,36 @@ export function createWorkflow(
 
       return state;
     } catch (error: unknown) {
-      console.error("Error in workflow:", error);
+      log.error("Error in workflow:", error);
+      state.error = error instanceof Error ? error.message : String(error);
+      return state;
+    }
+  };
+}
+
+/**
+ * Creates a workflow that diagnoses the trace with local rules only, for use
+ * without an API key
+ * @param options Additional options for workflow creation
+ * @returns A callable workflow function
+ */
+export function createOfflineWorkflow(options: { logger?: Logger } = {}) {
+  const log = options.logger ?? logger.child("workflow");
+  const diagnosisAgent = new HeuristicDiagnosisAgent().setLogger(
+    log.child("diagnosis")
+  );
+
+  return async function processTrace(
+    initialState: WorkflowState
+  ): Promise<WorkflowState> {
+    const state: WorkflowState = { ...initialState };
+
+    try {
+      log.info("Diagnosing issue offline...");
+      state.diagnosis = await diagnosisAgent.process({ trace: state.trace });
+      return state;
+    } catch (error: unknown) {
+      log.error("Error in workflow:", error);
       state.error = error instanceof Error ? error.message : String(error);
       return state;
     }
@@ -13,9 +13,11 @@ import {
   OrchestrationTask,
   OrchestratorAgent,
   OrchestratorOutput,
+  ReplayMissError,
 } from "@/agents";
 import { ModelProviderFactory } from "@/agents";
 import { PlaywrightDocs } from "@/trace/classes/playwright.docs.class";
+import { Logger, logger } from "@/ui/classes/logger.class";
 
 /**
  * Creates a dynamic orchestrated workflow that follows the orchestrator-workers pattern
@@ -34,32 +36,34 @@ export function createOrchestratedWorkflow(
     parallelDiagnosis?: boolean;
     conditionalDiagnosis?: boolean;
     disableRag?: boolean;
+    logger?: Logger;
   } = {}
 ) {
+  const log = options.logger ?? logger.child("workflow");
+
   // Create model provider
   const modelProvider = ModelProviderFactory.createProvider(
-    options.modelProviderType || "anthropic",
+    options.modelProviderType,
     apiKey
   );
 
+  // Retrieved documentation isn't recorded, so replayed runs go without it
+  const disableRag = options.disableRag || ModelProviderFactory.isReplaying();
+
   // Create PlaywrightDocs instance for RAG if not disabled
-  const playwrightDocs = options.disableRag
+  const playwrightDocs = disableRag
     ? undefined
     : new PlaywrightDocs(process.env.OPENAI_API_KEY, verbose);
 
   // Log RAG status
-  console.log(
-    `[OrchestratedWorkflow] RAG is ${
-      options.disableRag ? "disabled" : "enabled"
-    }`
-  );
+  log.debug(`RAG is ${disableRag ? "disabled" : "enabled"}`);
 
   // Progress reporting function
   const reportProgress = (stage: string, message: string) => {
     if (options.onProgress) {
       options.onProgress(stage, message);
     } else {
-      console.log(`${stage}: ${message}`);
+      log.info(`${stage}: ${message}`);
     }
   };
 
@@ -96,6 +100,12 @@ export function createOrchestratedWorkflow(
     ...options.customAgents,
   };
 
+  // Agents log to the workflow's logger, namespaced by their role
+  orchestratorAgent.setLogger(log.child("orchestrator"));
+  for (const [name, agent] of Object.entries(workerAgents)) {
+    agent.setLogger(log.child(name));
+  }
+
   // Maximum retries for agent calls
   const maxRetries = options.enableRetries ? 3 : 0;
 
@@ -142,7 +152,8 @@ export function createOrchestratedWorkflow(
         }
       } catch (error) {
         reportProgress("error", "Error creating orchestration plan");
-        console.error("Error creating orchestration plan:", error);
+        log.error("Error creating orchestration plan:", error);
+        if (error instanceof ReplayMissError) throw error;
         throw new Error("Failed to create orchestration plan");
       }
 
@@ -237,7 +248,9 @@ export function createOrchestratedWorkflow(
                 result = await agent.process(input);
                 success = true;
               } catch (error) {
-                console.error(`Error executing task ${taskName}:`, error);
+                log.error(`Error executing task ${taskName}:`, error);
+                // Replaying the same prompt again can't find a response
+                if (error instanceof ReplayMissError) throw error;
                 retries++;
 
                 // Wait before retry (exponential backoff)
@@ -365,7 +378,8 @@ export function createOrchestratedWorkflow(
         }
       } catch (error) {
         reportProgress("error", "Error during synthesis");
-        console.error("Error during synthesis:", error);
+        log.error("Error during synthesis:", error);
+        if (error instanceof ReplayMissError) throw error;
       }
 
       // Mark workflow as complete
@@ -374,7 +388,7 @@ export function createOrchestratedWorkflow(
 
       return state;
     } catch (error: unknown) {
-      console.error("Error in workflow:", error);
+      log.error("Error in workflow:", error);
       state.error = error instanceof Error ? error.message : String(error);
       return state;
     }
@@ -65,6 +65,9 @@ export async function runFullWorkflow(
             : chalk.red(trace.testResult.status.toUpperCase())
         }`
       );
+      if (trace.failureCategory) {
+        console.log(`Failure: ${chalk.yellow(trace.failureCategory.label)}`);
+      }
       console.log(
         `Browser: ${chalk.bold(
           trace.browser.name +
@@ -0,0 +1,112 @@
+import {
+  ParsedTrace,
+  describeAssertionFailure,
+  findAssertionFailure,
+  parseAssertionError,
+} from "@/trace";
+import { parseSampleTrace } from "./helpers";
+
+describe("parseAssertionError", () => {
+  it("parses the matcher, values and call log of a locator assertion", () => {
+    const failure = parseAssertionError(
+      [
+        "Error: Timed out 5000ms waiting for expect(locator).toContainText(expected)",
+        "",
+        "Locator: locator('p.total')",
+        'Expected string: "130"',
+        'Received string: "No data"',
+        "Call log:",
+        "  - expect.toContainText with timeout 5000ms",
+        "  - waiting for locator('p.total')",
+        "",
+        "    at /tests/checkout.spec.ts:12:5",
+      ].join("\n")
+    );
+
+    expect(failure).toEqual({
+      subject: "locator",
+      negated: false,
+      matcher: "toContainText",
+      timedOut: true,
+      timeout: 5000,
+      locator: "locator('p.total')",
+      expected: '"130"',
+      received: '"No data"',
+      callLog: [
+        "expect.toContainText with timeout 5000ms",
+        "waiting for locator('p.total')",
+      ],
+    });
+  });
+
+  it("parses negated matchers", () => {
+    const failure = parseAssertionError(
+      [
+        "Error: expect(locator).not.toBeVisible()",
+        "",
+        "Locator: getByRole('dialog')",
+        "Expected: not visible",
+        "Received: visible",
+        "Timeout: 3000ms",
+      ].join("\n")
+    );
+
+    expect(failure).toMatchObject({
+      matcher: "toBeVisible",
+      negated: true,
+      expected: "visible",
+      received: "visible",
+      timeout: 3000,
+      timedOut: true,
+    });
+    expect(describeAssertionFailure(failure!)).toBe(
+      [
+        "expect(locator).not.toBeVisible",
+        "Locator: getByRole('dialog')",
+        "Expected: not visible",
+        "Received: visible",
+        "Timed out after 3000ms",
+      ].join("\n")
+    );
+  });
+
+  it("parses value assertions without a locator", () => {
+    expect(
+      parseAssertionError(
+        "Error: expect(received).toBeLessThan(expected)\n\nExpected: < 200\nReceived:   200"
+      )
+    ).toMatchObject({
+      subject: "received",
+      matcher: "toBeLessThan",
+      expected: "< 200",
+      received: "200",
+      timedOut: false,
+    });
+  });
+
+  it("ignores errors that aren't assertions", () => {
+    expect(
+      parseAssertionError("TypeError: Cannot read properties of undefined")
+    ).toBeUndefined();
+  });
+});
+
+describe("findAssertionFailure", () => {
+  let trace: ParsedTrace;
+
+  beforeAll(async () => {
+    trace = await parseSampleTrace("event-trace.zip");
+  });
+
+  it("finds the failed assertion of a sample trace", () => {
+    expect(findAssertionFailure(trace)).toMatchObject({
+      subject: "locator",
+      matcher: "toContainText",
+      locator: `locator('p.p2--v2:has-text("Avg systolic") + p')`,
+      expected: '"130"',
+      received: '"No data"',
+      timeout: 5000,
+      timedOut: true,
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { ParsedTrace, formatTestStepTree } from "@/trace";
+import { parseSampleTrace } from "./helpers";
+
+describe("buildTestStepTree", () => {
+  let trace: ParsedTrace;
+
+  beforeAll(async () => {
+    trace = await parseSampleTrace("visit-danube-trace.zip");
+  });
+
+  it("nests runner steps under their parents", () => {
+    expect(trace.steps.map((step) => step.title)).toEqual([
+      "Before Hooks",
+      "page.goto",
+      "expect.toBeLessThan",
+      "After Hooks",
+      "Worker Cleanup",
+    ]);
+    expect(trace.steps[0].children.map((step) => step.title)).toEqual([
+      "fixture: browser",
+      "fixture: context",
+      "fixture: page",
+    ]);
+  });
+
+  it("places hooks before or after the test body", () => {
+    expect(
+      trace.steps.map((step) => [step.title, step.phase, step.category])
+    ).toEqual([
+      ["Before Hooks", "beforeHooks", "hooks"],
+      ["page.goto", "test", "api"],
+      ["expect.toBeLessThan", "test", "expect"],
+      ["After Hooks", "afterHooks", "hooks"],
+      ["Worker Cleanup", "afterHooks", "hook"],
+    ]);
+    for (const child of trace.steps[4].children) {
+      expect(child.phase).toBe("afterHooks");
+    }
+  });
+
+  it("locates the failure in the test body", () => {
+    expect(trace.failureLocation).toEqual({
+      scope: "test",
+      phase: "test",
+      callId: "expect@12",
+      stepPath: ["expect.toBeLessThan"],
+    });
+    expect(formatTestStepTree(trace.steps)).toContain(
+      "expect.toBeLessThan (1ms) ✗"
+    );
+  });
+});
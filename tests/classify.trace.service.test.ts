@@ -0,0 +1,136 @@
+import {
+  ActionEvent,
+  ParsedTrace,
+  classifyFailure,
+  isTestTimeoutError,
+  parseAssertionError,
+  stripAnsi,
+} from "@/trace";
+import { parseSampleTrace } from "./helpers";
+
+function createAction(error: string): ActionEvent {
+  return {
+    type: "locator.click",
+    callId: "pw:api@7",
+    timestamp: 0,
+    error,
+  };
+}
+
+describe("classifyFailure", () => {
+  it("reports test timeouts before the action the test was waiting on", () => {
+    const classification = classifyFailure(
+      [{ message: "Test timeout of 30000ms exceeded.", timestamp: 2 }],
+      createAction(
+        "Error: locator.click: Target page, context or browser has been closed"
+      )
+    );
+
+    expect(classification).toEqual({
+      category: "testTimeout",
+      label: "Test timeout",
+      evidence: "Test timeout of 30000ms exceeded.",
+      callId: "pw:api@7",
+    });
+  });
+
+  it("recognizes known failure patterns in the failing action", () => {
+    expect(
+      classifyFailure(
+        [],
+        createAction(
+          "Error: locator.click: Error: strict mode violation: getByRole('button') resolved to 2 elements"
+        )
+      )?.category
+    ).toBe("strictModeViolation");
+    expect(
+      classifyFailure(
+        [],
+        createAction(
+          "Error: page.goto: net::ERR_NAME_NOT_RESOLVED at https://app.example.test/"
+        )
+      )?.category
+    ).toBe("navigationError");
+    expect(
+      classifyFailure(
+        [],
+        createAction("Error: locator.click: Timeout 5000ms exceeded.")
+      )?.category
+    ).toBe("actionTimeout");
+  });
+
+  it("tells assertion timeouts from failed assertions", () => {
+    const timedOut =
+      "Error: Timed out 5000ms waiting for expect(locator).toHaveText(expected)";
+    const failed =
+      "Error: expect(received).toBe(expected)\n\nExpected: 1\nReceived: 2";
+
+    expect(
+      classifyFailure([
+        {
+          message: timedOut,
+          timestamp: 1,
+          assertion: parseAssertionError(timedOut),
+        },
+      ])?.category
+    ).toBe("expectTimeout");
+    expect(
+      classifyFailure([
+        {
+          message: failed,
+          timestamp: 1,
+          assertion: parseAssertionError(failed),
+        },
+      ])
+    ).toMatchObject({
+      category: "assertionFailure",
+      evidence: "Error: expect(received).toBe(expected)",
+    });
+  });
+
+  it("strips terminal colors from the evidence", () => {
+    expect(
+      classifyFailure([
+        {
+          message: "\u001b[31mError: something went wrong\u001b[39m",
+          timestamp: 1,
+        },
+      ])
+    ).toMatchObject({
+      category: "unknown",
+      evidence: "Error: something went wrong",
+    });
+  });
+
+  it("returns nothing for traces that didn't fail", () => {
+    expect(classifyFailure([])).toBeUndefined();
+    expect(isTestTimeoutError("Timeout 5000ms exceeded.")).toBe(false);
+  });
+});
+
+describe("failureCategory", () => {
+  it("classifies the failures of the sample traces", async () => {
+    const timedOut: ParsedTrace = await parseSampleTrace("event-trace.zip");
+    const failed: ParsedTrace = await parseSampleTrace(
+      "visit-danube-trace.zip"
+    );
+
+    expect(timedOut.failureCategory).toMatchObject({
+      category: "expectTimeout",
+      callId: "expect@93",
+    });
+    expect(failed.failureCategory).toMatchObject({
+      category: "assertionFailure",
+      evidence: "Error: expect(received).toBeLessThan(expected)",
+      callId: "expect@12",
+    });
+  });
+});
+
+describe("stripAnsi", () => {
+  it("removes terminal color codes", () => {
+    expect(
+      stripAnsi("\u001b[2mexpect(\u001b[22m\u001b[31mreceived\u001b[39m)")
+    ).toBe("expect(received)");
+  });
+});
@@ -0,0 +1,92 @@
+import {
+  ParsedTrace,
+  formatConsoleLocation,
+  groupConsoleMessages,
+  normalizeConsoleType,
+  parseConsoleEvent,
+} from "@/trace";
+import { parseSampleTrace } from "./helpers";
+
+describe("console messages", () => {
+  describe("on a sample trace", () => {
+    let trace: ParsedTrace;
+
+    beforeAll(async () => {
+      trace = await parseSampleTrace("event-trace.zip");
+    });
+
+    it("reads every message with where it was logged from", () => {
+      expect(trace.consoleMessages).toHaveLength(51);
+
+      const message = trace.consoleMessages.find(
+        (m) => m.text === "DebugService initialized"
+      )!;
+      expect(message).toMatchObject({
+        type: "log",
+        args: ["DebugService initialized"],
+        pageId: "page@151fea97884af0b00f6972bae79d2078",
+      });
+      expect(formatConsoleLocation(message.location!)).toBe(
+        "https://patient-app-e2e.netlify.app/_app/immutable/chunks/error.v2.service.cad618c3.js:30:236"
+      );
+    });
+
+    it("folds repeated messages into groups", () => {
+      const groups = groupConsoleMessages(trace.consoleMessages);
+
+      expect(groups).toHaveLength(15);
+      expect(groups.reduce((count, group) => count + group.count, 0)).toBe(51);
+      expect(groups.find((group) => group.type === "error")).toMatchObject({
+        text: "Failed to load resource: the server responded with a status of 404 ()",
+        count: 2,
+      });
+    });
+  });
+
+  it("agrees on the type of console.warn() and warning records", () => {
+    expect(normalizeConsoleType("warn")).toBe("warning");
+    expect(normalizeConsoleType("warning")).toBe("warning");
+    expect(normalizeConsoleType("assert")).toBe("error");
+    expect(normalizeConsoleType("trace")).toBe("debug");
+    expect(normalizeConsoleType(undefined)).toBe("log");
+  });
+
+  it("reads the console calls of older CDP based traces", () => {
+    expect(
+      parseConsoleEvent({
+        method: "Runtime.consoleAPICalled",
+        timestamp: 1200,
+        pageId: "page@1",
+        params: {
+          type: "warn",
+          args: [
+            { type: "string", value: "Retrying" },
+            { type: "number", value: 3 },
+          ],
+          stackTrace: {
+            callFrames: [
+              {
+                functionName: "load",
+                url: "https://app.example.test/app.js",
+                lineNumber: 10,
+                columnNumber: 4,
+              },
+            ],
+          },
+        },
+      })
+    ).toEqual({
+      type: "warning",
+      text: "Retrying 3",
+      args: ["Retrying", "3"],
+      location: {
+        url: "https://app.example.test/app.js",
+        lineNumber: 10,
+        columnNumber: 4,
+      },
+      timestamp: 1200,
+      stackTrace: "at load (https://app.example.test/app.js:10:4)",
+      pageId: "page@1",
+    });
+  });
+});
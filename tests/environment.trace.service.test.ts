@@ -0,0 +1,42 @@
+import { describeEnvironment, extractEnvironment } from "@/trace";
+import { parseSampleTrace } from "./helpers";
+
+describe("extractEnvironment", () => {
+  it("reads the browser context setup of the sample trace", async () => {
+    const { environment } = await parseSampleTrace("visit-danube-trace.zip");
+
+    expect(environment).toMatchObject({
+      browserName: "chromium",
+      platform: "linux",
+      sdkLanguage: "javascript",
+      traceVersion: 7,
+      viewport: { width: 1280, height: 720 },
+      locale: "en-US",
+      colorScheme: "light",
+      isMobile: false,
+    });
+    expect(environment.playwrightVersion).toBeUndefined();
+    expect(describeEnvironment(environment)).toBe(
+      "1280x720, en-US, light mode, on linux, Playwright version not recorded (trace format 7)"
+    );
+  });
+
+  it("takes the Playwright version from a release version", () => {
+    const environment = extractEnvironment([
+      { type: "context-options", version: 7, browserName: "", options: {} },
+      {
+        type: "context-options",
+        version: "1.44.1",
+        browserName: "webkit",
+        options: {},
+      },
+    ]);
+
+    expect(environment).toMatchObject({
+      browserName: "webkit",
+      playwrightVersion: "1.44.1",
+      traceVersion: 7,
+    });
+    expect(describeEnvironment(environment)).toBe("Playwright 1.44.1");
+  });
+});
@@ -0,0 +1,100 @@
+import { ParsedTrace, describePageEvents, extractPageEvents } from "@/trace";
+import { parseSampleTrace } from "./helpers";
+
+// 2025-05-06T08:12:18.000Z
+const START = 1746519138000;
+
+describe("page events", () => {
+  let trace: ParsedTrace;
+
+  beforeAll(async () => {
+    trace = await parseSampleTrace("event-trace.zip");
+  });
+
+  it("finds none in a sample trace without any", () => {
+    expect(trace.pageErrors).toEqual([]);
+    expect(trace.dialogs).toEqual([]);
+    expect(trace.downloads).toEqual([]);
+    expect(trace.fileChoosers).toEqual([]);
+    expect(describePageEvents(trace)).toBeUndefined();
+  });
+
+  it("collects page errors, dialogs, downloads and file choosers", () => {
+    const events = extractPageEvents([
+      {
+        type: "event",
+        class: "Page",
+        method: "pageError",
+        pageId: "page@1",
+        time: START + 300,
+        params: {
+          error: {
+            error: {
+              name: "TypeError",
+              message: "Cannot read properties of undefined (reading 'avg')",
+            },
+          },
+        },
+      },
+      {
+        type: "event",
+        class: "Dialog",
+        method: "__create__",
+        time: START + 100,
+        params: {
+          guid: "dialog@1",
+          initializer: {
+            type: "prompt",
+            message: "Patient name?",
+            page: { guid: "page@1" },
+          },
+        },
+      },
+      {
+        type: "before",
+        class: "Dialog",
+        method: "accept",
+        startTime: START + 150,
+        params: { promptText: "Jane" },
+      },
+      {
+        type: "event",
+        class: "Page",
+        method: "download",
+        pageId: "page@1",
+        time: START + 200,
+        params: {
+          url: "https://app.example.test/report.pdf",
+          suggestedFilename: "report.pdf",
+        },
+      },
+      {
+        type: "event",
+        class: "Page",
+        method: "fileChooser",
+        pageId: "page@1",
+        time: START + 400,
+        params: { isMultiple: true },
+      },
+    ]);
+
+    expect(events.dialogs).toEqual([
+      {
+        type: "prompt",
+        message: "Patient name?",
+        timestamp: START + 100,
+        pageId: "page@1",
+        handledBy: "accept",
+        promptText: "Jane",
+      },
+    ]);
+    expect(describePageEvents({ ...trace, ...events })).toBe(
+      [
+        '[08:12:18.100] prompt dialog "Patient name?" accepted with "Jane"',
+        "[08:12:18.200] Download of report.pdf from https://app.example.test/report.pdf",
+        "[08:12:18.300] Uncaught page error: TypeError: Cannot read properties of undefined (reading 'avg')",
+        "[08:12:18.400] File chooser opened for multiple files",
+      ].join("\n")
+    );
+  });
+});
@@ -0,0 +1,30 @@
+import * as path from "path";
+import {
+  ParsedTrace,
+  ParseTraceOptions,
+  groupTraceFiles,
+  loadTraceFileStreams,
+  parseTraceStreams,
+} from "@/trace";
+import { Logger } from "@/ui/classes/logger.class";
+
+const SAMPLES_DIR = path.join(__dirname, "../data/samples");
+
+/**
+ * Parses one of the sample traces of data/samples as the CLI streams it,
+ * without logging
+ */
+export async function parseSampleTrace(
+  name: string,
+  options: ParseTraceOptions = {}
+): Promise<ParsedTrace> {
+  const { files } = await loadTraceFileStreams(path.join(SAMPLES_DIR, name));
+  const { traceFile, networkFiles, stacksFiles, contextFiles } =
+    groupTraceFiles(files);
+  if (!traceFile) throw new Error(`No trace file found in ${name}`);
+
+  return parseTraceStreams(traceFile, networkFiles, stacksFiles, contextFiles, {
+    logger: Logger.create({ level: "silent" }),
+    ...options,
+  });
+}
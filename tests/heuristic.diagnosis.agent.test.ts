@@ -0,0 +1,75 @@
+import { HeuristicDiagnosisAgent } from "@/agents/agent/heuristic.diagnosis.agent";
+import { ParsedTrace, findFailingAction } from "@/trace";
+import { Logger } from "@/ui/classes/logger.class";
+import { parseSampleTrace } from "./helpers";
+
+describe("HeuristicDiagnosisAgent", () => {
+  let trace: ParsedTrace;
+
+  beforeAll(async () => {
+    trace = await parseSampleTrace("event-trace.zip");
+  });
+
+  it("diagnoses the sample's assertion from its expected and received values", async () => {
+    const { result, reasoning } = await new HeuristicDiagnosisAgent().process({
+      trace,
+    });
+
+    expect(result).toMatchObject({
+      rootCause:
+        'The element checked by toContainText was "No data" instead of "130"',
+      confidence: 0.6,
+      evidence: ['Expected: "130"', 'Received: "No data"'],
+    });
+    expect(reasoning).toBe("Matched rules: assertion-value-mismatch (0.6)");
+  });
+
+  it("puts the most confident match first", async () => {
+    const failingAction = findFailingAction(
+      trace.actions,
+      trace.failureLocation
+    )!;
+    const rejected = {
+      ...trace.networkRequests[0],
+      url: "https://patient-app-e2e.netlify.app/api/vitals",
+      method: "GET",
+      type: "fetch",
+      status: 401,
+      timestamp: failingAction.startTime!,
+    };
+
+    const { result } = await new HeuristicDiagnosisAgent().process({
+      trace: {
+        ...trace,
+        networkRequests: [...trace.networkRequests, rejected],
+      },
+    });
+
+    expect(result.rootCause).toBe(
+      "The API call GET https://patient-app-e2e.netlify.app/api/vitals was rejected with 401, so the data the test checks never loaded"
+    );
+    expect(result.confidence).toBe(0.8);
+    expect(result.relatedIssues).toContain(
+      'The element checked by toContainText was "No data" instead of "130"'
+    );
+  });
+
+  it("skips rules that fail to evaluate", async () => {
+    const agent = new HeuristicDiagnosisAgent([
+      {
+        name: "broken",
+        evaluate() {
+          throw new Error("Unexpected trace shape");
+        },
+      },
+    ]).setLogger(Logger.create({ level: "silent" }));
+
+    const { result, reasoning } = await agent.process({ trace });
+
+    expect(result).toMatchObject({
+      rootCause: "No known failure pattern matched this trace",
+      confidence: 0.1,
+    });
+    expect(reasoning).toBe("No rule matched.");
+  });
+});
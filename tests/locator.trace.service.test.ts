@@ -0,0 +1,164 @@
+import {
+  ActionEvent,
+  FrameSnapshot,
+  SnapshotElement,
+  buildSnapshotTree,
+  ParsedTrace,
+  checkFailureLocator,
+  findTargetInputType,
+  querySnapshot,
+} from "@/trace";
+import { parseSampleTrace } from "./helpers";
+
+const LOGIN_PAGE = [
+  "HTML",
+  {},
+  [
+    "BODY",
+    {},
+    ["BUTTON", {}, "Sign in"],
+    ["BUTTON", {}, "Sign in with Google"],
+    ["INPUT", { id: "email", type: "email" }],
+    ["INPUT", { "data-testid": "password", type: "password" }],
+    ["UL", {}, ["LI", {}, "One"], ["LI", {}, "Two"]],
+  ],
+];
+
+function createSnapshot(snapshotName: string, html: any): FrameSnapshot {
+  return {
+    snapshotName,
+    pageId: "page@1",
+    frameId: "frame@1",
+    frameUrl: "https://app.example.test/login",
+    html,
+    timestamp: 0,
+    isMainFrame: true,
+  };
+}
+
+function createAction(selector: string): ActionEvent {
+  return {
+    type: "locator.click",
+    callId: "call@1",
+    apiName: "locator.click",
+    selector,
+    timestamp: 0,
+    pageId: "page@1",
+    beforeSnapshot: "before@call@1",
+    afterSnapshot: "after@call@1",
+    error: "Error: locator.click: Timeout 5000ms exceeded.",
+  };
+}
+
+// Helper function to list what the elements a selector matched show
+function query(selector: string): string[] {
+  const root = buildSnapshotTree(
+    [createSnapshot("before@call@1", LOGIN_PAGE)],
+    "before@call@1"
+  )!;
+  return querySnapshot(root, selector).map(
+    (element: SnapshotElement) =>
+      `${element.tag}:${element.children.join("") || element.attributes.type}`
+  );
+}
+
+describe("querySnapshot", () => {
+  it("matches quoted legacy text selectors exactly", () => {
+    expect(query('text="Sign in"')).toEqual(["BUTTON:Sign in"]);
+    expect(query("text=Sign in")).toEqual([
+      "BUTTON:Sign in",
+      "BUTTON:Sign in with Google",
+    ]);
+  });
+
+  it("tells exact from case insensitive text matches", () => {
+    expect(query('internal:text="sign in"s')).toEqual([]);
+    expect(query('internal:text="Sign in"s')).toEqual(["BUTTON:Sign in"]);
+    expect(query('internal:text="sign in"i')).toHaveLength(2);
+  });
+
+  it("evaluates test ids, CSS and chained selectors", () => {
+    expect(query('internal:testid=[data-testid="password"s]')).toEqual([
+      "INPUT:password",
+    ]);
+    expect(query("ul > li")).toEqual(["LI:One", "LI:Two"]);
+    expect(query("ul >> li >> nth=1")).toEqual(["LI:Two"]);
+  });
+
+  it("rejects invalid regular expressions", () => {
+    expect(() => query("internal:text=/Sign in(/")).toThrow(
+      "invalid regular expression /Sign in(/"
+    );
+  });
+});
+
+describe("checkFailureLocator", () => {
+  let trace: ParsedTrace;
+
+  beforeAll(async () => {
+    trace = await parseSampleTrace("event-trace.zip");
+  });
+
+  const snapshots = [
+    createSnapshot("before@call@1", LOGIN_PAGE),
+    createSnapshot("after@call@1", [
+      "HTML",
+      {},
+      ["BODY", {}, ["BUTTON", {}, "Sign in"], ["BUTTON", {}, "Sign in"]],
+    ]),
+  ];
+
+  it("counts the matches before and after the failing action", () => {
+    expect(
+      checkFailureLocator([createAction('text="Sign in"')], snapshots)
+    ).toMatchObject({
+      callId: "call@1",
+      before: { snapshotName: "before@call@1", count: 1 },
+      after: { snapshotName: "after@call@1", count: 2 },
+    });
+  });
+
+  it("reports selectors it can't evaluate instead of failing", () => {
+    const evidence = checkFailureLocator(
+      [createAction("internal:text=/Sign in(/")],
+      snapshots
+    );
+
+    expect(evidence?.unsupported).toMatch(/invalid regular expression/);
+    expect(evidence?.before).toBeUndefined();
+  });
+
+  it("re-runs the failing selector of a sample trace", () => {
+    expect(trace.locatorEvidence).toMatchObject({
+      callId: "expect@93",
+      selector: 'p.p2--v2:has-text("Avg systolic") + p',
+      before: { count: 1, elements: ['<p> "No data"'] },
+      after: { count: 1 },
+    });
+  });
+});
+
+describe("findTargetInputType", () => {
+  const snapshots = [createSnapshot("before@call@1", LOGIN_PAGE)];
+
+  it("finds the type of the input a selector matches", () => {
+    expect(
+      findTargetInputType(
+        snapshots,
+        createAction('internal:testid=[data-testid="password"s]')
+      )
+    ).toBe("password");
+    expect(findTargetInputType(snapshots, createAction("#email"))).toBe(
+      "email"
+    );
+  });
+
+  it("ignores elements that aren't inputs and unsupported selectors", () => {
+    expect(
+      findTargetInputType(snapshots, createAction('text="Sign in"'))
+    ).toBeUndefined();
+    expect(
+      findTargetInputType(snapshots, createAction("xpath=//input"))
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,59 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Logger } from "@/ui/classes/logger.class";
+
+describe("Logger", () => {
+  let dir: string;
+  let logFile: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "logger-"));
+    logFile = path.join(dir, "trace-station.log");
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  // Helper function to read the lines written to the log file
+  function readLines(): string[] {
+    return fs.readFileSync(logFile, "utf-8").trim().split("\n");
+  }
+
+  it("writes the lines at or above its level with their namespace", () => {
+    const log = Logger.create({ level: "warn", file: logFile }).child("parse");
+
+    log.info("Parsed %d records", 120);
+    log.warn("Skipped %d malformed lines", 2);
+    log.child("schema").error("Unknown record type");
+
+    expect(readLines()).toEqual([
+      "WARN [parse] Skipped 2 malformed lines",
+      "ERROR [parse:schema] Unknown record type",
+    ]);
+  });
+
+  it("reconfigures every child from the root", () => {
+    const root = Logger.create({ level: "error", file: logFile });
+    const child = root.child("cli");
+    expect(child.isEnabled("debug")).toBe(false);
+
+    root.configure({ level: "debug", format: "json" });
+    child.debug("Using trace file: %s", "test.trace");
+
+    expect(JSON.parse(readLines()[0])).toMatchObject({
+      level: "debug",
+      namespace: "cli",
+      message: "Using trace file: test.trace",
+    });
+  });
+
+  it("writes nothing when silent", () => {
+    const log = Logger.create({ level: "silent", file: logFile });
+
+    log.error("Failed to parse the trace");
+
+    expect(fs.readFileSync(logFile, "utf-8")).toBe("");
+  });
+});
@@ -0,0 +1,72 @@
+import {
+  ParsedTrace,
+  alignRecordTimes,
+  getClockOffset,
+  mergeTraceTimelines,
+} from "@/trace";
+import { parseSampleTrace } from "./helpers";
+
+describe("mergeTraceTimelines", () => {
+  it("reads the clock offset of newer and older traces", () => {
+    expect(
+      getClockOffset({
+        type: "context-options",
+        wallTime: 1745324212844,
+        monotonicTime: 359.438,
+      })
+    ).toBeCloseTo(1745324212484.562);
+    expect(
+      getClockOffset({ type: "before", wallTime: 1000, startTime: 250 })
+    ).toBe(750);
+    expect(getClockOffset({ type: "after", endTime: 300 })).toBeUndefined();
+  });
+
+  it("sorts the aligned records of every trace into one timeline", () => {
+    const runner = [
+      { type: "before", callId: "test@1", startTime: 1000 },
+      { type: "after", callId: "test@1", endTime: 1400 },
+    ];
+    const context = [
+      { type: "before", callId: "call@1", startTime: 100 },
+      { type: "log", callId: "call@1", time: 150 },
+      { type: "after", callId: "call@1", endTime: 200 },
+    ];
+    context.forEach((record) => alignRecordTimes(record, 1000));
+
+    expect(
+      mergeTraceTimelines(runner, [context]).map(
+        (record) => `${record.type} ${record.callId}`
+      )
+    ).toEqual([
+      "before test@1",
+      "before call@1",
+      "log call@1",
+      "after call@1",
+      "after test@1",
+    ]);
+  });
+
+  describe("on a sample trace", () => {
+    let trace: ParsedTrace;
+
+    beforeAll(async () => {
+      trace = await parseSampleTrace("visit-danube-trace.zip");
+    });
+
+    it("moves the browser's records onto the runner's clock", () => {
+      const goto = trace.actions.find(
+        (action) => action.apiName === "page.goto"
+      )!;
+      const document = trace.networkRequests[0];
+
+      expect(document.url).toBe("https://danube-web.shop/");
+      expect(document.timestamp).toBeGreaterThanOrEqual(goto.startTime!);
+      expect(document.timestamp).toBeLessThanOrEqual(goto.endTime!);
+    });
+
+    it("keeps the runner's steps in the order they ran", () => {
+      const startTimes = trace.actions.map((action) => action.startTime!);
+      expect(startTimes).toEqual([...startTimes].sort((a, b) => a - b));
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { ChatOpenAI } from "@langchain/openai";
+import {
+  AnthropicModelProvider,
+  ModelProviderFactory,
+  OpenAIModelProvider,
+} from "@/agents/interfaces/model.interface";
+
+const LOCAL_SERVER = {
+  baseUrl: "http://localhost:11434/v1",
+  modelName: "llama3.1",
+};
+
+describe("ModelProviderFactory", () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    process.env.OPENAI_API_KEY = "sk-real-openai-key";
+    delete process.env.TRACE_STATION_API_KEY;
+    ModelProviderFactory.configure("anthropic");
+  });
+
+  afterAll(() => {
+    process.env = env;
+    ModelProviderFactory.configure("anthropic");
+  });
+
+  // Helper function to read the key the provider's client was given
+  function getApiKey(provider: OpenAIModelProvider): string | undefined {
+    return (provider.getModel() as ChatOpenAI).apiKey;
+  }
+
+  it("creates the configured default provider", () => {
+    ModelProviderFactory.configure("openai", { modelName: "gpt-4o-mini" });
+
+    const provider = ModelProviderFactory.createProvider();
+    expect(provider).toBeInstanceOf(OpenAIModelProvider);
+    expect((provider.getModel() as ChatOpenAI).model).toBe("gpt-4o-mini");
+    expect(ModelProviderFactory.createProvider("anthropic")).toBeInstanceOf(
+      AnthropicModelProvider
+    );
+  });
+
+  it("never sends the OpenAI key to an OpenAI-compatible server", () => {
+    const provider = ModelProviderFactory.createProvider(
+      "openai-compatible",
+      undefined,
+      LOCAL_SERVER
+    ) as OpenAIModelProvider;
+
+    expect(getApiKey(provider)).toBe("not-needed");
+  });
+
+  it("uses the key given for the OpenAI-compatible server", () => {
+    process.env.TRACE_STATION_API_KEY = "local-server-key";
+    expect(
+      getApiKey(
+        ModelProviderFactory.createProvider(
+          "openai-compatible",
+          undefined,
+          LOCAL_SERVER
+        ) as OpenAIModelProvider
+      )
+    ).toBe("local-server-key");
+
+    expect(
+      getApiKey(
+        ModelProviderFactory.createProvider("openai-compatible", undefined, {
+          ...LOCAL_SERVER,
+          providerOptions: { apiKey: "option-key" },
+        }) as OpenAIModelProvider
+      )
+    ).toBe("option-key");
+  });
+
+  it("rejects OpenAI-compatible providers without a base URL or model", () => {
+    expect(() =>
+      ModelProviderFactory.createProvider("openai-compatible", undefined, {
+        modelName: "llama3.1",
+      })
+    ).toThrow("needs a base URL");
+    expect(() =>
+      ModelProviderFactory.createProvider("openai-compatible", undefined, {
+        baseUrl: LOCAL_SERVER.baseUrl,
+      })
+    ).toThrow("needs the name of a model");
+    expect(() => ModelProviderFactory.createProvider("mistral")).toThrow(
+      'Unknown model provider "mistral"'
+    );
+  });
+});
@@ -0,0 +1,89 @@
+import * as path from "path";
+import {
+  ParsedTrace,
+  isFailedRequest,
+  loadTraceFileStreams,
+  parseResourceSnapshot,
+  readResponseBody,
+} from "@/trace";
+import { parseSampleTrace } from "./helpers";
+
+describe("parseResourceSnapshot", () => {
+  it("maps a HAR entry that never got a response", () => {
+    const request = parseResourceSnapshot({
+      pageref: "page@1",
+      _frameref: "frame@1",
+      _resourceType: "fetch",
+      startedDateTime: "2025-05-06T08:12:30.000Z",
+      time: 120.5,
+      request: {
+        method: "POST",
+        url: "https://app.example.test/api/login",
+        headers: [{ name: "Content-Type", value: "application/json" }],
+        postData: { mimeType: "application/json", _sha1: "body.json" },
+      },
+      response: { status: -1, headers: [], _failureText: "net::ERR_FAILED" },
+      timings: { dns: 1, connect: 10, send: 0, wait: 100, receive: -1 },
+    })!;
+
+    expect(request).toMatchObject({
+      method: "POST",
+      status: undefined,
+      error: "net::ERR_FAILED",
+      type: "fetch",
+      requestBodySha1: "body.json",
+      requestMimeType: "application/json",
+      pageId: "page@1",
+      frameId: "frame@1",
+      timing: {
+        startTime: Date.parse("2025-05-06T08:12:30.000Z"),
+        duration: 120.5,
+      },
+    });
+    expect(isFailedRequest(request)).toBe(true);
+  });
+
+  describe("on a sample trace", () => {
+    let trace: ParsedTrace;
+
+    beforeAll(async () => {
+      trace = await parseSampleTrace("event-trace.zip");
+    });
+
+    it("keeps every request with its timing phases and server", () => {
+      expect(trace.networkRequests).toHaveLength(184);
+      expect(trace.networkRequests[0]).toMatchObject({
+        url: "https://patient-app-e2e.netlify.app/",
+        method: "GET",
+        status: 200,
+        httpVersion: "HTTP/2.0",
+        serverIPAddress: "[2600:1f1c:446:4900::65]",
+        serverPort: 443,
+        timings: { connect: 10.668, ssl: 8.87, wait: 65.136 },
+      });
+      expect(
+        trace.networkRequests.find(
+          (request) => request.error === "net::ERR_ABORTED"
+        )
+      ).toBeDefined();
+    });
+  });
+
+  it("reads the bodies of API calls from the archive", async () => {
+    const { resources } = await loadTraceFileStreams(
+      path.join(__dirname, "../data/samples/visit-danube-trace.zip")
+    );
+    const trace = await parseSampleTrace("visit-danube-trace.zip", {
+      resources,
+    });
+
+    const books = trace.networkRequests.find((request) =>
+      request.url.endsWith("/api/books")
+    )!;
+    expect(JSON.parse(books.responseBody!)).toEqual(expect.any(Array));
+
+    const document = trace.networkRequests[0];
+    expect(document.responseBody).toBeUndefined();
+    expect(await readResponseBody(document, resources!)).toContain("<html");
+  });
+});
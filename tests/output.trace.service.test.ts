@@ -0,0 +1,79 @@
+import {
+  ParsedTrace,
+  describeAttachment,
+  extractAttachments,
+  extractTestOutput,
+} from "@/trace";
+import { parseSampleTrace } from "./helpers";
+
+describe("test output and attachments", () => {
+  describe("on a sample trace", () => {
+    let trace: ParsedTrace;
+
+    beforeAll(async () => {
+      trace = await parseSampleTrace("event-trace.zip");
+    });
+
+    it("keeps what the test printed in order", () => {
+      expect(trace.testOutput).toHaveLength(110);
+      expect(trace.testOutput[0]).toEqual({
+        stream: "stdout",
+        text: "[STEP] performLogin: navigating to app",
+        timestamp: 1746519138681.995,
+      });
+      expect(trace.testOutput[109].text).toBe(
+        "[DEBUG] Checking stat #0: Avg systolic should be 130"
+      );
+    });
+
+    it("lists the video the runner attached", () => {
+      expect(trace.attachments).toEqual([
+        {
+          name: "video",
+          contentType: "video/webm",
+          sha1: "1cee3cf7c3eb2fe5974ffe962dce45cb7576f9cd",
+          timestamp: 1746519159643.456,
+          callId: "attach@98",
+        },
+      ]);
+      expect(describeAttachment(trace.attachments[0])).toBe(
+        "video [video/webm] (resources/1cee3cf7c3eb2fe5974ffe962dce45cb7576f9cd)"
+      );
+    });
+  });
+
+  it("decodes binary output chunks", () => {
+    expect(
+      extractTestOutput([
+        { type: "stderr", text: "", timestamp: 20 },
+        {
+          type: "stderr",
+          base64: Buffer.from("Warning: retrying\n").toString("base64"),
+          timestamp: 10,
+        },
+      ])
+    ).toEqual([{ stream: "stderr", text: "Warning: retrying", timestamp: 10 }]);
+  });
+
+  it("keeps the body of text attachments", () => {
+    const [attachment] = extractAttachments([
+      {
+        type: "after",
+        callId: "attach@3",
+        endTime: 500,
+        attachments: [
+          {
+            name: "response.json",
+            contentType: "application/json",
+            base64: Buffer.from('{"books":[]}').toString("base64"),
+          },
+        ],
+      },
+    ]);
+
+    expect(attachment.body).toBe('{"books":[]}');
+    expect(describeAttachment(attachment)).toBe(
+      "response.json [application/json]"
+    );
+  });
+});
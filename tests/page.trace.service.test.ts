@@ -0,0 +1,154 @@
+import {
+  ActionEvent,
+  NetworkRequest,
+  ParsedTrace,
+  attributeToFrames,
+  extractPages,
+  getMainFrameNavigations,
+} from "@/trace";
+import { parseSampleTrace } from "./helpers";
+
+const PAGE_ID = "page@151fea97884af0b00f6972bae79d2078";
+const MAIN_FRAME_ID = "frame@6d0b19088b1f061a1c56da26a98b5e5f";
+
+describe("pages and frames", () => {
+  describe("on a sample trace", () => {
+    let trace: ParsedTrace;
+
+    beforeAll(async () => {
+      trace = await parseSampleTrace("event-trace.zip");
+    });
+
+    it("builds the page with the navigation timeline of its main frame", () => {
+      expect(trace.pages).toHaveLength(1);
+      const [page] = trace.pages;
+      expect(page).toMatchObject({
+        pageId: PAGE_ID,
+        mainFrameId: MAIN_FRAME_ID,
+        viewport: { width: 1280, height: 720 },
+      });
+      expect(page.navigations).toHaveLength(20);
+
+      const navigations = getMainFrameNavigations(page);
+      expect(navigations).toHaveLength(11);
+      expect(navigations[0]).toMatchObject({
+        frameId: MAIN_FRAME_ID,
+        url: "https://patient-app-e2e.netlify.app/",
+        newDocument: true,
+        redirects: [],
+      });
+      expect(navigations[0].domContentLoadedAt).toBeLessThan(
+        navigations[0].loadAt!
+      );
+    });
+
+    it("attributes requests and console messages to a frame", () => {
+      expect(trace.frames).toHaveLength(10);
+      expect(trace.networkRequests.every((request) => request.frameId)).toBe(
+        true
+      );
+      expect(
+        trace.consoleMessages.every(
+          (message) => message.pageId === PAGE_ID && message.frameId
+        )
+      ).toBe(true);
+    });
+  });
+
+  it("follows redirects and popups", () => {
+    const { pages, frames } = extractPages([
+      {
+        type: "event",
+        class: "Page",
+        method: "__create__",
+        time: 10,
+        params: {
+          guid: "page@1",
+          initializer: { mainFrame: { guid: "frame@1" } },
+        },
+      },
+      {
+        type: "event",
+        class: "Request",
+        method: "__create__",
+        params: {
+          guid: "request@1",
+          initializer: { url: "https://app.example.test/" },
+        },
+      },
+      {
+        type: "event",
+        class: "Request",
+        method: "__create__",
+        params: {
+          guid: "request@2",
+          initializer: {
+            url: "https://app.example.test/login",
+            redirectedFrom: { guid: "request@1" },
+          },
+        },
+      },
+      {
+        type: "event",
+        class: "Frame",
+        method: "navigated",
+        pageId: "page@1",
+        time: 20,
+        params: {
+          url: "https://app.example.test/login",
+          newDocument: { request: { guid: "request@2" } },
+        },
+      },
+      {
+        type: "event",
+        class: "Page",
+        method: "popup",
+        pageId: "page@1",
+        time: 30,
+        params: { page: { guid: "page@2" } },
+      },
+    ]);
+
+    expect(pages[0].navigations).toEqual([
+      {
+        pageId: "page@1",
+        frameId: "frame@1",
+        url: "https://app.example.test/login",
+        timestamp: 20,
+        newDocument: true,
+        redirects: ["https://app.example.test/"],
+      },
+    ]);
+    expect(pages[1]).toMatchObject({
+      pageId: "page@2",
+      openerPageId: "page@1",
+    });
+    expect(frames).toEqual([
+      {
+        frameId: "frame@1",
+        pageId: "page@1",
+        isMainFrame: true,
+        url: "https://app.example.test/login",
+      },
+    ]);
+  });
+
+  it("gives actions without a frame the main frame of their page", () => {
+    const action = { pageId: "page@1" } as ActionEvent;
+    const request = { frameId: "frame@2" } as NetworkRequest;
+
+    attributeToFrames(
+      [{ pageId: "page@1", mainFrameId: "frame@1", navigations: [] }],
+      [
+        { frameId: "frame@1", pageId: "page@1", isMainFrame: true },
+        { frameId: "frame@2", pageId: "page@1", isMainFrame: false },
+      ],
+      [action],
+      [],
+      [request]
+    );
+
+    expect(action.frameId).toBe("frame@1");
+    expect(request.pageId).toBe("page@1");
+  });
+});
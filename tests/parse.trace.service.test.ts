@@ -0,0 +1,82 @@
+import * as path from "path";
+import {
+  ParseProgress,
+  ParsedTrace,
+  groupTraceFiles,
+  loadTraceFileStreams,
+  parseTraceFile,
+  readTraceFileStream,
+} from "@/trace";
+import { Logger } from "@/ui/classes/logger.class";
+import { parseSampleTrace } from "./helpers";
+
+describe("parseTraceFile", () => {
+  let trace: ParsedTrace;
+
+  beforeAll(async () => {
+    trace = await parseSampleTrace("event-trace.zip");
+  });
+
+  it("pairs the records of each call by callId", () => {
+    const callIds = trace.actions.map((action) => action.callId);
+    expect(new Set(callIds).size).toBe(callIds.length);
+
+    for (const action of trace.actions) {
+      expect(action.startTime).toBeDefined();
+      expect(action.endTime).toBeGreaterThanOrEqual(action.startTime!);
+    }
+
+    const fill = trace.actions.find((action) => action.callId === "pw:api@14");
+    expect(fill).toMatchObject({
+      apiName: "locator.fill",
+      libraryCallId: "call@73",
+      beforeSnapshot: "before@call@73",
+      inputSnapshot: "input@call@73",
+      afterSnapshot: "after@call@73",
+    });
+    expect(fill!.logs!.length).toBeGreaterThan(0);
+  });
+
+  it("folds library calls into the runner steps that issued them", () => {
+    expect(
+      trace.actions.filter((action) => action.callId!.startsWith("call@"))
+    ).toHaveLength(0);
+
+    const failingAction = trace.actions.find(
+      (action) => action.callId === trace.failureLocation?.callId
+    );
+    expect(failingAction).toMatchObject({
+      callId: "expect@93",
+      libraryCallId: "call@317",
+      selector: 'p.p2--v2:has-text("Avg systolic") + p',
+    });
+    expect(failingAction!.error).toMatch(/^Error: Timed out 5000ms/);
+  });
+});
+
+describe("parseTraceStreams", () => {
+  it("parses a streamed trace like one read into memory", async () => {
+    const progress: ParseProgress[] = [];
+    const streamed = await parseSampleTrace("event-trace.zip", {
+      onProgress: (update) => progress.push(update),
+    });
+
+    const { files } = await loadTraceFileStreams(
+      path.join(__dirname, "../data/samples/event-trace.zip")
+    );
+    const { traceFile, networkFiles, stacksFiles, contextFiles } =
+      groupTraceFiles(await Promise.all(files.map(readTraceFileStream)));
+    const inMemory = await parseTraceFile(
+      traceFile!,
+      networkFiles,
+      stacksFiles,
+      contextFiles,
+      { logger: Logger.create({ level: "silent" }) }
+    );
+
+    expect(streamed).toEqual(inMemory);
+    const last = progress[progress.length - 1];
+    expect(last.bytesRead).toBe(last.totalBytes);
+    expect(last.records).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,386 @@
+import * as fs from "fs";
+import * as path from "path";
+import { isDeepStrictEqual } from "util";
+import { z } from "zod";
+import { PromptTemplate } from "@langchain/core/prompts";
+import { RunnableLambda, RunnableSequence } from "@langchain/core/runnables";
+import {
+  AgentInput,
+  AgentOutput,
+  DiagnosisOutput,
+  ILanguageModelProvider,
+} from "@/agents/interfaces";
+import { BaseAgent } from "@/agents/agent/base.agent";
+import { ChatAgent } from "@/agents/agent/chat.agent";
+import { ContextAgent } from "@/agents/agent/context.agent";
+import { DiagnosisAgent } from "@/agents/agent/diagnosis.agent";
+import { HeuristicDiagnosisAgent } from "@/agents/agent/heuristic.diagnosis.agent";
+import { OrchestratorAgent } from "@/agents/agent/orchestrator.agent";
+import { RecommendationAgent } from "@/agents/agent/recommendation.agent";
+import { TraceAnalysisAgent } from "@/agents/agent/trace.analysis.agent";
+import {
+  ParsedTrace,
+  findFailingAction,
+  findInstructionLikeContent,
+} from "@/trace";
+import { Logger } from "@/ui/classes/logger.class";
+import { parseSampleTrace } from "./helpers";
+
+const FIXTURES_DIR = path.join(__dirname, "fixtures/prompt-injection");
+
+// Shorter payload lines could appear in the prompt by coincidence
+const MIN_CHECKED_LINE_LENGTH = 8;
+
+const FENCED_SECTION_PATTERN =
+  /<untrusted-data\s[^>]*>[\s\S]*?<\/untrusted-data>/g;
+
+// Answers to each agent's prompt from a model that quotes the payload in
+// every free-text field. The agent must parse them into the same fields,
+// whatever the payload says.
+const ECHO_ANSWERS: Record<string, (quote: string) => Record<string, any>> = {
+  orchestrator: (quote) => ({
+    plan: [
+      {
+        type: "analysis",
+        name: "Analyze the failure",
+        description: quote,
+        reason: quote,
+        dependencies: [],
+        priority: "high",
+      },
+    ],
+    overview: quote,
+    reasoning: quote,
+  }),
+  analysis: (quote) => ({
+    failurePoint: "The failing assertion",
+    failureReason: quote,
+    failedActions: [quote],
+    errorMessages: [quote],
+    severityLevel: "high",
+    reasoning: quote,
+  }),
+  context: (quote) => ({
+    relevantDocumentation: [quote],
+    commonPatterns: [quote],
+    suggestions: [quote],
+    documentationReferences: ["https://playwright.dev/docs/test-assertions"],
+    reasoning: quote,
+  }),
+  diagnosis: (quote) => ({
+    rootCause: quote,
+    explanation: quote,
+    confidence: 0.6,
+    relatedIssues: [quote],
+    reasoning: quote,
+  }),
+  recommendation: (quote) => ({
+    recommendations: [quote],
+    codeFixes: [quote],
+    bestPractices: [quote],
+    priority: "medium",
+    userImpact: { severity: "moderate", description: quote },
+    notes: [quote],
+    synthesis: quote,
+    reasoning: quote,
+  }),
+  chat: (quote) => ({
+    message: quote,
+    followupQuestions: ["Why did the page show this text?"],
+  }),
+};
+
+const injectionFixtureSchema = z.object({
+  name: z.string().min(1),
+  description: z.string(),
+  target: z.enum([
+    "test-title",
+    "console",
+    "error",
+    "action-error",
+    "network",
+    "dom",
+    "test-output",
+    "previous-analysis",
+  ]),
+  payload: z.string().min(1),
+  expectedFlags: z.array(z.string()).default([]),
+});
+
+// Text recorded from a hostile page, trying to steer the analysis. The
+// target is the part of a trace, or of an agent's input, the payload is
+// planted in, and the expected flags are the instruction-like patterns the
+// payload must be flagged with.
+type InjectionFixture = z.infer<typeof injectionFixtureSchema>;
+
+// Helper function to load the adversarial fixtures, one JSON file per fixture
+function loadInjectionFixtures(fixturesDir: string): InjectionFixture[] {
+  return fs
+    .readdirSync(fixturesDir)
+    .filter((file) => file.endsWith(".json"))
+    .sort()
+    .map((file) => {
+      const result = injectionFixtureSchema.safeParse(
+        JSON.parse(fs.readFileSync(path.join(fixturesDir, file), "utf-8"))
+      );
+      if (!result.success) {
+        throw new Error(
+          `Invalid injection fixture ${file}: ${result.error.issues
+            .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+            .join(", ")}`
+        );
+      }
+      return result.data;
+    });
+}
+
+// Helper function to return the agent input for a copy of the trace with the
+// fixture's payload planted where a hostile page would put it. Planted records
+// don't change what failed, so the offline diagnosis must stay the same.
+function plantInjection(
+  trace: ParsedTrace,
+  fixture: InjectionFixture
+): AgentInput {
+  const planted = structuredClone(trace);
+  const { payload } = fixture;
+  const timestamp = planted.duration.end;
+
+  switch (fixture.target) {
+    case "test-title":
+      planted.testTitle = payload;
+      break;
+    case "console":
+      planted.consoleMessages.push({ type: "log", text: payload, timestamp });
+      break;
+    case "error":
+      planted.errors.push({ message: payload, timestamp });
+      break;
+    case "action-error": {
+      const action =
+        findFailingAction(planted.actions) ||
+        planted.actions[planted.actions.length - 1];
+      if (action) {
+        action.error = action.error ? `${action.error}\n${payload}` : payload;
+      }
+      break;
+    }
+    case "network":
+      planted.networkRequests.push({
+        url: "https://app.example.test/api/status",
+        method: "GET",
+        status: 200,
+        statusText: payload,
+        type: "fetch",
+        timestamp,
+      });
+      break;
+    case "dom":
+      // At the top of the page, where the DOM's prompt budget keeps it
+      planted.failureDom = `<div class="banner">${payload}</div>\n${
+        planted.failureDom || ""
+      }`;
+      break;
+    case "test-output":
+      // As a test that logs page text on failure would print it
+      planted.testOutput.push({ stream: "stderr", text: payload, timestamp });
+      break;
+    case "previous-analysis":
+      // A model that quoted the page in its answer passes the text on to
+      // the next agent
+      return {
+        trace: planted,
+        context: { analysisResult: { failureReason: payload } },
+      };
+  }
+
+  return { trace: planted };
+}
+
+// Helper function to check that no agent can be steered by the fixture's
+// payload: every model-backed agent that shows the payload must keep it inside
+// the untrusted-data fences and mark it as instruction-like, must parse an
+// answer quoting the payload into the fields it was given in, and the offline
+// diagnosis of the trace must not change. Returns the agents whose prompt
+// showed the payload, and what failed.
+async function checkInjectionFixture(
+  trace: ParsedTrace,
+  fixture: InjectionFixture,
+  baseline: DiagnosisOutput
+): Promise<{ agents: string[]; failures: string[] }> {
+  const input = plantInjection(trace, fixture);
+  const failures: string[] = [];
+  const agents: string[] = [];
+
+  const flags = findInstructionLikeContent(fixture.payload);
+  const missingFlags = fixture.expectedFlags.filter(
+    (flag) => !flags.includes(flag)
+  );
+  if (missingFlags.length > 0) {
+    failures.push(`payload not flagged as ${missingFlags.join(", ")}`);
+  }
+
+  const payloadLines = fixture.payload
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length >= MIN_CHECKED_LINE_LENGTH);
+
+  for (const [name, agent] of Object.entries(
+    createModelAgents(fixture.payload)
+  )) {
+    // Formatted first, the chat keeps the answer in its history
+    const prompt = await agent.formatInput(input);
+
+    // Answers quoting the payload must not change what the agent parses
+    const answer = ECHO_ANSWERS[name](quoteText(fixture.payload));
+    const output = flattenOutput(await agent.process(input));
+    for (const [field, value] of Object.entries(answer)) {
+      if (!isDeepStrictEqual(output[field], value)) {
+        failures.push(
+          `${name}: parsed ${field} ${JSON.stringify(
+            output[field]
+          )} differs from the answer`
+        );
+      }
+    }
+
+    const fenced = (prompt.match(FENCED_SECTION_PATTERN) || []).join("\n");
+    const outside = prompt.replace(FENCED_SECTION_PATTERN, "");
+
+    // Agents that don't show the planted part of the trace have nothing to
+    // fence
+    const shown = payloadLines.filter((line) =>
+      promptForms(line).some((form) => prompt.includes(form))
+    );
+    if (shown.length === 0) continue;
+    agents.push(name);
+
+    const leaked = shown.find((line) =>
+      promptForms(line).some((form) => outside.includes(form))
+    );
+    if (leaked) {
+      failures.push(`${name}: payload outside the fences: "${leaked}"`);
+    }
+
+    const opened = (prompt.match(/<untrusted-data\s/g) || []).length;
+    const closed = (prompt.match(/<\/untrusted-data>/g) || []).length;
+    if (opened !== closed) {
+      failures.push(`${name}: ${opened} fences opened, ${closed} closed`);
+    }
+
+    if (flags.length > 0 && !fenced.includes("[instruction-like]")) {
+      failures.push(`${name}: payload not marked as instruction-like`);
+    }
+  }
+
+  const diagnosis = await new HeuristicDiagnosisAgent().process(input);
+  if (
+    diagnosis.result.rootCause !== baseline.result.rootCause ||
+    diagnosis.result.confidence !== baseline.result.confidence
+  ) {
+    failures.push(
+      `offline diagnosis changed to "${diagnosis.result.rootCause}" (${diagnosis.result.confidence})`
+    );
+  }
+
+  return { agents, failures };
+}
+
+// Helper function to create the agents that are checked, each answered by a
+// model quoting the payload. They warn about every planted payload, so their
+// logger only reports errors.
+function createModelAgents(payload: string): Record<string, BaseAgent<any>> {
+  const agentLogger = Logger.create({ level: "error" });
+  const echo = (name: string) =>
+    createEchoModelProvider(name, ECHO_ANSWERS[name](quoteText(payload)));
+  const agents: Record<string, BaseAgent<any>> = {
+    orchestrator: new OrchestratorAgent(undefined, echo("orchestrator")),
+    analysis: new TraceAnalysisAgent(undefined, echo("analysis")),
+    context: new ContextAgent(undefined, false, echo("context")),
+    diagnosis: new DiagnosisAgent(undefined, echo("diagnosis")),
+    recommendation: new RecommendationAgent(undefined, echo("recommendation")),
+    chat: new ChatAgent(undefined, echo("chat")),
+  };
+
+  for (const [name, agent] of Object.entries(agents)) {
+    agent.setLogger(agentLogger.child(name));
+  }
+  return agents;
+}
+
+// Helper function to create a model provider that answers every prompt with
+// the given answer, in the format the agent asks for: sections of text for
+// the chat, JSON for the others
+function createEchoModelProvider(
+  name: string,
+  answer: Record<string, any>
+): ILanguageModelProvider {
+  const response =
+    name === "chat"
+      ? `RESPONSE: ${
+          answer.message
+        }\nFOLLOW-UP QUESTIONS:\n${answer.followupQuestions
+          .map((question: string, index: number) => `${index + 1}. ${question}`)
+          .join("\n")}`
+      : `\`\`\`json\n${JSON.stringify(answer, null, 2)}\n\`\`\``;
+
+  return {
+    createChain(prompt: PromptTemplate): RunnableSequence {
+      return RunnableSequence.from([
+        RunnableLambda.from((input: Record<string, any>) =>
+          prompt.format(input)
+        ),
+        RunnableLambda.from(() => response),
+      ]);
+    },
+    getModel() {
+      return undefined;
+    },
+  };
+}
+
+// Helper function to quote the payload as a model repeating the page would
+function quoteText(payload: string): string {
+  return `The page showed: "${payload}"`;
+}
+
+// Fields of an agent's output, whether they sit in its result or next to it
+function flattenOutput(output: AgentOutput): Record<string, any> {
+  return { reasoning: output.reasoning, ...output.result };
+}
+
+// Forms a payload line takes in a prompt, as is and inside JSON, with the
+// fence tags escaped
+function promptForms(line: string): string[] {
+  return [line, JSON.stringify(line).slice(1, -1)].map((form) =>
+    form.replace(/<(\/?untrusted-data)/gi, "&lt;$1")
+  );
+}
+
+describe("prompt-injection fixtures", () => {
+  const fixtures = loadInjectionFixtures(FIXTURES_DIR);
+  let trace: ParsedTrace;
+  let baseline: DiagnosisOutput;
+
+  beforeAll(async () => {
+    trace = await parseSampleTrace("event-trace.zip");
+    baseline = await new HeuristicDiagnosisAgent().process({ trace });
+  });
+
+  it("loads every fixture", () => {
+    expect(fixtures.length).toBeGreaterThan(0);
+  });
+
+  it.each(fixtures.map((fixture) => [fixture.name, fixture] as const))(
+    "keeps %s from steering the agents",
+    async (_name, fixture) => {
+      const { agents, failures } = await checkInjectionFixture(
+        trace,
+        fixture,
+        baseline
+      );
+
+      expect(agents).not.toHaveLength(0);
+      expect(failures).toEqual([]);
+    }
+  );
+});
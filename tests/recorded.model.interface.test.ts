@@ -0,0 +1,104 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { PromptTemplate } from "@langchain/core/prompts";
+import { RunnableLambda, RunnableSequence } from "@langchain/core/runnables";
+import { DiagnosisAgent } from "@/agents/agent/diagnosis.agent";
+import {
+  ILanguageModelProvider,
+  ModelProviderFactory,
+} from "@/agents/interfaces/model.interface";
+import {
+  RecordingModelProvider,
+  ReplayMissError,
+  ReplayModelProvider,
+} from "@/agents/interfaces/recorded.model.interface";
+import { ParsedTrace } from "@/trace";
+import { Logger } from "@/ui/classes/logger.class";
+import { parseSampleTrace } from "./helpers";
+
+const DIAGNOSIS = {
+  rootCause: "The books table stayed empty",
+  explanation: "The assertion expected rows but the page showed No data",
+  confidence: 0.8,
+  relatedIssues: [],
+};
+
+// Answers every prompt with the same diagnosis and counts the calls
+class StubModelProvider implements ILanguageModelProvider {
+  calls = 0;
+
+  createChain(prompt: PromptTemplate): RunnableSequence {
+    return RunnableSequence.from([
+      RunnableLambda.from((input: Record<string, any>) => prompt.format(input)),
+      RunnableLambda.from(() => {
+        this.calls++;
+        return JSON.stringify(DIAGNOSIS);
+      }),
+    ]);
+  }
+
+  getModel(): undefined {
+    return undefined;
+  }
+}
+
+describe("recorded model responses", () => {
+  let trace: ParsedTrace;
+  let fixturesDir: string;
+
+  beforeAll(async () => {
+    trace = await parseSampleTrace("event-trace.zip");
+  });
+
+  beforeEach(() => {
+    fixturesDir = fs.mkdtempSync(path.join(os.tmpdir(), "model-fixtures-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(fixturesDir, { recursive: true, force: true });
+    ModelProviderFactory.configure("anthropic");
+  });
+
+  // Helper function to diagnose the sample trace with the given provider
+  function diagnose(provider: ILanguageModelProvider, input = trace) {
+    return new DiagnosisAgent(undefined, provider)
+      .setLogger(Logger.create({ level: "silent" }))
+      .process({ trace: input });
+  }
+
+  it("replays a recorded diagnosis without calling the model", async () => {
+    const model = new StubModelProvider();
+    const recorded = await diagnose(
+      new RecordingModelProvider(model, fixturesDir)
+    );
+    expect(model.calls).toBe(1);
+    expect(fs.readdirSync(fixturesDir)).toHaveLength(1);
+
+    const replayed = await diagnose(new ReplayModelProvider(fixturesDir));
+    expect(replayed).toEqual(recorded);
+    expect(replayed.result.rootCause).toBe(DIAGNOSIS.rootCause);
+    expect(model.calls).toBe(1);
+  });
+
+  it("fails a prompt that wasn't recorded", async () => {
+    await diagnose(
+      new RecordingModelProvider(new StubModelProvider(), fixturesDir)
+    );
+
+    const changed = { ...trace, failureDom: "<p>Changed since recording</p>" };
+    await expect(
+      diagnose(new ReplayModelProvider(fixturesDir), changed)
+    ).rejects.toThrow(ReplayMissError);
+  });
+
+  it("replays every provider the factory creates", () => {
+    const fixtures = { mode: "replay" as const, dir: fixturesDir };
+    ModelProviderFactory.configure("anthropic", {}, fixtures);
+
+    expect(ModelProviderFactory.isReplaying()).toBe(true);
+    expect(ModelProviderFactory.createProvider("openai")).toBeInstanceOf(
+      ReplayModelProvider
+    );
+  });
+});
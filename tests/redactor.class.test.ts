@@ -0,0 +1,219 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { PromptTemplate } from "@langchain/core/prompts";
+import { RunnableLambda, RunnableSequence } from "@langchain/core/runnables";
+import { TraceAnalysisAgent } from "@/agents/agent/trace.analysis.agent";
+import { ILanguageModelProvider } from "@/agents/interfaces/model.interface";
+import { formatRedactedResultsAsJson } from "@/cli/services/cli.format.service";
+import { ParsedTrace, loadRedactionRules } from "@/trace";
+import { Redactor } from "@/trace/classes/redactor.class";
+import { Logger } from "@/ui/classes/logger.class";
+import { parseSampleTrace } from "./helpers";
+
+// Helper function to create a model provider that answers every prompt with
+// the same text
+function answerWith(response: string): ILanguageModelProvider {
+  return {
+    createChain(prompt: PromptTemplate): RunnableSequence {
+      return RunnableSequence.from([
+        RunnableLambda.from((input: Record<string, any>) =>
+          prompt.format(input)
+        ),
+        RunnableLambda.from(() => response),
+      ]);
+    },
+    getModel() {
+      return undefined;
+    },
+  };
+}
+
+describe("Redactor", () => {
+  let trace: ParsedTrace;
+  let password: string;
+
+  beforeAll(async () => {
+    trace = await parseSampleTrace("event-trace.zip");
+    password = trace.actions.find(
+      (action) => action.targetInputType === "password"
+    )!.value!;
+  });
+
+  it("finds the type of the inputs text was typed into", () => {
+    const inputTypes = Object.fromEntries(
+      trace.actions
+        .filter((action) => action.targetInputType)
+        .map((action) => [action.selector, action.targetInputType])
+    );
+    expect(inputTypes).toEqual({
+      'internal:testid=[data-testid="email"s]': "email",
+      'internal:testid=[data-testid="password"s]': "password",
+    });
+  });
+
+  it("masks the typed password wherever it shows up", () => {
+    expect(JSON.stringify(trace)).toContain(password);
+
+    const redactor = new Redactor();
+    const redacted = redactor.redactTrace(trace);
+
+    expect(JSON.stringify(redacted)).not.toContain(password);
+    const fill = redacted.actions.find(
+      (action) => action.targetInputType === "password"
+    )!;
+    expect(fill.value).toBe("[REDACTED:password-fill]");
+    expect(fill.logs!.map((log) => log.message)).toContain(
+      'fill("[REDACTED:password-fill]")'
+    );
+    expect(
+      redactor
+        .getReport()
+        .findings.some((finding) => finding.rule === "password-fill")
+    ).toBe(true);
+  });
+
+  it("finds password fields by their input type", () => {
+    const renamed = structuredClone(trace);
+    for (const action of renamed.actions) {
+      if (action.targetInputType !== "password") continue;
+      action.selector = "#field-2";
+      action.params = { ...action.params, selector: "#field-2" };
+    }
+
+    expect(JSON.stringify(new Redactor().redactTrace(renamed))).not.toContain(
+      password
+    );
+  });
+
+  it("leaves the trace it was given unchanged", () => {
+    new Redactor().redactTrace(trace);
+
+    expect(JSON.stringify(trace)).toContain(password);
+  });
+
+  it("masks credential headers and tokens in any value", () => {
+    const redactor = new Redactor([
+      { name: "order-id", pattern: /ORD-\d{6}/g },
+    ]);
+    const redacted = redactor.redactValue(
+      {
+        headers: [
+          { name: "Authorization", value: "Bearer abcdefghijklmnop" },
+          { name: "Accept", value: "application/json" },
+        ],
+        text: "Order ORD-123456 failed",
+      },
+      "request"
+    );
+
+    expect(redacted).toEqual({
+      headers: [
+        { name: "Authorization", value: "[REDACTED:header]" },
+        { name: "Accept", value: "application/json" },
+      ],
+      text: "Order [REDACTED:order-id] failed",
+    });
+    expect(redactor.getReport().count).toBe(2);
+  });
+
+  it("keeps the typed password out of the JSON output", async () => {
+    // A test asserting on the typed value, and a model quoting it
+    const asserted = structuredClone(trace);
+    const error = asserted.errors.find((error) => error.assertion)!;
+    error.assertion!.expected = password;
+    const answer = {
+      failurePoint: "The login form",
+      failureReason: `The password ${password} was rejected`,
+      failedActions: [],
+      errorMessages: [],
+      severityLevel: "high",
+      reasoning: "",
+    };
+
+    const redactor = new Redactor();
+    const analysis = await new TraceAnalysisAgent(
+      undefined,
+      answerWith(JSON.stringify(answer))
+    )
+      .setLogger(Logger.create({ level: "silent" }))
+      .setRedactor(redactor)
+      .process({ trace: asserted });
+    expect(analysis.result.assertionFailure!.expected).toBe(
+      "[REDACTED:password-fill]"
+    );
+
+    const output = formatRedactedResultsAsJson(
+      asserted,
+      { analysis },
+      redactor
+    );
+    expect(JSON.stringify(output)).not.toContain(password);
+  });
+
+  it("masks typed passwords in texts redacted after the trace", () => {
+    const redactor = new Redactor();
+    expect(redactor.redactText(`typed ${password}`, "prompt")).toContain(
+      password
+    );
+
+    redactor.redactTrace(trace);
+    expect(redactor.redactText(`typed ${password}`, "prompt")).toBe(
+      "typed [REDACTED:password-fill]"
+    );
+    expect(redactor.redactValue({ message: password }, "results")).toEqual({
+      message: "[REDACTED:password-fill]",
+    });
+  });
+});
+
+describe("loadRedactionRules", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "redact-rules-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  // Helper function to write a rules file and return its path
+  function writeRules(content: unknown): string {
+    const filePath = path.join(dir, "redact-rules.json");
+    fs.writeFileSync(filePath, JSON.stringify(content));
+    return filePath;
+  }
+
+  it("adds the team's rules to the redactor", () => {
+    const rules = loadRedactionRules(
+      writeRules([
+        { name: "customer-id", pattern: "CUST-\\d{6}" },
+        {
+          name: "order-token",
+          pattern: "(order=)[a-f0-9]{32}",
+          flags: "i",
+          replacement: "$1[REDACTED:order-token]",
+        },
+      ])
+    );
+
+    const redactor = new Redactor(rules);
+    expect(
+      redactor.redactText(
+        `CUST-123456 and CUST-654321 opened /cart?order=${"A1".repeat(16)}`,
+        "url"
+      )
+    ).toBe(
+      "[REDACTED:customer-id] and [REDACTED:customer-id] opened /cart?order=[REDACTED:order-token]"
+    );
+  });
+
+  it("names the rule with an invalid pattern", () => {
+    expect(() =>
+      loadRedactionRules(
+        writeRules({ rules: [{ name: "broken", pattern: "(unclosed" }] })
+      )
+    ).toThrow('Invalid pattern of redaction rule "broken": (unclosed');
+  });
+});
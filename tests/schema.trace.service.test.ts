@@ -0,0 +1,66 @@
+import * as path from "path";
+import {
+  ParsedTrace,
+  TraceFile,
+  getIncompatibilities,
+  groupTraceFiles,
+  loadTraceFileStreams,
+  parseTraceFile,
+  readTraceFileStream,
+} from "@/trace";
+import { Logger } from "@/ui/classes/logger.class";
+
+describe("trace format validation", () => {
+  let files: TraceFile[];
+
+  beforeAll(async () => {
+    const { files: streams } = await loadTraceFileStreams(
+      path.join(__dirname, "../data/samples/visit-danube-trace.zip")
+    );
+    files = await Promise.all(streams.map(readTraceFileStream));
+  });
+
+  // Helper function to parse the sample as if it was recorded in another
+  // trace format version
+  function parseAsVersion(version: number): Promise<ParsedTrace> {
+    const { traceFile, networkFiles, stacksFiles, contextFiles } =
+      groupTraceFiles(
+        files.map((file) => ({
+          filename: file.filename,
+          content: Buffer.from(
+            file.content
+              .toString("utf-8")
+              .replace(/"version":7,/g, `"version":${version},`)
+          ),
+        }))
+      );
+    return parseTraceFile(traceFile!, networkFiles, stacksFiles, contextFiles, {
+      logger: Logger.create({ level: "silent" }),
+    });
+  }
+
+  it("fully supports the sample's version", async () => {
+    const { diagnostics } = await parseAsVersion(7);
+
+    expect(diagnostics.traceVersions).toEqual([7]);
+    expect(getIncompatibilities(diagnostics)).toEqual([]);
+  });
+
+  it("reads newer versions with the newest schemas", async () => {
+    const { diagnostics, actions } = await parseAsVersion(8);
+
+    expect(diagnostics.newerVersions).toEqual([8]);
+    expect(diagnostics.unsupportedVersions).toEqual([]);
+    expect(getIncompatibilities(diagnostics)).toEqual([]);
+    expect(actions.length).toBeGreaterThan(0);
+  });
+
+  it("rejects older versions without schemas", async () => {
+    const { diagnostics } = await parseAsVersion(5);
+
+    expect(diagnostics.unsupportedVersions).toEqual([5]);
+    expect(getIncompatibilities(diagnostics)).toContain(
+      "Unsupported trace format version 5 (supported: 6, 7)"
+    );
+  });
+});
@@ -0,0 +1,75 @@
+import * as path from "path";
+import {
+  ParsedTrace,
+  ScreenshotData,
+  TraceResourceReader,
+  findClosestFrame,
+  findFailureFrame,
+  loadTraceFileStreams,
+  readScreenshot,
+} from "@/trace";
+import { parseSampleTrace } from "./helpers";
+
+describe("screencast frames", () => {
+  const frames: ScreenshotData[] = [
+    { timestamp: 100, sha1: "a-100.jpeg", pageId: "page@a" },
+    { timestamp: 180, sha1: "b-180.jpeg", pageId: "page@b" },
+    { timestamp: 300, sha1: "a-300.jpeg", pageId: "page@a" },
+  ];
+
+  it("finds the closest frame in the asked direction", () => {
+    expect(findClosestFrame(frames, 200)?.sha1).toBe("b-180.jpeg");
+    expect(findClosestFrame(frames, 200, "after")?.sha1).toBe("a-300.jpeg");
+    expect(findClosestFrame(frames, 50, "before")).toBeUndefined();
+  });
+
+  it("only looks at the frames of the action's page", () => {
+    expect(findClosestFrame(frames, 200, "before", "page@a")?.sha1).toBe(
+      "a-100.jpeg"
+    );
+    expect(findClosestFrame(frames, 200, "before", "page@c")?.sha1).toBe(
+      "b-180.jpeg"
+    );
+  });
+
+  describe("on a sample trace", () => {
+    let trace: ParsedTrace;
+    let resources: TraceResourceReader;
+
+    beforeAll(async () => {
+      resources = (
+        await loadTraceFileStreams(
+          path.join(__dirname, "../data/samples/visit-danube-trace.zip")
+        )
+      ).resources!;
+      trace = await parseSampleTrace("visit-danube-trace.zip");
+    });
+
+    it("links the failing action to the frame before it", () => {
+      const failingAction = trace.actions.find(
+        (action) => action.callId === trace.failureLocation?.callId
+      )!;
+
+      expect(trace.screenshots).toHaveLength(5);
+      expect(failingAction.frameBefore).toBeDefined();
+      expect(failingAction.frameBefore!.timestamp).toBeLessThanOrEqual(
+        failingAction.startTime!
+      );
+      expect(findFailureFrame(trace)).toBe(
+        findClosestFrame(
+          trace.screenshots,
+          failingAction.endTime!,
+          "before",
+          failingAction.pageId
+        )
+      );
+    });
+
+    it("reads the frame's image from the archive", async () => {
+      const image = await readScreenshot(findFailureFrame(trace)!, resources);
+
+      expect(image!.subarray(0, 2)).toEqual(Buffer.from([0xff, 0xd8]));
+      expect(await readScreenshot(findFailureFrame(trace)!)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import {
+  FrameSnapshot,
+  ParsedTrace,
+  renderSnapshot,
+  resolveSnapshotReferences,
+} from "@/trace";
+import { parseSampleTrace } from "./helpers";
+
+// Snapshots of one frame, the second reuses the heading of the first
+function createSnapshots(): FrameSnapshot[] {
+  const snapshot = (snapshotName: string, html: any): FrameSnapshot => ({
+    snapshotName,
+    pageId: "page@1",
+    frameId: "frame@1",
+    frameUrl: "https://app.example.test/",
+    html,
+    timestamp: 0,
+    isMainFrame: true,
+  });
+
+  return [
+    snapshot("before@call@1", [
+      "HTML",
+      {},
+      ["BODY", {}, ["H1", {}, "Orders"], ["P", {}, "Loading"]],
+    ]),
+    // Post-order nodes of the first snapshot: "Orders", H1, "Loading", P,
+    // BODY, HTML
+    snapshot("after@call@1", [
+      "HTML",
+      {},
+      ["BODY", {}, [[1, 1]], ["P", { class: "empty" }, "No orders"]],
+    ]),
+  ];
+}
+
+describe("resolveSnapshotReferences", () => {
+  it("replaces references with the nodes of earlier snapshots", () => {
+    const resolved = resolveSnapshotReferences(createSnapshots());
+
+    expect(resolved.snapshotName).toBe("after@call@1");
+    expect(resolved.html).toEqual([
+      "HTML",
+      {},
+      [
+        "BODY",
+        {},
+        ["H1", {}, "Orders"],
+        ["P", { class: "empty" }, "No orders"],
+      ],
+    ]);
+  });
+
+  it("drops references that point outside the recorded snapshots", () => {
+    const [first] = createSnapshots();
+    const resolved = resolveSnapshotReferences([
+      first,
+      { ...first, snapshotName: "after@call@2", html: ["P", {}, [[5, 0]]] },
+    ]);
+
+    expect(resolved.html).toEqual(["P", {}]);
+  });
+});
+
+describe("renderSnapshot", () => {
+  it("renders a snapshot whose references point at earlier ones", () => {
+    const html = renderSnapshot(createSnapshots(), "after@call@1");
+
+    expect(html).toContain("Orders");
+    expect(html).toContain("No orders");
+    expect(html).not.toContain("Loading");
+  });
+});
+
+describe("renderFailureDom", () => {
+  let trace: ParsedTrace;
+
+  beforeAll(async () => {
+    trace = await parseSampleTrace("event-trace.zip");
+  });
+
+  it("keeps only the failing action's snapshots, with references resolved", () => {
+    expect(
+      new Set(trace.snapshots.map((snapshot) => snapshot.snapshotName))
+    ).toEqual(new Set(["before@call@317", "after@call@317"]));
+
+    const hasReference = (node: any): boolean =>
+      Array.isArray(node) &&
+      (Array.isArray(node[0]) || node.slice(2).some(hasReference));
+    for (const snapshot of trace.snapshots) {
+      expect(hasReference(snapshot.html)).toBe(false);
+    }
+  });
+
+  it("renders the page as the failing action left it", () => {
+    expect(trace.failureDom).toContain("No data");
+    expect(trace.failureDom).not.toContain("<script");
+  });
+});
@@ -0,0 +1,117 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  ParsedTrace,
+  formatSourceExcerpt,
+  formatSourceLocation,
+  getSourceExcerpt,
+  parseStackFrames,
+} from "@/trace";
+import { parseSampleTrace } from "./helpers";
+
+const CHECK_DIRECTORY =
+  "/check/3f50bb04-bf9d-46a5-8397-92972a832590/__checks__/patient-app.event.logging";
+const MODULE_FILE = `${CHECK_DIRECTORY}/utils/module.ts`;
+
+// Stand-in for the helper module the sample test failed in
+const MODULE_SOURCE = Array.from(
+  { length: 230 },
+  (_, i) => `// line ${i + 1}`
+).join("\n");
+
+describe("source locations", () => {
+  it("reads the call stacks of a stacks file", () => {
+    const stacks = parseStackFrames({
+      files: ["/tests/login.spec.ts", "/tests/utils/module.ts"],
+      stacks: [
+        [
+          12,
+          [
+            [1, 227, 27, "expectWelcome"],
+            [0, 14, 5, ""],
+          ],
+        ],
+      ],
+    });
+
+    expect(stacks.get("call@12")).toEqual([
+      {
+        file: "/tests/utils/module.ts",
+        line: 227,
+        column: 27,
+        function: "expectWelcome",
+      },
+      {
+        file: "/tests/login.spec.ts",
+        line: 14,
+        column: 5,
+        function: undefined,
+      },
+    ]);
+  });
+
+  describe("on a sample trace", () => {
+    let trace: ParsedTrace;
+
+    beforeAll(async () => {
+      trace = await parseSampleTrace("event-trace.zip");
+    });
+
+    it("locates the failure in the test's helper module", () => {
+      expect(trace.testFile).toBe(
+        `${CHECK_DIRECTORY}/patient-app.event.logging.group3.spec.ts`
+      );
+      expect(formatSourceLocation(trace.failingLine!)).toBe(
+        `${MODULE_FILE}:227:27`
+      );
+      expect(trace.failingSource).toBeUndefined();
+    });
+
+    it("reads the failing lines from the sources embedded in the trace", () => {
+      const embeddedName = `src@${crypto
+        .createHash("sha1")
+        .update(MODULE_FILE)
+        .digest("hex")}.txt`;
+      const excerpt = getSourceExcerpt(trace.failingLine!, {
+        sourceFiles: [
+          { filename: embeddedName, content: Buffer.from(MODULE_SOURCE) },
+        ],
+      });
+
+      expect(formatSourceExcerpt(excerpt!)).toBe(
+        [
+          `${MODULE_FILE}:227:27`,
+          "  224 | // line 224",
+          "  225 | // line 225",
+          "  226 | // line 226",
+          "> 227 | // line 227",
+          "  228 | // line 228",
+          "  229 | // line 229",
+          "  230 | // line 230",
+        ].join("\n")
+      );
+    });
+
+    it("falls back to the local checkout of the test", () => {
+      const root = fs.mkdtempSync(path.join(os.tmpdir(), "sources-"));
+      try {
+        const localFile = path.join(
+          root,
+          "__checks__/patient-app.event.logging/utils/module.ts"
+        );
+        fs.mkdirSync(path.dirname(localFile), { recursive: true });
+        fs.writeFileSync(localFile, MODULE_SOURCE);
+
+        const excerpt = getSourceExcerpt(trace.failingLine!, {
+          sourceRoot: root,
+        });
+        expect(excerpt).toMatchObject({ startLine: 224, line: 227 });
+        expect(excerpt!.lines[3]).toBe("// line 227");
+      } finally {
+        fs.rmSync(root, { recursive: true, force: true });
+      }
+    });
+  });
+});
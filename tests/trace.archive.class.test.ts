@@ -0,0 +1,44 @@
+import * as path from "path";
+import { readTraceFileStream } from "@/trace";
+import { TraceArchive } from "@/trace/classes/trace.archive.class";
+
+describe("TraceArchive", () => {
+  let archive: TraceArchive;
+
+  beforeAll(async () => {
+    archive = await TraceArchive.open(
+      path.join(__dirname, "../data/samples/visit-danube-trace.zip")
+    );
+  });
+
+  it("opens the runner trace before the browser context files", async () => {
+    const files = archive.openTraceFiles();
+
+    expect(files.map((file) => file.filename)).toEqual([
+      "test.trace",
+      "0-trace.network",
+      "0-trace.stacks",
+      "0-trace.trace",
+    ]);
+    expect(files[0].size).toBe(15273);
+
+    const { content } = await readTraceFileStream(files[0]);
+    expect(content).toHaveLength(15273);
+    expect(JSON.parse(content.toString("utf-8").split("\n")[0])).toMatchObject({
+      type: "context-options",
+    });
+  });
+
+  it("reads resources by their sha1 name", async () => {
+    const sha1 = "c13322e903761e73aa42fbec1f493ed4d48d71d3.json";
+
+    expect(archive.hasResource(sha1)).toBe(true);
+    expect(archive.hasResource("resources/" + sha1)).toBe(false);
+    expect((await archive.readResource(sha1))!.length).toBe(4033);
+    expect(await archive.readResource("missing.json")).toBeUndefined();
+  });
+
+  it("finds no embedded sources in a trace recorded without them", () => {
+    expect(archive.openSourceFiles()).toEqual([]);
+  });
+});
@@ -0,0 +1,80 @@
+import { ParsedTrace } from "@/trace";
+import { TracePromptRenderer } from "@/trace/classes/trace.prompt.renderer.class";
+import { parseSampleTrace } from "./helpers";
+
+describe("TracePromptRenderer", () => {
+  let trace: ParsedTrace;
+
+  beforeAll(async () => {
+    trace = await parseSampleTrace("visit-danube-trace.zip");
+  });
+
+  it("summarizes the test and where it failed", () => {
+    const summary = new TracePromptRenderer(trace).renderSummary();
+
+    expect(summary).toContain("Status: FAILED");
+    expect(summary).toContain(
+      "Failure Location: test body (expect.toBeLessThan)"
+    );
+    expect(summary).toContain(`Actions Count: ${trace.actions.length}`);
+  });
+
+  it("lists the failing action as failed", () => {
+    expect(new TracePromptRenderer(trace).renderActions()).toMatch(
+      /FAILED - expect\.toBeLessThan - Error: .*expect\(received\)\.toBeLessThan/
+    );
+  });
+
+  it("renders unusable timestamps as a placeholder", () => {
+    const broken: ParsedTrace = {
+      ...trace,
+      consoleMessages: [
+        { type: "error", text: "Uncaught TypeError", timestamp: NaN },
+        { type: "log", text: "Far future", timestamp: 8.64e15 + 1 },
+      ],
+    };
+
+    const rendered = new TracePromptRenderer(broken).renderConsole();
+    expect(rendered).toContain("[N/A] ERROR: Uncaught TypeError");
+    expect(rendered).toContain("[N/A] LOG: Far future");
+  });
+
+  it("quotes the response of failed requests", () => {
+    const failing: ParsedTrace = {
+      ...trace,
+      networkRequests: [
+        {
+          url: "https://app.example.test/api/orders",
+          method: "GET",
+          status: 500,
+          statusText: "Internal Server Error",
+          timestamp: trace.duration.end,
+          responseBody: '{"error":"database unavailable"}',
+        },
+      ],
+    };
+
+    expect(new TracePromptRenderer(failing).renderNetwork()).toContain(
+      'Response: {"error":"database unavailable"}'
+    );
+  });
+
+  it("cuts the failure DOM and the locator check to their budgets", async () => {
+    const failed = await parseSampleTrace("event-trace.zip");
+    const renderer = new TracePromptRenderer(failed, {
+      failureDom: 25,
+      locatorEvidence: 25,
+    });
+
+    const dom = renderer.renderFailureDom();
+    expect(dom.startsWith(failed.failureDom!.substring(0, 100))).toBe(true);
+    expect(dom).toMatch(/\.\.\. \(\d+ more characters\)$/);
+
+    expect(renderer.renderLocatorEvidence()).toMatch(
+      /\.\.\. \(40 more characters\)$/
+    );
+    expect(new TracePromptRenderer(trace).renderLocatorEvidence()).toBe(
+      "No locator check recorded."
+    );
+  });
+});